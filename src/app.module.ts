@@ -5,8 +5,12 @@ import { ThrottlerModule } from '@nestjs/throttler';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { join } from 'path';
 import { AuthModule } from './auth/auth.module';
+import { ChallengeModule } from './challenge/challenge.module';
+import { ConsentModule } from './consent/consent.module';
 import { ContactModule } from './contact/contact.module';
 import { MailModule } from './mail/mail.module';
+import { NewsletterModule } from './newsletter/newsletter.module';
+import { PrivacyModule } from './privacy/privacy.module';
 import { SecureModule } from './secure/secure.module';
 import { HealthModule } from './health/health.module';
 import { UsersModule } from './users/users.module';
@@ -45,12 +49,16 @@ import { AppThrottlerGuard } from './common/guards/app-throttler.guard';
         logging: config.get<boolean>('DATABASE_LOGGING', false),
       }),
     }),
+    ChallengeModule,
     MailModule,
     UsersModule,
+    ConsentModule,
     AuthModule,
     SecureModule,
     HealthModule,
     ContactModule,
+    NewsletterModule,
+    PrivacyModule,
   ],
   controllers: [AppController],
   providers: [
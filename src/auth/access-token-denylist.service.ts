@@ -0,0 +1,34 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThan, Repository } from 'typeorm';
+import { RevokedAccessToken } from './entities/revoked-access-token.entity';
+
+@Injectable()
+export class AccessTokenDenylistService {
+  private readonly logger = new Logger(AccessTokenDenylistService.name);
+
+  constructor(
+    @InjectRepository(RevokedAccessToken)
+    private readonly revokedTokensRepository: Repository<RevokedAccessToken>,
+  ) {}
+
+  async deny(jti: string, expiresAt: Date, userId?: string, reason?: string): Promise<void> {
+    if (expiresAt.getTime() <= Date.now()) {
+      return;
+    }
+
+    await this.revokedTokensRepository.save(
+      this.revokedTokensRepository.create({ jti, expiresAt, userId, reason }),
+    );
+
+    // Wpisy po wygaśnięciu tokenu nie są już potrzebne - sprzątamy przy okazji.
+    const purged = await this.revokedTokensRepository.delete({ expiresAt: LessThan(new Date()) });
+    if (purged.affected) {
+      this.logger.log(`Purged ${purged.affected} expired access token denylist entries.`);
+    }
+  }
+
+  async isDenied(jti: string): Promise<boolean> {
+    return this.revokedTokensRepository.exists({ where: { jti } });
+  }
+}
@@ -0,0 +1,51 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  NotFoundException,
+  Param,
+  ParseUUIDPipe,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { ErrorCode } from '../common/enums/error-code.enum';
+import { apiError } from '../common/i18n/api-messages';
+import { UserRole } from '../users/enums/user-role.enum';
+import { Roles } from './decorators/roles.decorator';
+import { RolesGuard } from './guards/roles.guard';
+import { SessionsService } from './sessions.service';
+
+@Controller('admin')
+@UseGuards(AuthGuard('jwt'), RolesGuard)
+@Roles(UserRole.ADMIN)
+export class AdminSessionsController {
+  constructor(private readonly sessionsService: SessionsService) {}
+
+  @Get('users/:userId/sessions')
+  async listUserSessions(@Param('userId', ParseUUIDPipe) userId: string) {
+    const sessions = await this.sessionsService.findActiveForUser(userId);
+    return sessions.map((session) => ({
+      id: session.id,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+    }));
+  }
+
+  @Delete('users/:userId/sessions')
+  async revokeUserSessions(@Param('userId', ParseUUIDPipe) userId: string) {
+    const revokedSessions = await this.sessionsService.revokeAllForUser(userId, 'admin-revoked');
+    return { revokedSessions };
+  }
+
+  @Delete('sessions/:sessionId')
+  async revokeSession(@Param('sessionId', ParseUUIDPipe) sessionId: string) {
+    const revoked = await this.sessionsService.revokeSession(sessionId, 'admin-revoked');
+    if (!revoked) {
+      throw new NotFoundException(apiError(ErrorCode.SESSION_NOT_FOUND));
+    }
+    return { revoked };
+  }
+}
@@ -1,9 +1,29 @@
-import { Body, Controller, HttpCode, HttpStatus, Post, Req } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
 import { Throttle } from '@nestjs/throttler';
 import { Request } from 'express';
+import { ProofOfWorkGuard } from '../challenge/proof-of-work.guard';
+import { SuccessCode } from '../common/enums/success-code.enum';
+import { apiMessage } from '../common/i18n/api-messages';
+import { extractClientIp, negotiateLanguage } from '../common/utils/request.utils';
 import { AuthService } from './auth.service';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { MagicLinkDto } from './dto/magic-link.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
 import { RequestLoginCodeDto } from './dto/request-login-code.dto';
 import { VerifyLoginCodeDto } from './dto/verify-login-code.dto';
+import { AuthenticatedUser } from './interfaces/authenticated-user.interface';
+import { SessionContext } from './sessions.service';
 
 @Controller('auth')
 export class AuthController {
@@ -11,6 +31,7 @@ export class AuthController {
 
   @Post('request-code')
   @Throttle({ default: { limit: 5, ttl: 60 * 1000 } }) // 5 requestów na minutę
+  @UseGuards(ProofOfWorkGuard)
   @HttpCode(HttpStatus.ACCEPTED)
   async requestCode(@Body() dto: RequestLoginCodeDto, @Req() req: Request) {
     const metadata = {
@@ -18,7 +39,7 @@ export class AuthController {
       lastName: dto.lastName?.trim(),
       phone: dto.phone?.trim(),
       company: dto.company?.trim(),
-      language: dto.language?.trim() ?? this.extractLanguageFromHeader(req.headers['accept-language']),
+      language: dto.language?.trim() ?? negotiateLanguage(req.headers['accept-language']),
       country: dto.country?.trim() ?? this.extractCountryFromHeaders(req),
       deviceType: dto.deviceType?.trim(),
       browserName: dto.browserName?.trim(),
@@ -26,7 +47,7 @@ export class AuthController {
       osName: dto.osName?.trim(),
       osVersion: dto.osVersion?.trim(),
       userAgent: req.headers['user-agent'],
-      ipAddress: this.extractClientIp(req),
+      ipAddress: extractClientIp(req),
     };
 
     const result = await this.authService.requestLoginCode(
@@ -35,10 +56,10 @@ export class AuthController {
       metadata,
     );
 
-    return { 
-      message: result.existingTokenValid
-        ? 'Posiadasz już aktywny token. Przesłaliśmy go ponownie na Twój adres e-mail.'
-        : 'Jeśli użytkownik istnieje, kod został wysłany.',
+    return {
+      ...apiMessage(
+        result.existingTokenValid ? SuccessCode.LOGIN_CODE_RESENT : SuccessCode.LOGIN_CODE_SENT,
+      ),
       codeSent: result.codeSent,
       existingTokenValid: result.existingTokenValid,
       validUntil: result.validUntil?.toISOString(),
@@ -48,31 +69,60 @@ export class AuthController {
 
   @Post('verify')
   @Throttle({ default: { limit: 6, ttl: 60 * 1000 } })
-  async verify(@Body() dto: VerifyLoginCodeDto) {
-    return this.authService.verifyLoginCode(dto.email, dto.code);
+  async verify(@Body() dto: VerifyLoginCodeDto, @Req() req: Request) {
+    return this.authService.verifyLoginCode(dto.email, dto.code, this.extractSessionContext(req));
   }
 
-  private extractClientIp(req: Request): string | undefined {
-    const xForwardedFor = req.headers['x-forwarded-for'];
-    if (Array.isArray(xForwardedFor)) {
-      return xForwardedFor[0];
-    }
-    if (typeof xForwardedFor === 'string') {
-      const [firstIp] = xForwardedFor.split(',').map((ip) => ip.trim());
-      if (firstIp) {
-        return firstIp;
-      }
-    }
-    return req.ip;
+  // GET tylko sprawdza link (skanery poczty otwierają linki automatycznie), logowanie wymaga POST.
+  @Get('magic')
+  @Throttle({ default: { limit: 10, ttl: 60 * 1000 } })
+  async previewMagicLink(@Query() dto: MagicLinkDto) {
+    const preview = await this.authService.previewMagicLink(dto.token);
+    return {
+      confirmationRequired: true,
+      email: preview.email,
+      expiresAt: preview.expiresAt.toISOString(),
+    };
   }
 
-  private extractLanguageFromHeader(headerValue: string | string[] | undefined): string | undefined {
-    if (!headerValue) {
-      return undefined;
-    }
-    const value = Array.isArray(headerValue) ? headerValue[0] : headerValue;
-    const [primary] = value.split(',').map((lang) => lang.trim());
-    return primary?.slice(0, 5);
+  @Post('magic')
+  @Throttle({ default: { limit: 6, ttl: 60 * 1000 } })
+  @HttpCode(HttpStatus.OK)
+  async verifyMagicLink(@Body() dto: MagicLinkDto, @Req() req: Request) {
+    return this.authService.verifyMagicLink(dto.token, this.extractSessionContext(req));
+  }
+
+  @Post('refresh')
+  @Throttle({ default: { limit: 10, ttl: 60 * 1000 } })
+  @HttpCode(HttpStatus.OK)
+  async refresh(@Body() dto: RefreshTokenDto, @Req() req: Request) {
+    return this.authService.refreshSession(dto.refreshToken, this.extractSessionContext(req));
+  }
+
+  @Post('logout')
+  @UseGuards(AuthGuard('jwt'))
+  @HttpCode(HttpStatus.OK)
+  async logout(@CurrentUser() user: AuthenticatedUser) {
+    await this.authService.logout(user);
+    return apiMessage(SuccessCode.LOGGED_OUT);
+  }
+
+  @Post('logout-all')
+  @UseGuards(AuthGuard('jwt'))
+  @HttpCode(HttpStatus.OK)
+  async logoutEverywhere(@CurrentUser() user: AuthenticatedUser) {
+    const revokedSessions = await this.authService.logoutEverywhere(user);
+    return {
+      ...apiMessage(SuccessCode.LOGGED_OUT_EVERYWHERE),
+      revokedSessions,
+    };
+  }
+
+  private extractSessionContext(req: Request): SessionContext {
+    return {
+      userAgent: req.headers['user-agent'],
+      ipAddress: extractClientIp(req),
+    };
   }
 
   private extractCountryFromHeaders(req: Request): string | undefined {
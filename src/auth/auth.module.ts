@@ -3,31 +3,61 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
 import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { ChallengeModule } from '../challenge/challenge.module';
+import { CLOCK, systemClock } from '../common/clock/clock';
+import { ConsentModule } from '../consent/consent.module';
 import { MailModule } from '../mail/mail.module';
 import { User } from '../users/entities/user.entity';
+import { AccessTokenDenylistService } from './access-token-denylist.service';
+import { AdminSessionsController } from './admin-sessions.controller';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
+import { LoginLockout } from './entities/login-lockout.entity';
 import { LoginToken } from './entities/login-token.entity';
+import { RevokedAccessToken } from './entities/revoked-access-token.entity';
+import { Session } from './entities/session.entity';
+import { TotpRecoveryCode } from './entities/totp-recovery-code.entity';
 import { JwtStrategy } from './jwt.strategy';
+import { LoginAttemptsService } from './login-attempts.service';
+import { SessionsService } from './sessions.service';
+import { TotpController } from './totp/totp.controller';
+import { TotpService } from './totp/totp.service';
 
 @Module({
   imports: [
     ConfigModule,
     PassportModule,
     MailModule,
-    TypeOrmModule.forFeature([LoginToken, User]),
+    ChallengeModule,
+    ConsentModule,
+    TypeOrmModule.forFeature([
+      LoginToken,
+      LoginLockout,
+      Session,
+      RevokedAccessToken,
+      TotpRecoveryCode,
+      User,
+    ]),
     JwtModule.registerAsync({
       inject: [ConfigService],
       useFactory: (config: ConfigService) => ({
         secret: config.get<string>('JWT_SECRET', 'change-me'),
         signOptions: {
-          expiresIn: `${config.get<number>('LOGIN_CODE_TTL_HOURS', 24)}h`,
+          expiresIn: `${config.get<number>('JWT_ACCESS_TTL_MINUTES', 15)}m`,
         },
       }),
     }),
   ],
-  controllers: [AuthController],
-  providers: [AuthService, JwtStrategy],
-  exports: [AuthService],
+  controllers: [AuthController, TotpController, AdminSessionsController],
+  providers: [
+    AuthService,
+    SessionsService,
+    AccessTokenDenylistService,
+    LoginAttemptsService,
+    TotpService,
+    JwtStrategy,
+    { provide: CLOCK, useValue: systemClock },
+  ],
+  exports: [AuthService, SessionsService],
 })
 export class AuthModule {}
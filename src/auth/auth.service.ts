@@ -1,5 +1,6 @@
 import {
   BadRequestException,
+  ForbiddenException,
   Injectable,
   Logger,
   UnauthorizedException,
@@ -7,12 +8,24 @@ import {
 import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
 import { InjectRepository } from '@nestjs/typeorm';
-import { randomInt } from 'crypto';
-import { Repository } from 'typeorm';
+import { createHmac, randomBytes, randomInt, randomUUID, timingSafeEqual } from 'crypto';
+import { IsNull, Repository } from 'typeorm';
+import { ErrorCode } from '../common/enums/error-code.enum';
+import { apiError } from '../common/i18n/api-messages';
+import { ConsentService } from '../consent/consent.service';
+import { ConsentType } from '../consent/enums/consent-type.enum';
 import { MailService } from '../mail/mail.service';
 import { User } from '../users/entities/user.entity';
+import { UserRole } from '../users/enums/user-role.enum';
 import { LoginToken } from './entities/login-token.entity';
+import { Session } from './entities/session.entity';
+import { AccessTokenDenylistService } from './access-token-denylist.service';
+import { AuthenticatedUser } from './interfaces/authenticated-user.interface';
+import { LoginAttemptsService } from './login-attempts.service';
 import { JwtPayload } from './interfaces/jwt-payload.interface';
+import { MagicLinkPayload } from './interfaces/magic-link-payload.interface';
+import { SessionContext, SessionsService } from './sessions.service';
+import { SecondFactorChallenge, SecondFactorInput, TotpService } from './totp/totp.service';
 
 interface GenerateLoginTokenOptions {
   sendEmail?: boolean;
@@ -38,21 +51,35 @@ interface LoginCodeRequestMetadata {
   ipAddress?: string;
 }
 
+export interface MagicLinkPreview {
+  email: string;
+  expiresAt: Date;
+}
+
 export interface VerifyResult {
   accessToken: string;
   expiresAt: Date;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
   user: {
     id: string;
     email: string;
     firstName?: string;
     lastName?: string;
+    roles: UserRole[];
   };
 }
 
+export type LoginResult = VerifyResult | SecondFactorChallenge;
+
 @Injectable()
 export class AuthService {
   private readonly logger = new Logger(AuthService.name);
   private readonly tokenTtlMs: number;
+  private readonly accessTokenTtlMs: number;
+  private readonly maxCodeAttempts: number;
+  private readonly codeHashSecret: string;
+  private readonly magicLinkSecret: string;
 
   constructor(
     @InjectRepository(LoginToken)
@@ -61,10 +88,24 @@ export class AuthService {
     private readonly usersRepository: Repository<User>,
     private readonly jwtService: JwtService,
     private readonly mailService: MailService,
+    private readonly sessionsService: SessionsService,
+    private readonly denylistService: AccessTokenDenylistService,
+    private readonly loginAttemptsService: LoginAttemptsService,
+    private readonly totpService: TotpService,
+    private readonly consentService: ConsentService,
     private readonly config: ConfigService,
   ) {
     const ttlHours = this.config.get<number>('LOGIN_CODE_TTL_HOURS', 24);
     this.tokenTtlMs = ttlHours * 60 * 60 * 1000;
+    const accessTtlMinutes = this.config.get<number>('JWT_ACCESS_TTL_MINUTES', 15);
+    this.accessTokenTtlMs = accessTtlMinutes * 60 * 1000;
+    this.maxCodeAttempts = Number(this.config.get<number>('LOGIN_CODE_MAX_ATTEMPTS', 5));
+    this.codeHashSecret =
+      this.config.get<string>('LOGIN_CODE_SECRET') ??
+      this.config.get<string>('JWT_SECRET', 'change-me');
+    this.magicLinkSecret =
+      this.config.get<string>('MAGIC_LINK_SECRET') ??
+      `${this.config.get<string>('JWT_SECRET', 'change-me')}:magic-link`;
   }
 
   async generateLoginToken(
@@ -80,9 +121,11 @@ export class AuthService {
       .andWhere('consumedAt IS NULL')
       .execute();
 
-    const code = await this.createUniqueCode();
+    const code = this.generateCode();
+    const magicNonce = this.generateMagicNonce();
     const token = this.loginTokenRepository.create({
-      code,
+      codeHash: this.hashCode(code),
+      magicLinkHash: this.hashCode(magicNonce),
       expiresAt: new Date(Date.now() + this.tokenTtlMs),
       user,
       userId: user.id,
@@ -94,12 +137,14 @@ export class AuthService {
       await this.mailService.sendLoginTokenEmail({
         to: user.email,
         code,
+        magicToken: await this.signMagicLink(user, savedToken, magicNonce),
         expiresAt: savedToken.expiresAt,
         refreshUrl: options.refreshUrl,
-        language: options.language ?? user.preferredLanguage ?? 'pl',
+        language: options.language ?? user.preferredLanguage,
         isReminder: false,
         issuedAt: options.issuedAt ?? savedToken.createdAt ?? new Date(),
         metadata: options.metadata,
+        idempotencyKey: `login-token:${savedToken.id}`,
       });
     }
 
@@ -146,7 +191,7 @@ export class AuthService {
           email: normalizedEmail,
           firstName: sanitizedMetadata.firstName,
           lastName: sanitizedMetadata.lastName,
-          preferredLanguage: sanitizedMetadata.language ?? 'pl',
+          preferredLanguage: sanitizedMetadata.language,
         });
         user = await this.usersRepository.save(user);
         this.logger.log(`Automatically created new user: ${normalizedEmail}`);
@@ -154,15 +199,27 @@ export class AuthService {
         this.logger.error(`Failed to create user ${normalizedEmail}:`, error);
         throw new Error('Nie udało się utworzyć konta użytkownika.');
       }
+
+      await this.consentService.grant(
+        {
+          email: user.email,
+          userId: user.id,
+          language: user.preferredLanguage,
+          source: 'account',
+          ipAddress: sanitizedMetadata.ipAddress,
+          userAgent: sanitizedMetadata.userAgent,
+        },
+        [ConsentType.GDPR],
+      );
     }
 
     if (!user) {
       this.logger.warn(`Login code requested for unknown email without metadata: ${email}`);
-      throw new BadRequestException(
-        'Nie znaleziono konta dla podanego adresu. Wybierz opcję „Uzyskaj kod dla nowego użytkownika” i wypełnij formularz.',
-      );
+      throw new BadRequestException(apiError(ErrorCode.ACCOUNT_NOT_FOUND));
     }
 
+    this.assertNotBlocked(user);
+
     if (sanitizedMetadata) {
       const updates: Partial<User> = {};
 
@@ -184,7 +241,7 @@ export class AuthService {
     const preferredLanguage =
       sanitizedMetadata?.language ??
       user.preferredLanguage ??
-      this.config.get<string>('DEFAULT_USER_LANGUAGE', 'pl');
+      this.config.get<string>('DEFAULT_USER_LANGUAGE');
 
     if (sanitizedMetadata?.language && sanitizedMetadata.language !== user.preferredLanguage) {
       await this.usersRepository.update(user.id, {
@@ -198,21 +255,30 @@ export class AuthService {
       where: {
         userId: user.id,
         revoked: false,
-        consumedAt: undefined,
+        consumedAt: IsNull(),
       },
+      order: { createdAt: 'DESC' },
     });
 
-    // Jeśli token istnieje i jest ważny, nie wysyłaj nowego
+    // Jeśli token istnieje i jest ważny, nie generuj nowego okna logowania.
+    // Kod przechowujemy tylko jako hash, więc przypomnienie zawiera nowy kod o tym samym terminie ważności.
     const now = Date.now();
     if (existingToken && existingToken.expiresAt.getTime() > now) {
       this.logger.log(`Valid token already exists for user: ${normalizedEmail}`);
+      const reissuedCode = this.generateCode();
+      const magicNonce = this.generateMagicNonce();
+      existingToken.codeHash = this.hashCode(reissuedCode);
+      existingToken.magicLinkHash = this.hashCode(magicNonce);
+      await this.loginTokenRepository.save(existingToken);
+
       try {
         await this.mailService.sendLoginTokenEmail({
           to: user.email,
-          code: existingToken.code,
+          code: reissuedCode,
+          magicToken: await this.signMagicLink(user, existingToken, magicNonce),
           expiresAt: existingToken.expiresAt,
           refreshUrl,
-          language: preferredLanguage ?? 'pl',
+          language: preferredLanguage,
           isReminder: true,
           issuedAt: existingToken.createdAt,
           metadata: sanitizedMetadata,
@@ -243,7 +309,7 @@ export class AuthService {
     const newToken = await this.generateLoginToken(user, {
       sendEmail: true,
       refreshUrl,
-      language: preferredLanguage ?? 'pl',
+      language: preferredLanguage,
       metadata: sanitizedMetadata,
     });
 
@@ -255,6 +321,7 @@ export class AuthService {
         tokenExpiresAt: newToken.expiresAt,
         tokenIssuedAt: newToken.createdAt,
         metadata: sanitizedMetadata,
+        idempotencyKey: `access-request:${newToken.id}`,
       });
     } catch (error) {
       const reason = error instanceof Error ? error.stack ?? error.message : String(error);
@@ -269,76 +336,254 @@ export class AuthService {
     };
   }
 
-  async verifyLoginCode(email: string, code: string): Promise<VerifyResult> {
+  async verifyLoginCode(
+    email: string,
+    code: string,
+    context: SessionContext = {},
+  ): Promise<LoginResult> {
     const normalizedEmail = this.normalizeEmail(email);
+    await this.loginAttemptsService.assertNotLocked(normalizedEmail);
+
     const user = await this.usersRepository.findOne({
       where: { email: normalizedEmail },
     });
 
     if (!user) {
-      throw new UnauthorizedException('Nieprawidłowy kod lub e-mail.');
+      throw new UnauthorizedException(apiError(ErrorCode.INVALID_LOGIN_CODE));
     }
 
     const loginToken = await this.loginTokenRepository.findOne({
       where: {
         userId: user.id,
-        code,
         revoked: false,
+        consumedAt: IsNull(),
       },
+      order: { createdAt: 'DESC' },
     });
 
-    if (!loginToken) {
-      throw new UnauthorizedException('Nieprawidłowy kod lub e-mail.');
+    if (!loginToken || !this.matchesCodeHash(code, loginToken.codeHash)) {
+      const burned = loginToken ? await this.registerFailedAttempt(loginToken) : false;
+      await this.loginAttemptsService.registerFailure(normalizedEmail, context);
+      throw new UnauthorizedException(
+        apiError(burned ? ErrorCode.LOGIN_CODE_REVOKED : ErrorCode.INVALID_LOGIN_CODE),
+      );
     }
 
-    if (loginToken.consumedAt) {
-      throw new UnauthorizedException('Kod został już wykorzystany.');
+    if (loginToken.expiresAt.getTime() < Date.now()) {
+      throw new UnauthorizedException(apiError(ErrorCode.LOGIN_CODE_EXPIRED));
     }
 
-    if (loginToken.expiresAt.getTime() < Date.now()) {
-      throw new UnauthorizedException('Kod wygasł.');
+    return this.completeLogin(user, loginToken, context);
+  }
+
+  async previewMagicLink(token: string): Promise<MagicLinkPreview> {
+    const { user, loginToken } = await this.resolveMagicLink(token);
+    return {
+      email: this.maskEmail(user.email),
+      expiresAt: loginToken.expiresAt,
+    };
+  }
+
+  async verifyMagicLink(token: string, context: SessionContext = {}): Promise<LoginResult> {
+    const { user, loginToken } = await this.resolveMagicLink(token);
+    await this.loginAttemptsService.assertNotLocked(user.email);
+    return this.completeLogin(user, loginToken, context);
+  }
+
+  async verifySecondFactor(
+    challengeToken: string,
+    input: SecondFactorInput,
+    context: SessionContext = {},
+  ): Promise<VerifyResult> {
+    const user = await this.totpService.resolveChallenge(challengeToken);
+    this.assertNotBlocked(user);
+    await this.loginAttemptsService.assertNotLocked(user.email);
+
+    if (!(await this.totpService.verifySecondFactor(user.id, input))) {
+      await this.loginAttemptsService.registerFailure(user.email, context);
+      throw new UnauthorizedException(apiError(ErrorCode.INVALID_SECOND_FACTOR_CODE));
     }
 
+    await this.loginAttemptsService.registerSuccess(user.email);
+    const { session, refreshToken } = await this.sessionsService.createSession(user, context);
+    return this.buildVerifyResult(user, session, refreshToken);
+  }
+
+  private async completeLogin(
+    user: User,
+    loginToken: LoginToken,
+    context: SessionContext,
+  ): Promise<LoginResult> {
+    this.assertNotBlocked(user);
+
     loginToken.consumedAt = new Date();
     loginToken.revoked = true;
     await this.loginTokenRepository.save(loginToken);
 
+    // Kod z e-maila jest tylko pierwszym składnikiem - sesję wydajemy dopiero po kodzie TOTP.
+    if (user.totpEnabledAt) {
+      return this.totpService.issueChallenge(user);
+    }
+
+    await this.loginAttemptsService.registerSuccess(user.email);
+
+    const { session, refreshToken } = await this.sessionsService.createSession(user, context);
+    return this.buildVerifyResult(user, session, refreshToken);
+  }
+
+  private async resolveMagicLink(token: string): Promise<{ user: User; loginToken: LoginToken }> {
+    let payload: MagicLinkPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<MagicLinkPayload>(token, {
+        secret: this.magicLinkSecret,
+      });
+    } catch {
+      throw new UnauthorizedException(apiError(ErrorCode.INVALID_MAGIC_LINK));
+    }
+
+    if (payload.typ !== 'magic-link' || !payload.nonce) {
+      throw new UnauthorizedException(apiError(ErrorCode.INVALID_MAGIC_LINK));
+    }
+
+    const loginToken = await this.loginTokenRepository.findOne({
+      where: {
+        userId: payload.sub,
+        magicLinkHash: this.hashCode(payload.nonce),
+      },
+      relations: { user: true },
+    });
+
+    // Link jest jednorazowy: po użyciu kodu lub linku token zostaje oznaczony jako wykorzystany.
+    if (
+      !loginToken ||
+      loginToken.revoked ||
+      loginToken.consumedAt ||
+      loginToken.expiresAt.getTime() < Date.now()
+    ) {
+      throw new UnauthorizedException(apiError(ErrorCode.INVALID_MAGIC_LINK));
+    }
+
+    return { user: loginToken.user, loginToken };
+  }
+
+  private async signMagicLink(user: User, loginToken: LoginToken, nonce: string): Promise<string> {
+    const payload: MagicLinkPayload = {
+      sub: user.id,
+      nonce,
+      typ: 'magic-link',
+    };
+    const expiresIn = Math.max(1, Math.floor((loginToken.expiresAt.getTime() - Date.now()) / 1000));
+    return this.jwtService.signAsync(payload, {
+      secret: this.magicLinkSecret,
+      expiresIn,
+    });
+  }
+
+  async refreshSession(refreshToken: string, context: SessionContext = {}): Promise<VerifyResult> {
+    const { session, refreshToken: rotatedToken } = await this.sessionsService.rotate(
+      refreshToken,
+      context,
+    );
+    this.assertNotBlocked(session.user);
+    return this.buildVerifyResult(session.user, session, rotatedToken);
+  }
+
+  async logout(principal: AuthenticatedUser): Promise<void> {
+    if (principal.sessionId) {
+      await this.sessionsService.revokeSession(principal.sessionId, 'logout', principal.userId);
+    }
+    await this.denyCurrentAccessToken(principal, 'logout');
+  }
+
+  async logoutEverywhere(principal: AuthenticatedUser): Promise<number> {
+    const revokedSessions = await this.sessionsService.revokeAllForUser(
+      principal.userId,
+      'logout-everywhere',
+    );
+    await this.denyCurrentAccessToken(principal, 'logout-everywhere');
+    return revokedSessions;
+  }
+
+  private async denyCurrentAccessToken(principal: AuthenticatedUser, reason: string): Promise<void> {
+    if (!principal.jti) {
+      return;
+    }
+    const expiresAt = principal.tokenExpiresAt ?? new Date(Date.now() + this.accessTokenTtlMs);
+    await this.denylistService.deny(principal.jti, expiresAt, principal.userId, reason);
+  }
+
+  private async buildVerifyResult(
+    user: User,
+    session: Session,
+    refreshToken: string,
+  ): Promise<VerifyResult> {
     const payload: JwtPayload = {
       sub: user.id,
       email: user.email,
+      roles: user.roles,
+      sid: session.id,
     };
 
-    const expiresIn = Math.floor(this.tokenTtlMs / 1000);
+    const expiresIn = Math.floor(this.accessTokenTtlMs / 1000);
     const accessToken = await this.jwtService.signAsync(payload, {
       expiresIn,
+      jwtid: randomUUID(),
     });
 
     return {
       accessToken,
-      expiresAt: new Date(Date.now() + this.tokenTtlMs),
+      expiresAt: new Date(Date.now() + this.accessTokenTtlMs),
+      refreshToken,
+      refreshTokenExpiresAt: session.expiresAt,
       user: {
         id: user.id,
         email: user.email,
         firstName: user.firstName,
         lastName: user.lastName,
+        roles: user.roles,
       },
     };
   }
 
-  private async createUniqueCode(): Promise<string> {
-    const maxTries = 10;
-    for (let attempt = 0; attempt < maxTries; attempt += 1) {
-      const code = this.generateCode();
-      const exists = await this.loginTokenRepository.exists({
-        where: { code },
-      });
-      if (!exists) {
-        return code;
-      }
+  private assertNotBlocked(user: User): void {
+    if (user.blockedAt) {
+      throw new ForbiddenException(apiError(ErrorCode.ACCOUNT_BLOCKED));
+    }
+  }
+
+  private async registerFailedAttempt(loginToken: LoginToken): Promise<boolean> {
+    loginToken.failedAttempts = (loginToken.failedAttempts ?? 0) + 1;
+    const burned = loginToken.failedAttempts >= this.maxCodeAttempts;
+    if (burned) {
+      loginToken.revoked = true;
+      this.logger.warn(
+        `Login code ${loginToken.id} revoked after ${loginToken.failedAttempts} failed attempts.`,
+      );
     }
+    await this.loginTokenRepository.save(loginToken);
+    return burned;
+  }
+
+  private hashCode(code: string): string {
+    return createHmac('sha256', this.codeHashSecret).update(code).digest('hex');
+  }
 
-    this.logger.warn('Falling back to extended code generation after collisions.');
-    return this.generateCode(8);
+  private matchesCodeHash(code: string, expectedHash: string): boolean {
+    const actual = Buffer.from(this.hashCode(code), 'hex');
+    const expected = Buffer.from(expectedHash, 'hex');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  private generateMagicNonce(): string {
+    return randomBytes(24).toString('base64url');
+  }
+
+  private maskEmail(email: string): string {
+    const [localPart, domain] = email.split('@');
+    if (!domain) {
+      return email;
+    }
+    return `${localPart.slice(0, 1)}***@${domain}`;
   }
 
   private generateCode(length = 6): string {
@@ -0,0 +1,7 @@
+import { IsJWT, MaxLength } from 'class-validator';
+
+export class MagicLinkDto {
+  @IsJWT()
+  @MaxLength(2048)
+  token!: string;
+}
@@ -7,6 +7,7 @@ import {
   MaxLength,
   MinLength,
 } from 'class-validator';
+import { ErrorCode } from '../../common/enums/error-code.enum';
 
 export class RequestLoginCodeDto {
   @IsEmail()
@@ -26,10 +27,7 @@ export class RequestLoginCodeDto {
 
   @IsOptional()
   @IsString()
-  @Matches(/^[\d+\s()-]{5,20}$/, {
-    message:
-      'Numer telefonu powinien mieć 5-20 znaków i może zawierać cyfry, spacje, plus, nawiasy lub myślniki.',
-  })
+  @Matches(/^[\d+\s()-]{5,20}$/, { message: ErrorCode.INVALID_PHONE })
   phone?: string;
 
   @IsOptional()
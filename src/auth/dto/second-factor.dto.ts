@@ -0,0 +1,13 @@
+import { IsString, Matches, MaxLength, ValidateIf } from 'class-validator';
+import { ErrorCode } from '../../common/enums/error-code.enum';
+
+export class SecondFactorDto {
+  @ValidateIf((dto: SecondFactorDto) => !dto.recoveryCode)
+  @Matches(/^\d{6}$/, { message: ErrorCode.INVALID_CODE_FORMAT })
+  code?: string;
+
+  @ValidateIf((dto: SecondFactorDto) => !dto.code)
+  @IsString()
+  @MaxLength(20)
+  recoveryCode?: string;
+}
@@ -0,0 +1,7 @@
+import { Matches } from 'class-validator';
+import { ErrorCode } from '../../common/enums/error-code.enum';
+
+export class TotpCodeDto {
+  @Matches(/^\d{6}$/, { message: ErrorCode.INVALID_CODE_FORMAT })
+  code!: string;
+}
@@ -0,0 +1,7 @@
+import { IsJWT } from 'class-validator';
+import { SecondFactorDto } from './second-factor.dto';
+
+export class VerifySecondFactorDto extends SecondFactorDto {
+  @IsJWT()
+  challengeToken!: string;
+}
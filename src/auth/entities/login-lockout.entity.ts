@@ -0,0 +1,22 @@
+import { Column, Entity, PrimaryColumn, UpdateDateColumn } from 'typeorm';
+
+@Entity({ name: 'login_lockouts' })
+export class LoginLockout {
+  @PrimaryColumn()
+  email!: string;
+
+  @Column({ default: 0 })
+  failedAttempts!: number;
+
+  @Column({ default: 0 })
+  lockoutCount!: number;
+
+  @Column({ nullable: true })
+  lockedUntil?: Date;
+
+  @Column({ nullable: true })
+  lastFailedAt?: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
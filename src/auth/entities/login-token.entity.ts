@@ -10,13 +10,16 @@ import {
 import { User } from '../../users/entities/user.entity';
 
 @Entity({ name: 'login_tokens' })
+@Index(['userId', 'codeHash'])
 export class LoginToken {
   @PrimaryGeneratedColumn('uuid')
   id!: string;
 
-  @Column({ unique: true })
-  @Index()
-  code!: string;
+  @Column()
+  codeHash!: string;
+
+  @Column({ nullable: true })
+  magicLinkHash?: string;
 
   @Column()
   expiresAt!: Date;
@@ -27,7 +30,11 @@ export class LoginToken {
   @Column({ default: false })
   revoked!: boolean;
 
+  @Column({ default: 0 })
+  failedAttempts!: number;
+
   @Column()
+  @Index()
   userId!: string;
 
   @ManyToOne(() => User, (user) => user.loginTokens, { onDelete: 'CASCADE' })
@@ -0,0 +1,20 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryColumn } from 'typeorm';
+
+@Entity({ name: 'revoked_access_tokens' })
+export class RevokedAccessToken {
+  @PrimaryColumn()
+  jti!: string;
+
+  @Column({ nullable: true })
+  userId?: string;
+
+  @Column({ nullable: true })
+  reason?: string;
+
+  @Column()
+  @Index()
+  expiresAt!: Date;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
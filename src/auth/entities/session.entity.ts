@@ -0,0 +1,50 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+@Entity({ name: 'sessions' })
+export class Session {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column()
+  refreshTokenHash!: string;
+
+  @Column()
+  expiresAt!: Date;
+
+  @Column({ nullable: true })
+  lastUsedAt?: Date;
+
+  @Column({ nullable: true })
+  revokedAt?: Date;
+
+  @Column({ nullable: true })
+  revokedReason?: string;
+
+  @Column({ nullable: true })
+  userAgent?: string;
+
+  @Column({ nullable: true })
+  ipAddress?: string;
+
+  @Column()
+  @Index()
+  userId!: string;
+
+  @ManyToOne(() => User, (user) => user.sessions, { onDelete: 'CASCADE' })
+  user!: User;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
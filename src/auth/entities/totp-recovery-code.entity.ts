@@ -0,0 +1,31 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+@Entity({ name: 'totp_recovery_codes' })
+export class TotpRecoveryCode {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column()
+  codeHash!: string;
+
+  @Column({ nullable: true })
+  usedAt?: Date;
+
+  @Column()
+  @Index()
+  userId!: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  user!: User;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
@@ -0,0 +1,37 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common'
+import { Reflector } from '@nestjs/core'
+import { UserRole } from '../../users/enums/user-role.enum'
+import { RolesGuard } from './roles.guard'
+
+describe('RolesGuard', () => {
+  const createContext = (roles?: UserRole[]) =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({
+        getRequest: () => ({ user: roles ? { userId: 'user-123', roles } : undefined })
+      })
+    }) as unknown as ExecutionContext
+
+  const createGuard = (requiredRoles?: UserRole[]) => {
+    const reflector = {
+      getAllAndOverride: jest.fn().mockReturnValue(requiredRoles)
+    } as unknown as Reflector
+    return new RolesGuard(reflector)
+  }
+
+  it('allows access when no roles are required', () => {
+    expect(createGuard().canActivate(createContext())).toBe(true)
+  })
+
+  it('allows users holding one of the required roles', () => {
+    const guard = createGuard([UserRole.ADMIN])
+    expect(guard.canActivate(createContext([UserRole.VISITOR, UserRole.ADMIN]))).toBe(true)
+  })
+
+  it('rejects users without the required role', () => {
+    const guard = createGuard([UserRole.ADMIN])
+    expect(() => guard.canActivate(createContext([UserRole.VISITOR]))).toThrow(ForbiddenException)
+    expect(() => guard.canActivate(createContext())).toThrow(ForbiddenException)
+  })
+})
@@ -0,0 +1,33 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { ErrorCode } from '../../common/enums/error-code.enum';
+import { apiError } from '../../common/i18n/api-messages';
+import { UserRole } from '../../users/enums/user-role.enum';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+import { AuthenticatedUser } from '../interfaces/authenticated-user.interface';
+
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const requiredRoles = this.reflector.getAllAndOverride<UserRole[] | undefined>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!requiredRoles || requiredRoles.length === 0) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<Request & { user?: AuthenticatedUser }>();
+    const roles = request.user?.roles ?? [];
+
+    if (!requiredRoles.some((role) => roles.includes(role))) {
+      throw new ForbiddenException(apiError(ErrorCode.INSUFFICIENT_PERMISSIONS));
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,10 @@
+import { UserRole } from '../../users/enums/user-role.enum';
+
+export interface AuthenticatedUser {
+  userId: string;
+  email: string;
+  roles: UserRole[];
+  sessionId?: string;
+  jti?: string;
+  tokenExpiresAt?: Date;
+}
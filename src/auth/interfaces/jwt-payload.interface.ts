@@ -1,4 +1,10 @@
+import { UserRole } from '../../users/enums/user-role.enum';
+
 export interface JwtPayload {
   sub: string;
   email: string;
+  roles?: UserRole[];
+  sid?: string;
+  jti?: string;
+  exp?: number;
 }
@@ -0,0 +1,5 @@
+export interface MagicLinkPayload {
+  sub: string;
+  nonce: string;
+  typ: 'magic-link';
+}
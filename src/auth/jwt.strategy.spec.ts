@@ -2,8 +2,11 @@ import { UnauthorizedException } from '@nestjs/common'
 import { ConfigService } from '@nestjs/config'
 import { Repository } from 'typeorm'
 import { User } from '../users/entities/user.entity'
+import { UserRole } from '../users/enums/user-role.enum'
+import { AccessTokenDenylistService } from './access-token-denylist.service'
 import { JwtStrategy } from './jwt.strategy'
 import { JwtPayload } from './interfaces/jwt-payload.interface'
+import { SessionsService } from './sessions.service'
 
 describe('JwtStrategy', () => {
   const payload: JwtPayload = {
@@ -11,7 +14,17 @@ describe('JwtStrategy', () => {
     email: 'user@example.com'
   }
 
-  const createStrategy = (user: User | null) => {
+  const sessionPayload: JwtPayload = {
+    ...payload,
+    sid: 'session-1',
+    jti: 'token-1',
+    exp: 1_900_000_000
+  }
+
+  const createStrategy = (
+    user: User | null,
+    options: { sessionActive?: boolean; denied?: boolean } = {}
+  ) => {
     const configService = {
       get: jest.fn().mockImplementation((key: string, defaultValue: unknown) => {
         if (key === 'JWT_SECRET') {
@@ -25,15 +38,24 @@ describe('JwtStrategy', () => {
       findOne: jest.fn().mockResolvedValue(user)
     } as unknown as Repository<User>
 
-    const strategy = new JwtStrategy(configService, usersRepository)
-    return { strategy, usersRepository }
+    const sessionsService = {
+      isActive: jest.fn().mockResolvedValue(options.sessionActive ?? true)
+    } as unknown as SessionsService
+
+    const denylistService = {
+      isDenied: jest.fn().mockResolvedValue(options.denied ?? false)
+    } as unknown as AccessTokenDenylistService
+
+    const strategy = new JwtStrategy(configService, usersRepository, sessionsService, denylistService)
+    return { strategy, usersRepository, sessionsService }
   }
 
   it('returns user info when user exists', async () => {
-    const { strategy } = createStrategy({ id: 'user-123', email: 'user@example.com' } as User)
+    const { strategy } = createStrategy({ id: 'user-123', email: 'user@example.com', roles: [UserRole.VISITOR] } as User)
     await expect(strategy.validate(payload)).resolves.toEqual({
       userId: 'user-123',
-      email: 'user@example.com'
+      email: 'user@example.com',
+      roles: [UserRole.VISITOR]
     })
   })
 
@@ -41,4 +63,48 @@ describe('JwtStrategy', () => {
     const { strategy } = createStrategy(null)
     await expect(strategy.validate(payload)).rejects.toBeInstanceOf(UnauthorizedException)
   })
+
+  it('returns session details for an active session', async () => {
+    const { strategy, sessionsService } = createStrategy({
+      id: 'user-123',
+      email: 'user@example.com',
+      roles: [UserRole.VISITOR]
+    } as User)
+
+    await expect(strategy.validate(sessionPayload)).resolves.toEqual({
+      userId: 'user-123',
+      email: 'user@example.com',
+      roles: [UserRole.VISITOR],
+      sessionId: 'session-1',
+      jti: 'token-1',
+      tokenExpiresAt: new Date(1_900_000_000 * 1000)
+    })
+    expect(sessionsService.isActive).toHaveBeenCalledWith('session-1', 'user-123')
+  })
+
+  it('throws when the session was revoked or has expired', async () => {
+    const { strategy } = createStrategy({ id: 'user-123', email: 'user@example.com', roles: [UserRole.VISITOR] } as User, {
+      sessionActive: false
+    })
+    await expect(strategy.validate(sessionPayload)).rejects.toBeInstanceOf(UnauthorizedException)
+  })
+
+  it('throws when the token id is on the denylist', async () => {
+    const { strategy, usersRepository } = createStrategy(
+      { id: 'user-123', email: 'user@example.com', roles: [UserRole.VISITOR] } as User,
+      { denied: true }
+    )
+    await expect(strategy.validate(sessionPayload)).rejects.toBeInstanceOf(UnauthorizedException)
+    expect(usersRepository.findOne).not.toHaveBeenCalled()
+  })
+
+  it('throws when the account has been blocked', async () => {
+    const { strategy } = createStrategy({
+      id: 'user-123',
+      email: 'user@example.com',
+      roles: [UserRole.VISITOR],
+      blockedAt: new Date()
+    } as User)
+    await expect(strategy.validate(payload)).rejects.toBeInstanceOf(UnauthorizedException)
+  })
 })
@@ -1,11 +1,16 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
+import { ErrorCode } from '../common/enums/error-code.enum';
+import { apiError } from '../common/i18n/api-messages';
 import { User } from '../users/entities/user.entity';
+import { AccessTokenDenylistService } from './access-token-denylist.service';
+import { AuthenticatedUser } from './interfaces/authenticated-user.interface';
 import { JwtPayload } from './interfaces/jwt-payload.interface';
+import { SessionsService } from './sessions.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
@@ -14,6 +19,8 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(
     private readonly config: ConfigService,
     @InjectRepository(User) private readonly usersRepository: Repository<User>,
+    private readonly sessionsService: SessionsService,
+    private readonly denylistService: AccessTokenDenylistService,
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
@@ -22,27 +29,33 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
     });
   }
 
-  async validate(payload: JwtPayload) {
-    const normalizedEmail = payload.email.trim().toLowerCase();
-    let user = await this.usersRepository.findOne({ where: { id: payload.sub } });
+  async validate(payload: JwtPayload): Promise<AuthenticatedUser> {
+    if (payload.jti && (await this.denylistService.isDenied(payload.jti))) {
+      throw new UnauthorizedException(apiError(ErrorCode.TOKEN_REVOKED));
+    }
+
+    const user = await this.usersRepository.findOne({ where: { id: payload.sub } });
 
     if (!user) {
-      user = await this.usersRepository.findOne({ where: { email: normalizedEmail } });
-      if (user) {
-        this.logger.warn(
-          `JWT payload referenced missing user id ${payload.sub}. Falling back to email match (${normalizedEmail}).`,
-        );
-      } else {
-        this.logger.warn(
-          `JWT payload referenced missing user ${payload.sub} (${normalizedEmail}). Recreating skeleton account.`,
-        );
-        user = this.usersRepository.create({
-          email: normalizedEmail,
-        });
-        user = await this.usersRepository.save(user);
-      }
+      this.logger.warn(`JWT payload referenced missing user ${payload.sub} (${payload.email}).`);
+      throw new UnauthorizedException(apiError(ErrorCode.TOKEN_ACCOUNT_NOT_FOUND));
+    }
+
+    if (user.blockedAt) {
+      throw new UnauthorizedException(apiError(ErrorCode.TOKEN_ACCOUNT_BLOCKED));
+    }
+
+    if (payload.sid && !(await this.sessionsService.isActive(payload.sid, user.id))) {
+      throw new UnauthorizedException(apiError(ErrorCode.SESSION_ENDED));
     }
 
-    return { userId: user.id, email: user.email };
+    return {
+      userId: user.id,
+      email: user.email,
+      roles: user.roles,
+      sessionId: payload.sid,
+      jti: payload.jti,
+      tokenExpiresAt: payload.exp ? new Date(payload.exp * 1000) : undefined,
+    };
   }
 }
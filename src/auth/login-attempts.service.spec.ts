@@ -0,0 +1,90 @@
+import { HttpException, HttpStatus } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { Repository } from 'typeorm'
+import { MailService } from '../mail/mail.service'
+import { LoginLockout } from './entities/login-lockout.entity'
+import { LoginAttemptsService } from './login-attempts.service'
+
+describe('LoginAttemptsService', () => {
+  const email = 'user@example.com'
+
+  const createService = (overrides: Record<string, unknown> = {}) => {
+    const configService = {
+      get: jest
+        .fn()
+        .mockImplementation((key: string, defaultValue: unknown) => overrides[key] ?? defaultValue)
+    } as unknown as ConfigService
+
+    let stored: LoginLockout | null = null
+    const lockoutsRepository = {
+      findOne: jest.fn().mockImplementation(() => Promise.resolve(stored ? { ...stored } : null)),
+      create: jest.fn().mockImplementation((data: Partial<LoginLockout>) => ({ ...data })),
+      save: jest.fn().mockImplementation((lockout: LoginLockout) => {
+        stored = { ...lockout }
+        return Promise.resolve(lockout)
+      }),
+      delete: jest.fn().mockImplementation(() => {
+        stored = null
+        return Promise.resolve({ affected: 1 })
+      })
+    } as unknown as Repository<LoginLockout>
+
+    const mailService = {
+      sendLoginLockoutNotification: jest.fn().mockResolvedValue(undefined)
+    } as unknown as jest.Mocked<MailService>
+
+    const service = new LoginAttemptsService(lockoutsRepository, mailService, configService)
+    return { service, mailService, getStored: () => stored }
+  }
+
+  it('doubles the lockout window with every consecutive lockout', () => {
+    const { service } = createService({
+      LOGIN_LOCKOUT_BASE_MINUTES: 5,
+      LOGIN_LOCKOUT_MAX_MINUTES: 60
+    })
+
+    expect(service.computeLockoutMs(1)).toEqual(5 * 60 * 1000)
+    expect(service.computeLockoutMs(2)).toEqual(10 * 60 * 1000)
+    expect(service.computeLockoutMs(3)).toEqual(20 * 60 * 1000)
+    expect(service.computeLockoutMs(10)).toEqual(60 * 60 * 1000)
+  })
+
+  it('reads lockout settings given as environment strings', () => {
+    const { service } = createService({
+      LOGIN_LOCKOUT_BASE_MINUTES: '5',
+      LOGIN_LOCKOUT_MAX_MINUTES: '60'
+    })
+
+    expect(service.computeLockoutMs(2)).toBe(10 * 60 * 1000)
+    expect(service.computeLockoutMs(10)).toBe(60 * 60 * 1000)
+  })
+
+  it('locks the email and notifies the admin once the threshold is reached', async () => {
+    const { service, mailService, getStored } = createService({ LOGIN_LOCKOUT_THRESHOLD: 3 })
+
+    await service.registerFailure(email)
+    await service.registerFailure(email)
+    await expect(service.assertNotLocked(email)).resolves.toBeUndefined()
+
+    await service.registerFailure(email, { ipAddress: '10.0.0.1' })
+
+    expect(getStored()?.lockoutCount).toEqual(1)
+    expect(getStored()?.failedAttempts).toEqual(0)
+    expect(mailService.sendLoginLockoutNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ email, lockoutCount: 1, ipAddress: '10.0.0.1' })
+    )
+
+    const error = await service.assertNotLocked(email).catch((err: unknown) => err)
+    expect(error).toBeInstanceOf(HttpException)
+    expect((error as HttpException).getStatus()).toEqual(HttpStatus.TOO_MANY_REQUESTS)
+  })
+
+  it('clears counters after a successful login', async () => {
+    const { service, getStored } = createService()
+
+    await service.registerFailure(email)
+    await service.registerSuccess(email)
+
+    expect(getStored()).toBeNull()
+  })
+})
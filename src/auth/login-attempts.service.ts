@@ -0,0 +1,106 @@
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ErrorCode } from '../common/enums/error-code.enum';
+import { apiError } from '../common/i18n/api-messages';
+import { MailService } from '../mail/mail.service';
+import { LoginLockout } from './entities/login-lockout.entity';
+import { SessionContext } from './sessions.service';
+
+@Injectable()
+export class LoginAttemptsService {
+  private readonly logger = new Logger(LoginAttemptsService.name);
+  private readonly lockoutThreshold: number;
+  private readonly baseLockoutMs: number;
+  private readonly maxLockoutMs: number;
+  private readonly resetAfterMs: number;
+
+  constructor(
+    @InjectRepository(LoginLockout)
+    private readonly lockoutsRepository: Repository<LoginLockout>,
+    private readonly mailService: MailService,
+    private readonly config: ConfigService,
+  ) {
+    this.lockoutThreshold = Number(this.config.get<number>('LOGIN_LOCKOUT_THRESHOLD', 10));
+    this.baseLockoutMs =
+      Number(this.config.get<number>('LOGIN_LOCKOUT_BASE_MINUTES', 5)) * 60 * 1000;
+    this.maxLockoutMs =
+      Number(this.config.get<number>('LOGIN_LOCKOUT_MAX_MINUTES', 24 * 60)) * 60 * 1000;
+    this.resetAfterMs =
+      Number(this.config.get<number>('LOGIN_LOCKOUT_RESET_HOURS', 24)) * 60 * 60 * 1000;
+  }
+
+  async assertNotLocked(email: string): Promise<void> {
+    const lockout = await this.lockoutsRepository.findOne({ where: { email } });
+    if (lockout?.lockedUntil && lockout.lockedUntil.getTime() > Date.now()) {
+      throw new HttpException(
+        apiError(ErrorCode.LOGIN_LOCKED, { lockedUntil: lockout.lockedUntil.toISOString() }),
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  async registerFailure(email: string, context: SessionContext = {}): Promise<LoginLockout> {
+    const now = new Date();
+    let lockout =
+      (await this.lockoutsRepository.findOne({ where: { email } })) ??
+      this.lockoutsRepository.create({ email, failedAttempts: 0, lockoutCount: 0 });
+
+    // Po dłuższym okresie spokoju zaczynamy liczenie od nowa, łącznie z poziomem backoffu.
+    if (
+      lockout.lastFailedAt &&
+      now.getTime() - lockout.lastFailedAt.getTime() > this.resetAfterMs
+    ) {
+      lockout.failedAttempts = 0;
+      lockout.lockoutCount = 0;
+    }
+
+    lockout.failedAttempts += 1;
+    lockout.lastFailedAt = now;
+
+    if (lockout.failedAttempts >= this.lockoutThreshold) {
+      lockout.lockoutCount += 1;
+      lockout.failedAttempts = 0;
+      lockout.lockedUntil = new Date(now.getTime() + this.computeLockoutMs(lockout.lockoutCount));
+      lockout = await this.lockoutsRepository.save(lockout);
+
+      this.logger.warn(
+        `Login locked for ${email} until ${lockout.lockedUntil?.toISOString()} (lockout #${lockout.lockoutCount}).`,
+      );
+      await this.notifyAdmin(lockout, context);
+      return lockout;
+    }
+
+    return this.lockoutsRepository.save(lockout);
+  }
+
+  async registerSuccess(email: string): Promise<void> {
+    await this.lockoutsRepository.delete({ email });
+  }
+
+  computeLockoutMs(lockoutCount: number): number {
+    const exponent = Math.max(0, lockoutCount - 1);
+    return Math.min(this.baseLockoutMs * 2 ** exponent, this.maxLockoutMs);
+  }
+
+  private async notifyAdmin(lockout: LoginLockout, context: SessionContext): Promise<void> {
+    if (!lockout.lockedUntil) {
+      return;
+    }
+
+    try {
+      await this.mailService.sendLoginLockoutNotification({
+        email: lockout.email,
+        lockedUntil: lockout.lockedUntil,
+        lockoutCount: lockout.lockoutCount,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+        idempotencyKey: `login-lockout:${lockout.email}:${lockout.lockedUntil.getTime()}`,
+      });
+    } catch (error) {
+      const reason = error instanceof Error ? (error.stack ?? error.message) : String(error);
+      this.logger.error('Failed to send login lockout notification email', reason);
+    }
+  }
+}
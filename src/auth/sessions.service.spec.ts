@@ -0,0 +1,98 @@
+import { UnauthorizedException } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { Repository } from 'typeorm'
+import { User } from '../users/entities/user.entity'
+import { Session } from './entities/session.entity'
+import { SessionsService } from './sessions.service'
+
+describe('SessionsService', () => {
+  const user = { id: 'user-123', email: 'user@example.com' } as User
+
+  const createService = () => {
+    const configService = {
+      get: jest.fn().mockImplementation((_key: string, defaultValue: unknown) => defaultValue)
+    } as unknown as ConfigService
+
+    const stored = new Map<string, Session>()
+    const sessionsRepository = {
+      create: jest.fn().mockImplementation((data: Partial<Session>) => ({ ...data })),
+      save: jest.fn().mockImplementation((session: Session) => {
+        const saved = { ...session, id: session.id ?? 'session-1' }
+        stored.set(saved.id, saved)
+        return Promise.resolve(saved)
+      }),
+      findOne: jest
+        .fn()
+        .mockImplementation(({ where }: { where: { id: string } }) =>
+          Promise.resolve(stored.has(where.id) ? { ...stored.get(where.id), user } : null)
+        ),
+      update: jest
+        .fn()
+        .mockImplementation(
+          (
+            criteria: string | { id: string; refreshTokenHash?: string },
+            updates: Partial<Session>
+          ) => {
+            const id = typeof criteria === 'string' ? criteria : criteria.id
+            const current = stored.get(id)
+            if (
+              !current ||
+              (typeof criteria !== 'string' &&
+                criteria.refreshTokenHash !== undefined &&
+                criteria.refreshTokenHash !== current.refreshTokenHash)
+            ) {
+              return Promise.resolve({ affected: 0 })
+            }
+            stored.set(id, { ...current, ...updates })
+            return Promise.resolve({ affected: 1 })
+          }
+        )
+    } as unknown as Repository<Session>
+
+    const service = new SessionsService(sessionsRepository, configService)
+    return { service, stored }
+  }
+
+  it('issues a refresh token bound to the new session', async () => {
+    const { service, stored } = createService()
+    const { session, refreshToken } = await service.createSession(user, { ipAddress: '10.0.0.1' })
+
+    expect(refreshToken.startsWith(`${session.id}.`)).toBe(true)
+    expect(stored.get(session.id)?.refreshTokenHash).not.toContain(refreshToken.split('.')[1])
+    expect(session.ipAddress).toEqual('10.0.0.1')
+  })
+
+  it('rotates the refresh token on use', async () => {
+    const { service } = createService()
+    const { refreshToken } = await service.createSession(user)
+
+    const rotated = await service.rotate(refreshToken)
+
+    expect(rotated.refreshToken).not.toEqual(refreshToken)
+    expect(rotated.session.user).toEqual(user)
+    await expect(service.rotate(rotated.refreshToken)).resolves.toBeDefined()
+  })
+
+  it('revokes the session when a rotated token is reused', async () => {
+    const { service, stored } = createService()
+    const { session, refreshToken } = await service.createSession(user)
+    const rotated = await service.rotate(refreshToken)
+
+    await expect(service.rotate(refreshToken)).rejects.toBeInstanceOf(UnauthorizedException)
+    expect(stored.get(session.id)?.revokedReason).toEqual('refresh-token-reuse')
+    await expect(service.rotate(rotated.refreshToken)).rejects.toBeInstanceOf(UnauthorizedException)
+  })
+
+  it('rejects expired sessions', async () => {
+    const { service, stored } = createService()
+    const { session, refreshToken } = await service.createSession(user)
+    stored.set(session.id, { ...session, expiresAt: new Date(Date.now() - 1000) })
+
+    await expect(service.rotate(refreshToken)).rejects.toBeInstanceOf(UnauthorizedException)
+  })
+
+  it('rejects malformed tokens', async () => {
+    const { service } = createService()
+    await expect(service.rotate('not-a-token')).rejects.toBeInstanceOf(UnauthorizedException)
+  })
+})
@@ -0,0 +1,192 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { IsNull, MoreThan, Repository } from 'typeorm';
+import { ErrorCode } from '../common/enums/error-code.enum';
+import { apiError } from '../common/i18n/api-messages';
+import { User } from '../users/entities/user.entity';
+import { Session } from './entities/session.entity';
+
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface IssuedSession {
+  session: Session;
+  refreshToken: string;
+}
+
+@Injectable()
+export class SessionsService {
+  private readonly logger = new Logger(SessionsService.name);
+  private readonly refreshTtlMs: number;
+
+  constructor(
+    @InjectRepository(Session)
+    private readonly sessionsRepository: Repository<Session>,
+    private readonly config: ConfigService,
+  ) {
+    const ttlDays = this.config.get<number>('REFRESH_TOKEN_TTL_DAYS', 30);
+    this.refreshTtlMs = ttlDays * 24 * 60 * 60 * 1000;
+  }
+
+  async createSession(user: User, context: SessionContext = {}): Promise<IssuedSession> {
+    const secret = this.generateSecret();
+    const now = new Date();
+    const session = this.sessionsRepository.create({
+      refreshTokenHash: this.hashSecret(secret),
+      expiresAt: new Date(now.getTime() + this.refreshTtlMs),
+      lastUsedAt: now,
+      userAgent: context.userAgent?.trim().slice(0, 500) || undefined,
+      ipAddress: context.ipAddress?.trim() || undefined,
+      user,
+      userId: user.id,
+    });
+
+    const savedSession = await this.sessionsRepository.save(session);
+
+    return {
+      session: savedSession,
+      refreshToken: this.composeToken(savedSession.id, secret),
+    };
+  }
+
+  async rotate(refreshToken: string, context: SessionContext = {}): Promise<IssuedSession> {
+    const parsed = this.parseToken(refreshToken);
+    if (!parsed) {
+      throw new UnauthorizedException(apiError(ErrorCode.INVALID_REFRESH_TOKEN));
+    }
+
+    const session = await this.sessionsRepository.findOne({
+      where: { id: parsed.sessionId },
+      relations: { user: true },
+    });
+
+    if (!session || session.revokedAt) {
+      throw new UnauthorizedException(apiError(ErrorCode.INVALID_REFRESH_TOKEN));
+    }
+
+    if (session.expiresAt.getTime() <= Date.now()) {
+      throw new UnauthorizedException(apiError(ErrorCode.SESSION_EXPIRED));
+    }
+
+    // Token należy do sesji, ale nie jest jej bieżącym tokenem - ktoś użył tokenu sprzed rotacji.
+    if (!this.matchesHash(parsed.secret, session.refreshTokenHash)) {
+      await this.handleReuse(session);
+      throw new UnauthorizedException(apiError(ErrorCode.INVALID_REFRESH_TOKEN));
+    }
+
+    const secret = this.generateSecret();
+    const now = new Date();
+    const updates: Partial<Session> = {
+      refreshTokenHash: this.hashSecret(secret),
+      expiresAt: new Date(now.getTime() + this.refreshTtlMs),
+      lastUsedAt: now,
+    };
+
+    if (context.userAgent?.trim()) {
+      updates.userAgent = context.userAgent.trim().slice(0, 500);
+    }
+    if (context.ipAddress?.trim()) {
+      updates.ipAddress = context.ipAddress.trim();
+    }
+
+    // Warunek na poprzedni hash chroni przed dwiema równoległymi rotacjami tego samego tokenu.
+    const result = await this.sessionsRepository.update(
+      { id: session.id, refreshTokenHash: session.refreshTokenHash },
+      updates,
+    );
+
+    if (!result.affected) {
+      await this.handleReuse(session);
+      throw new UnauthorizedException(apiError(ErrorCode.INVALID_REFRESH_TOKEN));
+    }
+
+    return {
+      session: { ...session, ...updates },
+      refreshToken: this.composeToken(session.id, secret),
+    };
+  }
+
+  async isActive(sessionId: string, userId: string): Promise<boolean> {
+    return this.sessionsRepository.exists({
+      where: {
+        id: sessionId,
+        userId,
+        revokedAt: IsNull(),
+        expiresAt: MoreThan(new Date()),
+      },
+    });
+  }
+
+  async findActiveForUser(userId: string): Promise<Session[]> {
+    return this.sessionsRepository.find({
+      where: {
+        userId,
+        revokedAt: IsNull(),
+        expiresAt: MoreThan(new Date()),
+      },
+      order: { lastUsedAt: 'DESC' },
+    });
+  }
+
+  async revokeSession(sessionId: string, reason: string, userId?: string): Promise<boolean> {
+    const result = await this.sessionsRepository.update(
+      userId
+        ? { id: sessionId, userId, revokedAt: IsNull() }
+        : { id: sessionId, revokedAt: IsNull() },
+      { revokedAt: new Date(), revokedReason: reason },
+    );
+    return Boolean(result.affected);
+  }
+
+  async revokeAllForUser(userId: string, reason: string): Promise<number> {
+    const result = await this.sessionsRepository.update(
+      { userId, revokedAt: IsNull() },
+      { revokedAt: new Date(), revokedReason: reason },
+    );
+    if (result.affected) {
+      this.logger.log(`Revoked ${result.affected} session(s) for user ${userId} (${reason}).`);
+    }
+    return result.affected ?? 0;
+  }
+
+  private async handleReuse(session: Session): Promise<void> {
+    this.logger.warn(
+      `Refresh token reuse detected for session ${session.id} (user ${session.userId}). Revoking session.`,
+    );
+    await this.revokeSession(session.id, 'refresh-token-reuse');
+  }
+
+  private composeToken(sessionId: string, secret: string): string {
+    return `${sessionId}.${secret}`;
+  }
+
+  private parseToken(token: string): { sessionId: string; secret: string } | null {
+    const separatorIndex = token.indexOf('.');
+    if (separatorIndex <= 0 || separatorIndex === token.length - 1) {
+      return null;
+    }
+
+    return {
+      sessionId: token.slice(0, separatorIndex),
+      secret: token.slice(separatorIndex + 1),
+    };
+  }
+
+  private generateSecret(): string {
+    return randomBytes(32).toString('base64url');
+  }
+
+  private hashSecret(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+
+  private matchesHash(secret: string, expectedHash: string): boolean {
+    const actual = Buffer.from(this.hashSecret(secret), 'hex');
+    const expected = Buffer.from(expectedHash, 'hex');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+}
@@ -0,0 +1,65 @@
+import { Body, Controller, HttpCode, HttpStatus, Post, Req, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { Throttle } from '@nestjs/throttler';
+import { Request } from 'express';
+import { extractClientIp } from '../../common/utils/request.utils';
+import { AuthService } from '../auth.service';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { SecondFactorDto } from '../dto/second-factor.dto';
+import { TotpCodeDto } from '../dto/totp-code.dto';
+import { VerifySecondFactorDto } from '../dto/verify-second-factor.dto';
+import { AuthenticatedUser } from '../interfaces/authenticated-user.interface';
+import { TotpService } from './totp.service';
+
+@Controller('auth/totp')
+export class TotpController {
+  constructor(
+    private readonly totpService: TotpService,
+    private readonly authService: AuthService,
+  ) {}
+
+  @Post('enroll')
+  @UseGuards(AuthGuard('jwt'))
+  @HttpCode(HttpStatus.OK)
+  async enroll(@CurrentUser() user: AuthenticatedUser) {
+    return this.totpService.enroll(user.userId);
+  }
+
+  @Post('confirm')
+  @UseGuards(AuthGuard('jwt'))
+  @HttpCode(HttpStatus.OK)
+  async confirm(@CurrentUser() user: AuthenticatedUser, @Body() dto: TotpCodeDto) {
+    const recoveryCodes = await this.totpService.confirm(user.userId, dto.code);
+    return { enabled: true, recoveryCodes };
+  }
+
+  @Post('disable')
+  @UseGuards(AuthGuard('jwt'))
+  @HttpCode(HttpStatus.OK)
+  async disable(@CurrentUser() user: AuthenticatedUser, @Body() dto: SecondFactorDto) {
+    await this.totpService.disable(user.userId, dto);
+    return { enabled: false };
+  }
+
+  @Post('recovery-codes')
+  @UseGuards(AuthGuard('jwt'))
+  @HttpCode(HttpStatus.OK)
+  async regenerateRecoveryCodes(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: SecondFactorDto,
+  ) {
+    const recoveryCodes = await this.totpService.regenerateRecoveryCodes(user.userId, dto);
+    return { recoveryCodes };
+  }
+
+  @Post('verify')
+  @Throttle({ default: { limit: 6, ttl: 60 * 1000 } })
+  @HttpCode(HttpStatus.OK)
+  async verify(@Body() dto: VerifySecondFactorDto, @Req() req: Request) {
+    return this.authService.verifySecondFactor(
+      dto.challengeToken,
+      { code: dto.code, recoveryCode: dto.recoveryCode },
+      { userAgent: req.headers['user-agent'], ipAddress: extractClientIp(req) },
+    );
+  }
+}
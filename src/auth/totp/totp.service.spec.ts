@@ -0,0 +1,139 @@
+import { UnauthorizedException } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { JwtService } from '@nestjs/jwt'
+import { Repository } from 'typeorm'
+import { Clock } from '../../common/clock/clock'
+import { User } from '../../users/entities/user.entity'
+import { TotpRecoveryCode } from '../entities/totp-recovery-code.entity'
+import { base32Decode, generateTotp } from './totp'
+import { TotpService } from './totp.service'
+
+describe('TotpService', () => {
+  const createService = () => {
+    const configService = {
+      get: jest.fn().mockImplementation((_key: string, defaultValue: unknown) => defaultValue)
+    } as unknown as ConfigService
+
+    let user: Partial<User> = { id: 'user-123', email: 'user@example.com' }
+    const usersRepository = {
+      findOne: jest.fn().mockImplementation(() => Promise.resolve({ ...user })),
+      update: jest.fn().mockImplementation((_id: string, updates: Partial<User>) => {
+        user = { ...user, ...updates }
+        return Promise.resolve({ affected: 1 })
+      })
+    } as unknown as Repository<User>
+
+    let recoveryCodes: TotpRecoveryCode[] = []
+    const recoveryCodesRepository = {
+      create: jest.fn().mockImplementation((data: Partial<TotpRecoveryCode>) => ({ ...data })),
+      save: jest.fn().mockImplementation((codes: TotpRecoveryCode[]) => {
+        recoveryCodes = codes.map((code, index) => ({ ...code, id: `code-${index}` }))
+        return Promise.resolve(recoveryCodes)
+      }),
+      delete: jest.fn().mockImplementation(() => {
+        recoveryCodes = []
+        return Promise.resolve({ affected: 1 })
+      }),
+      findOne: jest
+        .fn()
+        .mockImplementation(({ where }: { where: { codeHash: string } }) =>
+          Promise.resolve(
+            recoveryCodes.find((code) => code.codeHash === where.codeHash && !code.usedAt) ?? null
+          )
+        ),
+      update: jest.fn().mockImplementation((id: string, updates: Partial<TotpRecoveryCode>) => {
+        recoveryCodes = recoveryCodes.map((code) =>
+          code.id === id ? { ...code, ...updates } : code
+        )
+        return Promise.resolve({ affected: 1 })
+      })
+    } as unknown as Repository<TotpRecoveryCode>
+
+    let now = new Date('2025-01-01T12:00:00Z')
+    const clock: Clock = { now: () => now }
+
+    const service = new TotpService(
+      usersRepository,
+      recoveryCodesRepository,
+      new JwtService({}),
+      configService,
+      clock
+    )
+
+    return {
+      service,
+      getUser: () => user,
+      advance: (ms: number) => {
+        now = new Date(now.getTime() + ms)
+      },
+      codeAt: (secret: string) => generateTotp(base32Decode(secret), now.getTime())
+    }
+  }
+
+  it('enables TOTP after confirming a valid code and stores the secret encrypted', async () => {
+    const { service, getUser, codeAt } = createService()
+    const { secret, otpauthUrl } = await service.enroll('user-123')
+
+    expect(otpauthUrl).toContain(`secret=${secret}`)
+    expect(getUser().totpSecret).not.toContain(secret)
+
+    const recoveryCodes = await service.confirm('user-123', codeAt(secret))
+
+    expect(getUser().totpEnabledAt).toBeInstanceOf(Date)
+    expect(recoveryCodes).toHaveLength(10)
+  })
+
+  it('rejects a code that was already used for the same time step', async () => {
+    const { service, codeAt, advance } = createService()
+    const { secret } = await service.enroll('user-123')
+    await service.confirm('user-123', codeAt(secret))
+
+    advance(30_000)
+    const code = codeAt(secret)
+
+    await expect(service.verifySecondFactor('user-123', { code })).resolves.toBe(true)
+    await expect(service.verifySecondFactor('user-123', { code })).resolves.toBe(false)
+  })
+
+  it('accepts each recovery code only once', async () => {
+    const { service, codeAt } = createService()
+    const { secret } = await service.enroll('user-123')
+    const [recoveryCode] = await service.confirm('user-123', codeAt(secret))
+
+    await expect(
+      service.verifySecondFactor('user-123', { recoveryCode: recoveryCode.toUpperCase() })
+    ).resolves.toBe(true)
+    await expect(service.verifySecondFactor('user-123', { recoveryCode })).resolves.toBe(false)
+  })
+
+  it('issues a challenge that resolves back to the user', async () => {
+    const { service, codeAt, getUser } = createService()
+    const { secret } = await service.enroll('user-123')
+    await service.confirm('user-123', codeAt(secret))
+
+    const challenge = await service.issueChallenge(getUser() as User)
+
+    expect(challenge.secondFactorRequired).toBe(true)
+    await expect(service.resolveChallenge(challenge.challengeToken)).resolves.toMatchObject({
+      id: 'user-123'
+    })
+  })
+
+  it('expires the challenge according to the injected clock', async () => {
+    const { service, codeAt, getUser, advance } = createService()
+    const { secret } = await service.enroll('user-123')
+    await service.confirm('user-123', codeAt(secret))
+
+    const challenge = await service.issueChallenge(getUser() as User)
+
+    expect(challenge.challengeExpiresAt).toEqual(new Date('2025-01-01T12:05:00Z'))
+    advance(5 * 60 * 1000 - 1000)
+    await expect(service.resolveChallenge(challenge.challengeToken)).resolves.toMatchObject({
+      id: 'user-123'
+    })
+    advance(1000)
+    await expect(service.resolveChallenge(challenge.challengeToken)).rejects.toThrow(
+      UnauthorizedException
+    )
+  })
+})
@@ -0,0 +1,275 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { InjectRepository } from '@nestjs/typeorm';
+import { createHmac, randomBytes, randomInt } from 'crypto';
+import { IsNull, Repository } from 'typeorm';
+import { Clock, CLOCK } from '../../common/clock/clock';
+import { ErrorCode } from '../../common/enums/error-code.enum';
+import { apiError } from '../../common/i18n/api-messages';
+import {
+  decryptValue,
+  deriveEncryptionKey,
+  encryptValue,
+} from '../../common/utils/encryption.utils';
+import { User } from '../../users/entities/user.entity';
+import { TotpRecoveryCode } from '../entities/totp-recovery-code.entity';
+import { base32Encode, buildOtpAuthUrl, verifyTotp } from './totp';
+
+export interface TotpEnrollment {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface SecondFactorChallenge {
+  secondFactorRequired: true;
+  challengeToken: string;
+  challengeExpiresAt: Date;
+}
+
+export interface SecondFactorInput {
+  code?: string;
+  recoveryCode?: string;
+}
+
+interface TotpChallengePayload {
+  sub: string;
+  typ: 'totp-challenge';
+  iat: number;
+  exp: number;
+}
+
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+@Injectable()
+export class TotpService {
+  private readonly logger = new Logger(TotpService.name);
+  private readonly encryptionKey: Buffer;
+  private readonly challengeSecret: string;
+  private readonly challengeTtlSeconds: number;
+  private readonly issuer: string;
+
+  constructor(
+    @InjectRepository(User)
+    private readonly usersRepository: Repository<User>,
+    @InjectRepository(TotpRecoveryCode)
+    private readonly recoveryCodesRepository: Repository<TotpRecoveryCode>,
+    private readonly jwtService: JwtService,
+    private readonly config: ConfigService,
+    @Inject(CLOCK) private readonly clock: Clock,
+  ) {
+    const jwtSecret = this.config.get<string>('JWT_SECRET', 'change-me');
+    this.encryptionKey = deriveEncryptionKey(
+      this.config.get<string>('TOTP_ENCRYPTION_KEY') ?? `${jwtSecret}:totp`,
+    );
+    this.challengeSecret = `${jwtSecret}:totp-challenge`;
+    this.challengeTtlSeconds =
+      Number(this.config.get<number>('TOTP_CHALLENGE_TTL_MINUTES', 5)) * 60;
+    this.issuer = this.config.get<string>('TOTP_ISSUER', 'mariusz-sokolowski.ch');
+  }
+
+  async enroll(userId: string): Promise<TotpEnrollment> {
+    const user = await this.loadUser(userId);
+    if (user.totpEnabledAt) {
+      throw new ConflictException(apiError(ErrorCode.TOTP_ALREADY_ENABLED));
+    }
+
+    const secret = randomBytes(20);
+    await this.usersRepository.update(user.id, {
+      totpSecret: this.encryptSecret(secret),
+    });
+
+    return {
+      secret: base32Encode(secret),
+      otpauthUrl: buildOtpAuthUrl(secret, user.email, this.issuer),
+    };
+  }
+
+  async confirm(userId: string, code: string): Promise<string[]> {
+    const user = await this.loadUser(userId);
+    if (user.totpEnabledAt) {
+      throw new ConflictException(apiError(ErrorCode.TOTP_ALREADY_ENABLED));
+    }
+    if (!user.totpSecret) {
+      throw new BadRequestException(apiError(ErrorCode.TOTP_SETUP_NOT_STARTED));
+    }
+
+    const step = verifyTotp(this.decryptSecret(user.totpSecret), code, this.clock.now().getTime());
+    if (step === null) {
+      throw new BadRequestException(apiError(ErrorCode.INVALID_TOTP_CODE));
+    }
+
+    await this.usersRepository.update(user.id, {
+      totpEnabledAt: this.clock.now(),
+      totpLastUsedStep: step,
+    });
+    this.logger.log(`TOTP enabled for user ${user.id}`);
+
+    return this.replaceRecoveryCodes(user.id);
+  }
+
+  async disable(userId: string, input: SecondFactorInput): Promise<void> {
+    await this.assertSecondFactor(userId, input);
+    await this.usersRepository.update(userId, {
+      totpSecret: () => 'NULL',
+      totpEnabledAt: () => 'NULL',
+      totpLastUsedStep: () => 'NULL',
+    });
+    await this.recoveryCodesRepository.delete({ userId });
+    this.logger.log(`TOTP disabled for user ${userId}`);
+  }
+
+  async regenerateRecoveryCodes(userId: string, input: SecondFactorInput): Promise<string[]> {
+    await this.assertSecondFactor(userId, input);
+    return this.replaceRecoveryCodes(userId);
+  }
+
+  async issueChallenge(user: User): Promise<SecondFactorChallenge> {
+    // Czas wystawienia i wygaśnięcia bierzemy z wstrzykniętego zegara, a nie z biblioteki JWT.
+    const issuedAt = this.currentTimestamp();
+    const payload: TotpChallengePayload = {
+      sub: user.id,
+      typ: 'totp-challenge',
+      iat: issuedAt,
+      exp: issuedAt + this.challengeTtlSeconds,
+    };
+    const challengeToken = await this.jwtService.signAsync(payload, {
+      secret: this.challengeSecret,
+    });
+
+    return {
+      secondFactorRequired: true,
+      challengeToken,
+      challengeExpiresAt: new Date(payload.exp * 1000),
+    };
+  }
+
+  async resolveChallenge(challengeToken: string): Promise<User> {
+    let payload: TotpChallengePayload;
+    try {
+      payload = await this.jwtService.verifyAsync<TotpChallengePayload>(challengeToken, {
+        secret: this.challengeSecret,
+        clockTimestamp: this.currentTimestamp(),
+      });
+    } catch {
+      throw new UnauthorizedException(apiError(ErrorCode.SECOND_FACTOR_SESSION_EXPIRED));
+    }
+
+    const user =
+      payload.typ === 'totp-challenge'
+        ? await this.usersRepository.findOne({ where: { id: payload.sub } })
+        : null;
+    if (!user?.totpEnabledAt) {
+      throw new UnauthorizedException(apiError(ErrorCode.SECOND_FACTOR_SESSION_EXPIRED));
+    }
+
+    return user;
+  }
+
+  async verifySecondFactor(userId: string, input: SecondFactorInput): Promise<boolean> {
+    const user = await this.loadUser(userId);
+    if (!user.totpEnabledAt || !user.totpSecret) {
+      return false;
+    }
+
+    if (input.code) {
+      const step = verifyTotp(
+        this.decryptSecret(user.totpSecret),
+        input.code,
+        this.clock.now().getTime(),
+      );
+      // Ten sam kod (krok czasowy) może zostać użyty tylko raz.
+      if (step === null || (user.totpLastUsedStep != null && step <= user.totpLastUsedStep)) {
+        return false;
+      }
+      await this.usersRepository.update(user.id, { totpLastUsedStep: step });
+      return true;
+    }
+
+    if (input.recoveryCode) {
+      const recoveryCode = await this.recoveryCodesRepository.findOne({
+        where: {
+          userId: user.id,
+          codeHash: this.hashRecoveryCode(input.recoveryCode),
+          usedAt: IsNull(),
+        },
+      });
+      if (!recoveryCode) {
+        return false;
+      }
+      await this.recoveryCodesRepository.update(recoveryCode.id, { usedAt: this.clock.now() });
+      this.logger.log(`Recovery code used by user ${user.id}`);
+      return true;
+    }
+
+    return false;
+  }
+
+  private async assertSecondFactor(userId: string, input: SecondFactorInput): Promise<void> {
+    if (!(await this.verifySecondFactor(userId, input))) {
+      throw new UnauthorizedException(apiError(ErrorCode.INVALID_SECOND_FACTOR_CODE));
+    }
+  }
+
+  private async replaceRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => this.generateRecoveryCode());
+    await this.recoveryCodesRepository.delete({ userId });
+    await this.recoveryCodesRepository.save(
+      codes.map((code) =>
+        this.recoveryCodesRepository.create({ userId, codeHash: this.hashRecoveryCode(code) }),
+      ),
+    );
+    return codes;
+  }
+
+  private async loadUser(userId: string): Promise<User> {
+    const user = await this.usersRepository.findOne({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        totpSecret: true,
+        totpEnabledAt: true,
+        totpLastUsedStep: true,
+      },
+    });
+    if (!user) {
+      throw new NotFoundException(apiError(ErrorCode.USER_NOT_FOUND));
+    }
+    return user;
+  }
+
+  private currentTimestamp(): number {
+    return Math.floor(this.clock.now().getTime() / 1000);
+  }
+
+  private generateRecoveryCode(): string {
+    let code = '';
+    while (code.length < 10) {
+      code += RECOVERY_CODE_ALPHABET[randomInt(0, RECOVERY_CODE_ALPHABET.length)];
+    }
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  }
+
+  private hashRecoveryCode(code: string): string {
+    const normalized = code.replace(/[\s-]/g, '').toLowerCase();
+    return createHmac('sha256', this.encryptionKey).update(normalized).digest('hex');
+  }
+
+  private encryptSecret(secret: Buffer): string {
+    return encryptValue(this.encryptionKey, secret);
+  }
+
+  private decryptSecret(value: string): Buffer {
+    return decryptValue(this.encryptionKey, value);
+  }
+}
@@ -0,0 +1,32 @@
+import { base32Decode, base32Encode, generateTotp, verifyTotp } from './totp'
+
+describe('totp', () => {
+  // Wektory testowe z RFC 6238, dodatek B (HMAC-SHA1, 8 cyfr).
+  const rfcSecret = Buffer.from('12345678901234567890', 'ascii')
+  const vectors: Array<[number, string]> = [
+    [59, '94287082'],
+    [1111111109, '07081804'],
+    [1111111111, '14050471'],
+    [1234567890, '89005924'],
+    [2000000000, '69279037'],
+    [20000000000, '65353130']
+  ]
+
+  it.each(vectors)('matches the RFC 6238 vector for T=%i', (seconds, expected) => {
+    expect(generateTotp(rfcSecret, seconds * 1000, { digits: 8 })).toEqual(expected)
+  })
+
+  it('round-trips base32 secrets', () => {
+    expect(base32Encode(rfcSecret)).toEqual('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ')
+    expect(base32Decode('gezd gnbv gy3t qojq gezd gnbv gy3t qojq')).toEqual(rfcSecret)
+  })
+
+  it('accepts codes from adjacent steps and returns the matched step', () => {
+    const now = 1_700_000_000_000
+    const previousCode = generateTotp(rfcSecret, now - 30_000)
+
+    expect(verifyTotp(rfcSecret, previousCode, now)).toEqual(Math.floor(now / 30_000) - 1)
+    expect(verifyTotp(rfcSecret, previousCode, now + 60_000)).toBeNull()
+    expect(verifyTotp(rfcSecret, '000000', now)).toBeNull()
+  })
+})
@@ -0,0 +1,127 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface TotpOptions {
+  digits?: number;
+  periodSeconds?: number;
+  algorithm?: 'sha1' | 'sha256' | 'sha512';
+}
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const normalized = input.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of normalized) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character "${char}"`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+export function timeStep(timestampMs: number, periodSeconds = 30): number {
+  return Math.floor(timestampMs / 1000 / periodSeconds);
+}
+
+// HOTP z RFC 4226 dla numeru kroku czasowego (RFC 6238).
+export function generateTotpForStep(
+  secret: Buffer,
+  step: number,
+  options: TotpOptions = {},
+): string {
+  const digits = options.digits ?? 6;
+  const counter = Buffer.alloc(8);
+  counter.writeUInt32BE(Math.floor(step / 2 ** 32), 0);
+  counter.writeUInt32BE(step % 2 ** 32, 4);
+
+  const digest = createHmac(options.algorithm ?? 'sha1', secret)
+    .update(counter)
+    .digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary =
+    ((digest[offset] & 0x7f) << 24) |
+    ((digest[offset + 1] & 0xff) << 16) |
+    ((digest[offset + 2] & 0xff) << 8) |
+    (digest[offset + 3] & 0xff);
+
+  return (binary % 10 ** digits).toString().padStart(digits, '0');
+}
+
+export function generateTotp(
+  secret: Buffer,
+  timestampMs: number,
+  options: TotpOptions = {},
+): string {
+  return generateTotpForStep(secret, timeStep(timestampMs, options.periodSeconds), options);
+}
+
+// Zwraca numer kroku, w którym kod pasuje (z tolerancją `window` kroków w obie strony) albo null.
+// Numer kroku pozwala odrzucić ponowne użycie tego samego kodu.
+export function verifyTotp(
+  secret: Buffer,
+  code: string,
+  timestampMs: number,
+  window = 1,
+  options: TotpOptions = {},
+): number | null {
+  const normalizedCode = code.replace(/\s/g, '');
+  const currentStep = timeStep(timestampMs, options.periodSeconds);
+
+  for (let offset = -window; offset <= window; offset += 1) {
+    const step = currentStep + offset;
+    if (step < 0) {
+      continue;
+    }
+    const expected = Buffer.from(generateTotpForStep(secret, step, options));
+    const actual = Buffer.from(normalizedCode);
+    if (actual.length === expected.length && timingSafeEqual(actual, expected)) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+export function buildOtpAuthUrl(secret: Buffer, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret: base32Encode(secret),
+    issuer,
+    algorithm: 'SHA1',
+    digits: '6',
+    period: '30',
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
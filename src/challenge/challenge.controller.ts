@@ -0,0 +1,12 @@
+import { Controller, Get } from '@nestjs/common';
+import { ProofOfWorkService } from './proof-of-work.service';
+
+@Controller('challenge')
+export class ChallengeController {
+  constructor(private readonly proofOfWorkService: ProofOfWorkService) {}
+
+  @Get()
+  issue() {
+    return this.proofOfWorkService.issue();
+  }
+}
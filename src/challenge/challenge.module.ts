@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { CLOCK, systemClock } from '../common/clock/clock';
+import { ChallengeController } from './challenge.controller';
+import { ProofOfWorkGuard } from './proof-of-work.guard';
+import { ProofOfWorkService } from './proof-of-work.service';
+
+@Module({
+  controllers: [ChallengeController],
+  providers: [ProofOfWorkService, ProofOfWorkGuard, { provide: CLOCK, useValue: systemClock }],
+  exports: [ProofOfWorkService, ProofOfWorkGuard],
+})
+export class ChallengeModule {}
@@ -0,0 +1,30 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { Request } from 'express';
+import { ErrorCode } from '../common/enums/error-code.enum';
+import { apiError } from '../common/i18n/api-messages';
+import { ProofOfWorkService } from './proof-of-work.service';
+
+// Rozwiązanie zadania z GET /challenge przesyłane w nagłówkach X-PoW-Challenge i X-PoW-Solution.
+@Injectable()
+export class ProofOfWorkGuard implements CanActivate {
+  constructor(private readonly proofOfWorkService: ProofOfWorkService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    if (!this.proofOfWorkService.enabled) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const challenge = request.header('x-pow-challenge');
+    const solution = request.header('x-pow-solution');
+
+    if (!challenge || !solution) {
+      throw new ForbiddenException(apiError(ErrorCode.PROOF_OF_WORK_REQUIRED));
+    }
+    if (!this.proofOfWorkService.verify(challenge, solution)) {
+      throw new ForbiddenException(apiError(ErrorCode.PROOF_OF_WORK_INVALID));
+    }
+
+    return true;
+  }
+}
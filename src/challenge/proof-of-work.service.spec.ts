@@ -0,0 +1,100 @@
+import { ConfigService } from '@nestjs/config'
+import { createHash } from 'crypto'
+import { Clock } from '../common/clock/clock'
+import { leadingZeroBits, ProofOfWorkService } from './proof-of-work.service'
+
+describe('ProofOfWorkService', () => {
+  const createService = (overrides: Record<string, unknown> = {}) => {
+    let now = new Date('2025-04-10T10:00:00Z')
+    const clock: Clock = { now: () => now }
+    const settings: Record<string, unknown> = {
+      JWT_SECRET: 'secret',
+      POW_BASE_DIFFICULTY: 8,
+      POW_MAX_DIFFICULTY: 10,
+      ...overrides
+    }
+    const configService = {
+      get: jest
+        .fn()
+        .mockImplementation((key: string, defaultValue: unknown) => settings[key] ?? defaultValue)
+    } as unknown as ConfigService
+
+    const service = new ProofOfWorkService(configService, clock)
+    const advanceMinutes = (minutes: number) => {
+      now = new Date(now.getTime() + minutes * 60 * 1000)
+    }
+    return { service, advanceMinutes }
+  }
+
+  const solve = (challenge: string, difficulty: number) => {
+    for (let nonce = 0; ; nonce += 1) {
+      const hash = createHash('sha256').update(`${challenge}:${nonce}`).digest()
+      if (leadingZeroBits(hash) >= difficulty) {
+        return String(nonce)
+      }
+    }
+  }
+
+  it('accepts a valid solution exactly once', () => {
+    const { service } = createService()
+    const { challenge, difficulty } = service.issue()
+    const solution = solve(challenge, difficulty)
+
+    expect(difficulty).toEqual(8)
+    expect(service.verify(challenge, solution)).toBe(true)
+    expect(service.verify(challenge, solution)).toBe(false)
+  })
+
+  it('rejects tampered, unsolved and expired challenges', () => {
+    const { service, advanceMinutes } = createService()
+    const { challenge, difficulty } = service.issue()
+    const solution = solve(challenge, difficulty)
+    const [encoded, signature] = challenge.split('.')
+    const easier = Buffer.from(
+      JSON.stringify({ ...JSON.parse(Buffer.from(encoded, 'base64url').toString()), difficulty: 0 })
+    ).toString('base64url')
+
+    expect(service.verify(`${easier}.${signature}`, 'anything')).toBe(false)
+    expect(service.verify(challenge, `${solution}x`.repeat(20))).toBe(false)
+    advanceMinutes(6)
+    expect(service.verify(challenge, solution)).toBe(false)
+  })
+
+  it('raises the difficulty on bursts and lowers it after a cooldown', () => {
+    const { service, advanceMinutes } = createService()
+
+    service.recordBurst()
+    service.recordBurst()
+    expect(service.currentDifficulty()).toEqual(9)
+    advanceMinutes(1)
+    service.recordBurst()
+    advanceMinutes(1)
+    service.recordBurst()
+    expect(service.currentDifficulty()).toEqual(10)
+    expect(service.issue().difficulty).toEqual(10)
+
+    advanceMinutes(10)
+    expect(service.currentDifficulty()).toEqual(9)
+    advanceMinutes(30)
+    expect(service.currentDifficulty()).toEqual(8)
+  })
+
+  it('reads difficulty settings given as environment strings', () => {
+    const { service, advanceMinutes } = createService({
+      POW_BASE_DIFFICULTY: '16',
+      POW_MAX_DIFFICULTY: '22'
+    })
+
+    expect(service.currentDifficulty()).toEqual(16)
+    service.recordBurst()
+    expect(service.currentDifficulty()).toEqual(17)
+    advanceMinutes(1)
+    service.recordBurst()
+    expect(service.currentDifficulty()).toEqual(18)
+  })
+
+  it('counts leading zero bits', () => {
+    expect(leadingZeroBits(Buffer.from([0x00, 0x0f, 0xff]))).toEqual(12)
+    expect(leadingZeroBits(Buffer.from([0x80]))).toEqual(0)
+  })
+})
@@ -0,0 +1,167 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { Clock, CLOCK } from '../common/clock/clock';
+
+export interface ProofOfWorkChallenge {
+  challenge: string;
+  algorithm: 'sha256';
+  difficulty: number;
+  expiresAt: Date;
+}
+
+interface ChallengePayload {
+  id: string;
+  difficulty: number;
+  exp: number;
+}
+
+const MAX_SOLUTION_LENGTH = 64;
+const BURST_STEP_MS = 60 * 1000;
+
+// Zadanie: znaleźć takie "solution", by sha256("<challenge>:<solution>") zaczynał się od `difficulty` zerowych bitów.
+@Injectable()
+export class ProofOfWorkService {
+  private readonly logger = new Logger(ProofOfWorkService.name);
+  private readonly secret: string;
+  private readonly baseDifficulty: number;
+  private readonly maxDifficulty: number;
+  private readonly ttlMs: number;
+  private readonly cooldownMs: number;
+  readonly enabled: boolean;
+
+  private burstLevel = 0;
+  private lastBurstAt = 0;
+  // Rozwiązane zadania pamiętamy do ich wygaśnięcia, żeby jednego rozwiązania nie dało się użyć wielokrotnie.
+  private readonly usedChallenges = new Map<string, number>();
+
+  constructor(
+    private readonly config: ConfigService,
+    @Inject(CLOCK) private readonly clock: Clock,
+  ) {
+    this.secret =
+      this.config.get<string>('POW_SECRET') ??
+      `${this.config.get<string>('JWT_SECRET', 'change-me')}:proof-of-work`;
+    this.baseDifficulty = Number(this.config.get<number>('POW_BASE_DIFFICULTY', 16));
+    this.maxDifficulty = Math.max(
+      this.baseDifficulty,
+      Number(this.config.get<number>('POW_MAX_DIFFICULTY', 22)),
+    );
+    this.ttlMs = Number(this.config.get<number>('POW_CHALLENGE_TTL_MINUTES', 5)) * 60 * 1000;
+    this.cooldownMs = Number(this.config.get<number>('POW_COOLDOWN_MINUTES', 10)) * 60 * 1000;
+    this.enabled = this.config.get<string>('POW_ENABLED', 'true') !== 'false';
+  }
+
+  issue(): ProofOfWorkChallenge {
+    const difficulty = this.currentDifficulty();
+    const expiresAt = new Date(this.clock.now().getTime() + this.ttlMs);
+    const payload: ChallengePayload = {
+      id: randomBytes(12).toString('base64url'),
+      difficulty,
+      exp: expiresAt.getTime(),
+    };
+    const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+    return {
+      challenge: `${encoded}.${this.sign(encoded)}`,
+      algorithm: 'sha256',
+      difficulty,
+      expiresAt,
+    };
+  }
+
+  verify(challenge: string, solution: string): boolean {
+    const payload = this.decode(challenge);
+    const now = this.clock.now().getTime();
+    if (!payload || payload.exp < now || solution.length > MAX_SOLUTION_LENGTH) {
+      return false;
+    }
+
+    this.pruneUsedChallenges(now);
+    if (this.usedChallenges.has(payload.id)) {
+      return false;
+    }
+
+    const hash = createHash('sha256').update(`${challenge}:${solution}`).digest();
+    if (leadingZeroBits(hash) < payload.difficulty) {
+      return false;
+    }
+
+    this.usedChallenges.set(payload.id, payload.exp);
+    return true;
+  }
+
+  currentDifficulty(): number {
+    this.decayBurstLevel();
+    return Math.min(this.baseDifficulty + this.burstLevel, this.maxDifficulty);
+  }
+
+  // Wywoływane przez AppThrottlerGuard przy przekroczeniu limitu. Trwająca fala żądań podnosi trudność
+  // o 1 bit na minutę, a po okresie spokoju trudność wraca stopniowo do bazowej.
+  recordBurst(): void {
+    this.decayBurstLevel();
+    const now = this.clock.now().getTime();
+    const canRaise = !this.burstLevel || now - this.lastBurstAt >= BURST_STEP_MS;
+    this.lastBurstAt = now;
+    if (canRaise && this.baseDifficulty + this.burstLevel < this.maxDifficulty) {
+      this.burstLevel += 1;
+      this.logger.warn(
+        `Request burst detected, proof-of-work difficulty raised to ${this.baseDifficulty + this.burstLevel} bits`,
+      );
+    }
+  }
+
+  private decayBurstLevel(): void {
+    if (!this.burstLevel) {
+      return;
+    }
+    const steps = Math.floor((this.clock.now().getTime() - this.lastBurstAt) / this.cooldownMs);
+    if (steps > 0) {
+      this.burstLevel = Math.max(0, this.burstLevel - steps);
+      this.lastBurstAt += steps * this.cooldownMs;
+    }
+  }
+
+  private decode(challenge: string): ChallengePayload | null {
+    const [encoded, signature] = challenge.split('.');
+    if (!encoded || !signature) {
+      return null;
+    }
+
+    const actual = Buffer.from(signature, 'base64url');
+    const expected = Buffer.from(this.sign(encoded), 'base64url');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as ChallengePayload;
+    } catch {
+      return null;
+    }
+  }
+
+  private pruneUsedChallenges(now: number): void {
+    for (const [id, exp] of this.usedChallenges) {
+      if (exp < now) {
+        this.usedChallenges.delete(id);
+      }
+    }
+  }
+
+  private sign(value: string): string {
+    return createHmac('sha256', this.secret).update(value).digest('base64url');
+  }
+}
+
+export function leadingZeroBits(hash: Buffer): number {
+  let bits = 0;
+  for (const byte of hash) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
@@ -0,0 +1,76 @@
+// Stabilne kody błędów zwracane w polu "code" - frontend może na nich polegać niezależnie od języka
+// komunikatu. Teksty są w src/common/i18n/api-messages.ts.
+export enum ErrorCode {
+  // Ogólne, gdy wyjątek nie niesie własnego kodu
+  BAD_REQUEST = 'BAD_REQUEST',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  FORBIDDEN = 'FORBIDDEN',
+  NOT_FOUND = 'NOT_FOUND',
+  CONFLICT = 'CONFLICT',
+  PAYLOAD_TOO_LARGE = 'PAYLOAD_TOO_LARGE',
+  TOO_MANY_REQUESTS = 'TOO_MANY_REQUESTS',
+  INTERNAL_ERROR = 'INTERNAL_ERROR',
+  REQUEST_FAILED = 'REQUEST_FAILED',
+  VALIDATION_FAILED = 'VALIDATION_FAILED',
+
+  // Walidacja pól z własnym komunikatem
+  INVALID_PHONE = 'INVALID_PHONE',
+  INVALID_CODE_FORMAT = 'INVALID_CODE_FORMAT',
+  INVALID_TAG = 'INVALID_TAG',
+  INVALID_TOKEN = 'INVALID_TOKEN',
+  GDPR_CONSENT_REQUIRED = 'GDPR_CONSENT_REQUIRED',
+
+  // Logowanie i sesje
+  ACCOUNT_NOT_FOUND = 'ACCOUNT_NOT_FOUND',
+  ACCOUNT_BLOCKED = 'ACCOUNT_BLOCKED',
+  INVALID_LOGIN_CODE = 'INVALID_LOGIN_CODE',
+  LOGIN_CODE_REVOKED = 'LOGIN_CODE_REVOKED',
+  LOGIN_CODE_EXPIRED = 'LOGIN_CODE_EXPIRED',
+  LOGIN_LOCKED = 'LOGIN_LOCKED',
+  INVALID_MAGIC_LINK = 'INVALID_MAGIC_LINK',
+  INVALID_SECOND_FACTOR_CODE = 'INVALID_SECOND_FACTOR_CODE',
+  SECOND_FACTOR_SESSION_EXPIRED = 'SECOND_FACTOR_SESSION_EXPIRED',
+  TOTP_ALREADY_ENABLED = 'TOTP_ALREADY_ENABLED',
+  TOTP_SETUP_NOT_STARTED = 'TOTP_SETUP_NOT_STARTED',
+  INVALID_TOTP_CODE = 'INVALID_TOTP_CODE',
+  TOKEN_REVOKED = 'TOKEN_REVOKED',
+  TOKEN_ACCOUNT_NOT_FOUND = 'TOKEN_ACCOUNT_NOT_FOUND',
+  TOKEN_ACCOUNT_BLOCKED = 'TOKEN_ACCOUNT_BLOCKED',
+  SESSION_ENDED = 'SESSION_ENDED',
+  SESSION_EXPIRED = 'SESSION_EXPIRED',
+  SESSION_NOT_FOUND = 'SESSION_NOT_FOUND',
+  INVALID_REFRESH_TOKEN = 'INVALID_REFRESH_TOKEN',
+  INSUFFICIENT_PERMISSIONS = 'INSUFFICIENT_PERMISSIONS',
+  PROOF_OF_WORK_REQUIRED = 'PROOF_OF_WORK_REQUIRED',
+  PROOF_OF_WORK_INVALID = 'PROOF_OF_WORK_INVALID',
+
+  // Użytkownicy i prywatność
+  USER_NOT_FOUND = 'USER_NOT_FOUND',
+  USER_EMAIL_TAKEN = 'USER_EMAIL_TAKEN',
+  CANNOT_BLOCK_SELF = 'CANNOT_BLOCK_SELF',
+  CANNOT_DELETE_SELF = 'CANNOT_DELETE_SELF',
+  SELF_ERASURE_REQUIRED = 'SELF_ERASURE_REQUIRED',
+  ERASURE_CODE_EXPIRED = 'ERASURE_CODE_EXPIRED',
+  INVALID_ERASURE_CODE = 'INVALID_ERASURE_CODE',
+
+  // Formularz kontaktowy i skrzynka zgłoszeń
+  CONTACT_SUBMISSION_NOT_FOUND = 'CONTACT_SUBMISSION_NOT_FOUND',
+  CONTACT_STATUS_TRANSITION_NOT_ALLOWED = 'CONTACT_STATUS_TRANSITION_NOT_ALLOWED',
+  CONTACT_ASSIGNEE_NOT_ADMIN = 'CONTACT_ASSIGNEE_NOT_ADMIN',
+  ATTACHMENT_EMPTY = 'ATTACHMENT_EMPTY',
+  ATTACHMENT_TYPE_NOT_ALLOWED = 'ATTACHMENT_TYPE_NOT_ALLOWED',
+  ATTACHMENT_NOT_FOUND = 'ATTACHMENT_NOT_FOUND',
+  INBOUND_EMAIL_DISABLED = 'INBOUND_EMAIL_DISABLED',
+  INBOUND_EMAIL_INVALID = 'INBOUND_EMAIL_INVALID',
+  INBOUND_WEBHOOK_TOKEN_INVALID = 'INBOUND_WEBHOOK_TOKEN_INVALID',
+  EMAIL_UPLOAD_INVALID = 'EMAIL_UPLOAD_INVALID',
+
+  // Newsletter i kolejka e-maili
+  NEWSLETTER_CONFIRMATION_INVALID = 'NEWSLETTER_CONFIRMATION_INVALID',
+  NEWSLETTER_UNSUBSCRIBE_INVALID = 'NEWSLETTER_UNSUBSCRIBE_INVALID',
+  CAMPAIGN_NOT_FOUND = 'CAMPAIGN_NOT_FOUND',
+  CAMPAIGN_ALREADY_SENT = 'CAMPAIGN_ALREADY_SENT',
+  CAMPAIGN_DUPLICATE_LANGUAGE = 'CAMPAIGN_DUPLICATE_LANGUAGE',
+  EMAIL_NOT_FOUND = 'EMAIL_NOT_FOUND',
+  EMAIL_NOT_DEAD = 'EMAIL_NOT_DEAD',
+}
@@ -0,0 +1,11 @@
+// Kody komunikatów zwracanych po udanej operacji ({ code, message }).
+export enum SuccessCode {
+  LOGIN_CODE_SENT = 'LOGIN_CODE_SENT',
+  LOGIN_CODE_RESENT = 'LOGIN_CODE_RESENT',
+  LOGGED_OUT = 'LOGGED_OUT',
+  LOGGED_OUT_EVERYWHERE = 'LOGGED_OUT_EVERYWHERE',
+  CONTACT_RECEIVED = 'CONTACT_RECEIVED',
+  NEWSLETTER_CONFIRMATION_SENT = 'NEWSLETTER_CONFIRMATION_SENT',
+  NEWSLETTER_CONFIRMED = 'NEWSLETTER_CONFIRMED',
+  NEWSLETTER_UNSUBSCRIBED = 'NEWSLETTER_UNSUBSCRIBED',
+}
@@ -0,0 +1,98 @@
+import {
+  ArgumentsHost,
+  BadRequestException,
+  NotFoundException,
+  UnauthorizedException,
+  ValidationPipe
+} from '@nestjs/common'
+import { IsString, MaxLength } from 'class-validator'
+import { ErrorCode } from '../enums/error-code.enum'
+import { apiError } from '../i18n/api-messages'
+import { createValidationException } from '../i18n/validation-errors'
+import { AllExceptionsFilter } from './all-exceptions.filter'
+
+class NoteDto {
+  @IsString()
+  @MaxLength(5)
+  title!: string
+}
+
+describe('AllExceptionsFilter', () => {
+  const respond = (
+    exception: unknown,
+    acceptLanguage?: string,
+    filter = new AllExceptionsFilter()
+  ) => {
+    const json = jest.fn()
+    const status = jest.fn().mockReturnValue({ json })
+    const host = {
+      switchToHttp: () => ({
+        getResponse: () => ({ status }),
+        getRequest: () => ({
+          method: 'POST',
+          url: '/test',
+          headers: { 'accept-language': acceptLanguage }
+        })
+      })
+    } as unknown as ArgumentsHost
+    jest.spyOn(filter['logger'], 'error').mockImplementation(() => undefined)
+
+    filter.catch(exception, host)
+
+    return {
+      statusCode: status.mock.calls[0][0] as number,
+      body: json.mock.calls[0][0] as Record<string, unknown>
+    }
+  }
+
+  it('returns the error code with a message in the Accept-Language language', () => {
+    const exception = new UnauthorizedException(apiError(ErrorCode.INVALID_LOGIN_CODE))
+
+    expect(exception.message).toEqual('Nieprawidłowy kod lub e-mail.')
+    expect(respond(exception, 'de-CH,de;q=0.9').body).toMatchObject({
+      statusCode: 401,
+      code: 'INVALID_LOGIN_CODE',
+      message: 'Ungültiger Code oder ungültige E-Mail-Adresse.'
+    })
+  })
+
+  it('interpolates message parameters and uses the fallback chain for unsupported languages', () => {
+    const exception = new BadRequestException(
+      apiError(ErrorCode.CONTACT_STATUS_TRANSITION_NOT_ALLOWED, { from: 'closed', to: 'new' })
+    )
+
+    const { body } = respond(exception, 'es', new AllExceptionsFilter(['en', 'pl']))
+
+    expect(body.code).toEqual('CONTACT_STATUS_TRANSITION_NOT_ALLOWED')
+    expect(body.params).toEqual({ from: 'closed', to: 'new' })
+    expect(body.message).toEqual('The submission status cannot be changed from "closed" to "new".')
+  })
+
+  it('assigns a generic code to exceptions without one', () => {
+    expect(respond(new NotFoundException(), 'en').body).toMatchObject({ code: 'NOT_FOUND' })
+    expect(respond(new Error('boom')).body).toMatchObject({
+      statusCode: 500,
+      code: 'INTERNAL_ERROR'
+    })
+  })
+
+  it('translates validation errors per field with rule arguments', async () => {
+    const pipe = new ValidationPipe({ exceptionFactory: createValidationException })
+    const exception = await pipe
+      .transform({ title: 'za długi tytuł' }, { type: 'body', metatype: NoteDto })
+      .catch((error: unknown) => error)
+
+    const { statusCode, body } = respond(exception, 'en')
+
+    expect(statusCode).toEqual(400)
+    expect(body.code).toEqual('VALIDATION_FAILED')
+    expect(body.message).toEqual(['The field title must be at most 5 characters long.'])
+    expect(body.errors).toEqual([
+      {
+        field: 'title',
+        code: 'MAX_LENGTH',
+        message: 'The field title must be at most 5 characters long.'
+      }
+    ])
+  })
+})
@@ -1,25 +1,48 @@
 import { ArgumentsHost, Catch, ExceptionFilter, HttpException, HttpStatus, Logger } from '@nestjs/common'
 import { Request, Response } from 'express'
+import { ErrorCode } from '../enums/error-code.enum'
+import { ApiMessageParams, translateApiMessage } from '../i18n/api-messages'
+import { DEFAULT_LANGUAGE, SupportedLanguage, languageChain } from '../i18n/languages'
+import { FieldError, translateFieldError } from '../i18n/validation-errors'
+import { negotiateLanguage } from '../utils/request.utils'
+
+interface ExceptionBody {
+  code?: string
+  message?: string | string[]
+  params?: ApiMessageParams
+  errors?: FieldError[]
+}
+
+// Kod dla wyjątków bez własnego (np. z Nest, Multer czy throttlera).
+const STATUS_CODES: Partial<Record<number, ErrorCode>> = {
+  [HttpStatus.BAD_REQUEST]: ErrorCode.BAD_REQUEST,
+  [HttpStatus.UNAUTHORIZED]: ErrorCode.UNAUTHORIZED,
+  [HttpStatus.FORBIDDEN]: ErrorCode.FORBIDDEN,
+  [HttpStatus.NOT_FOUND]: ErrorCode.NOT_FOUND,
+  [HttpStatus.CONFLICT]: ErrorCode.CONFLICT,
+  [HttpStatus.PAYLOAD_TOO_LARGE]: ErrorCode.PAYLOAD_TOO_LARGE,
+  [HttpStatus.TOO_MANY_REQUESTS]: ErrorCode.TOO_MANY_REQUESTS
+}
 
 @Catch()
 export class AllExceptionsFilter implements ExceptionFilter {
   private readonly logger = new Logger(AllExceptionsFilter.name)
 
+  constructor(private readonly languageFallbacks: SupportedLanguage[] = [DEFAULT_LANGUAGE]) {}
+
   catch(exception: unknown, host: ArgumentsHost) {
     const ctx = host.switchToHttp()
     const response = ctx.getResponse<Response>()
     const request = ctx.getRequest<Request>()
 
     let status = HttpStatus.INTERNAL_SERVER_ERROR
-    let message: string | string[] = 'Internal server error'
+    let body: ExceptionBody = {}
 
     if (exception instanceof HttpException) {
       status = exception.getStatus()
       const exceptionResponse = exception.getResponse()
-      message =
-        typeof exceptionResponse === 'string'
-          ? exceptionResponse
-          : (exceptionResponse as { message?: string | string[] }).message ?? message
+      body =
+        typeof exceptionResponse === 'string' ? { message: exceptionResponse } : (exceptionResponse as ExceptionBody)
     }
 
     this.logger.error(
@@ -29,11 +52,32 @@ export class AllExceptionsFilter implements ExceptionFilter {
       exception instanceof Error ? exception.stack : undefined
     )
 
+    // Komunikat w języku z Accept-Language; kod zostaje ten sam niezależnie od języka.
+    const languages = languageChain(negotiateLanguage(request.headers['accept-language']), this.languageFallbacks)
+    const fallbackCode =
+      STATUS_CODES[status] ??
+      (status >= HttpStatus.INTERNAL_SERVER_ERROR ? ErrorCode.INTERNAL_ERROR : ErrorCode.REQUEST_FAILED)
+    const code = body.code ?? fallbackCode
+    const message = body.errors
+      ? body.errors.map((error) => translateFieldError(error, languages))
+      : (translateApiMessage(code, languages, body.params) ?? translateApiMessage(fallbackCode, languages))
+
     response.status(status).json({
       statusCode: status,
+      code,
       timestamp: new Date().toISOString(),
       path: request.url,
-      message
+      message,
+      ...(body.params ? { params: body.params } : {}),
+      ...(body.errors
+        ? {
+            errors: body.errors.map((error) => ({
+              field: error.field,
+              code: error.code,
+              message: translateFieldError(error, languages)
+            }))
+          }
+        : {})
     })
   }
 }
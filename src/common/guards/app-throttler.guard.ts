@@ -1,9 +1,27 @@
 import { ExecutionContext, Injectable } from '@nestjs/common';
-import { ThrottlerGuard } from '@nestjs/throttler';
+import { Reflector } from '@nestjs/core';
+import {
+  InjectThrottlerOptions,
+  InjectThrottlerStorage,
+  ThrottlerGuard,
+  ThrottlerLimitDetail,
+  ThrottlerModuleOptions,
+  ThrottlerStorage,
+} from '@nestjs/throttler';
 import { Request } from 'express';
+import { ProofOfWorkService } from '../../challenge/proof-of-work.service';
 
 @Injectable()
 export class AppThrottlerGuard extends ThrottlerGuard {
+  constructor(
+    @InjectThrottlerOptions() options: ThrottlerModuleOptions,
+    @InjectThrottlerStorage() storageService: ThrottlerStorage,
+    reflector: Reflector,
+    private readonly proofOfWorkService: ProofOfWorkService,
+  ) {
+    super(options, storageService, reflector);
+  }
+
   async shouldSkip(context: ExecutionContext): Promise<boolean> {
     if (await super.shouldSkip(context)) {
       return true;
@@ -17,4 +35,13 @@ export class AppThrottlerGuard extends ThrottlerGuard {
     const path = request.path ?? request.url ?? '';
     return path.startsWith('/health');
   }
+
+  // Przekroczenie limitu to sygnał fali żądań - kolejne zadania proof-of-work będą trudniejsze.
+  protected async throwThrottlingException(
+    context: ExecutionContext,
+    throttlerLimitDetail: ThrottlerLimitDetail,
+  ): Promise<void> {
+    this.proofOfWorkService.recordBurst();
+    await super.throwThrottlingException(context, throttlerLimitDetail);
+  }
 }
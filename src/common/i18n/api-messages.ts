@@ -0,0 +1,530 @@
+import { ErrorCode } from '../enums/error-code.enum';
+import { SuccessCode } from '../enums/success-code.enum';
+import { DEFAULT_LANGUAGE, SupportedLanguage } from './languages';
+
+// Komunikaty API istnieją po polsku, niemiecku i angielsku; pozostałe języki dostają tekst
+// z łańcucha LANGUAGE_FALLBACKS.
+type LocalizedText = Record<'pl' | 'de' | 'en', string> &
+  Partial<Record<SupportedLanguage, string>>;
+
+export type ApiMessageParams = Record<string, string | number | undefined>;
+
+export interface ApiErrorBody {
+  code: ErrorCode;
+  message: string;
+  params?: ApiMessageParams;
+}
+
+export interface ApiSuccessBody {
+  code: SuccessCode;
+  message: string;
+}
+
+const API_MESSAGES: Record<ErrorCode | SuccessCode, LocalizedText> = {
+  [ErrorCode.BAD_REQUEST]: {
+    pl: 'Nieprawidłowe żądanie.',
+    de: 'Ungültige Anfrage.',
+    en: 'Bad request.',
+  },
+  [ErrorCode.UNAUTHORIZED]: {
+    pl: 'Wymagane jest zalogowanie.',
+    de: 'Eine Anmeldung ist erforderlich.',
+    en: 'Authentication is required.',
+  },
+  [ErrorCode.FORBIDDEN]: {
+    pl: 'Brak dostępu.',
+    de: 'Zugriff verweigert.',
+    en: 'Access denied.',
+  },
+  [ErrorCode.NOT_FOUND]: {
+    pl: 'Nie znaleziono zasobu.',
+    de: 'Die Ressource wurde nicht gefunden.',
+    en: 'Resource not found.',
+  },
+  [ErrorCode.CONFLICT]: {
+    pl: 'Operacja jest sprzeczna z aktualnym stanem danych.',
+    de: 'Der Vorgang steht im Konflikt mit dem aktuellen Datenstand.',
+    en: 'The operation conflicts with the current state of the data.',
+  },
+  [ErrorCode.PAYLOAD_TOO_LARGE]: {
+    pl: 'Przesłane dane są zbyt duże.',
+    de: 'Die übermittelten Daten sind zu groß.',
+    en: 'The request payload is too large.',
+  },
+  [ErrorCode.TOO_MANY_REQUESTS]: {
+    pl: 'Zbyt wiele żądań. Spróbuj ponownie za chwilę.',
+    de: 'Zu viele Anfragen. Versuchen Sie es gleich noch einmal.',
+    en: 'Too many requests. Please try again shortly.',
+  },
+  [ErrorCode.INTERNAL_ERROR]: {
+    pl: 'Wystąpił błąd serwera.',
+    de: 'Es ist ein Serverfehler aufgetreten.',
+    en: 'An internal server error occurred.',
+  },
+  [ErrorCode.REQUEST_FAILED]: {
+    pl: 'Żądanie nie powiodło się.',
+    de: 'Die Anfrage ist fehlgeschlagen.',
+    en: 'The request failed.',
+  },
+  [ErrorCode.VALIDATION_FAILED]: {
+    pl: 'Przesłane dane są nieprawidłowe.',
+    de: 'Die übermittelten Daten sind ungültig.',
+    en: 'The submitted data is invalid.',
+  },
+
+  [ErrorCode.INVALID_PHONE]: {
+    pl: 'Numer telefonu powinien mieć 5-20 znaków i może zawierać cyfry, spacje, plus, nawiasy lub myślniki.',
+    de: 'Die Telefonnummer muss 5-20 Zeichen lang sein und darf Ziffern, Leerzeichen, Plus, Klammern oder Bindestriche enthalten.',
+    en: 'The phone number must be 5-20 characters long and may contain digits, spaces, plus signs, brackets or hyphens.',
+  },
+  [ErrorCode.INVALID_CODE_FORMAT]: {
+    pl: 'Kod powinien składać się z 6 cyfr.',
+    de: 'Der Code muss aus 6 Ziffern bestehen.',
+    en: 'The code must consist of 6 digits.',
+  },
+  [ErrorCode.INVALID_TAG]: {
+    pl: 'Tag może zawierać tylko litery, cyfry, spacje, myślniki i podkreślenia.',
+    de: 'Ein Tag darf nur Buchstaben, Ziffern, Leerzeichen, Bindestriche und Unterstriche enthalten.',
+    en: 'A tag may contain only letters, digits, spaces, hyphens and underscores.',
+  },
+  [ErrorCode.INVALID_TOKEN]: {
+    pl: 'Nieprawidłowy token.',
+    de: 'Ungültiges Token.',
+    en: 'Invalid token.',
+  },
+  [ErrorCode.GDPR_CONSENT_REQUIRED]: {
+    pl: 'Wymagana jest zgoda na przetwarzanie danych.',
+    de: 'Die Einwilligung in die Datenverarbeitung ist erforderlich.',
+    en: 'Consent to data processing is required.',
+  },
+
+  [ErrorCode.ACCOUNT_NOT_FOUND]: {
+    pl: 'Nie znaleziono konta dla podanego adresu. Wybierz opcję „Uzyskaj kod dla nowego użytkownika” i wypełnij formularz.',
+    de: 'Für diese Adresse wurde kein Konto gefunden. Wählen Sie „Code für neue Benutzer anfordern“ und füllen Sie das Formular aus.',
+    en: 'No account was found for this address. Choose "Get a code as a new user" and fill in the form.',
+  },
+  [ErrorCode.ACCOUNT_BLOCKED]: {
+    pl: 'Konto zostało zablokowane. Skontaktuj się z administratorem.',
+    de: 'Das Konto wurde gesperrt. Wenden Sie sich an den Administrator.',
+    en: 'The account has been blocked. Please contact the administrator.',
+  },
+  [ErrorCode.INVALID_LOGIN_CODE]: {
+    pl: 'Nieprawidłowy kod lub e-mail.',
+    de: 'Ungültiger Code oder ungültige E-Mail-Adresse.',
+    en: 'Invalid code or e-mail address.',
+  },
+  [ErrorCode.LOGIN_CODE_REVOKED]: {
+    pl: 'Kod został unieważniony po zbyt wielu błędnych próbach. Poproś o nowy kod.',
+    de: 'Der Code wurde nach zu vielen Fehlversuchen ungültig. Fordern Sie einen neuen Code an.',
+    en: 'The code was revoked after too many failed attempts. Please request a new code.',
+  },
+  [ErrorCode.LOGIN_CODE_EXPIRED]: {
+    pl: 'Kod wygasł.',
+    de: 'Der Code ist abgelaufen.',
+    en: 'The code has expired.',
+  },
+  [ErrorCode.LOGIN_LOCKED]: {
+    pl: 'Zbyt wiele nieudanych prób logowania. Spróbuj ponownie po {lockedUntil}.',
+    de: 'Zu viele fehlgeschlagene Anmeldeversuche. Versuchen Sie es nach {lockedUntil} erneut.',
+    en: 'Too many failed login attempts. Try again after {lockedUntil}.',
+  },
+  [ErrorCode.INVALID_MAGIC_LINK]: {
+    pl: 'Link logowania jest nieprawidłowy lub wygasł.',
+    de: 'Der Anmeldelink ist ungültig oder abgelaufen.',
+    en: 'The login link is invalid or has expired.',
+  },
+  [ErrorCode.INVALID_SECOND_FACTOR_CODE]: {
+    pl: 'Nieprawidłowy kod weryfikacji dwuetapowej.',
+    de: 'Ungültiger Code der Zwei-Faktor-Authentifizierung.',
+    en: 'Invalid two-factor authentication code.',
+  },
+  [ErrorCode.SECOND_FACTOR_SESSION_EXPIRED]: {
+    pl: 'Sesja weryfikacji dwuetapowej wygasła. Zaloguj się ponownie.',
+    de: 'Die Sitzung der Zwei-Faktor-Authentifizierung ist abgelaufen. Melden Sie sich erneut an.',
+    en: 'The two-factor authentication session has expired. Please log in again.',
+  },
+  [ErrorCode.TOTP_ALREADY_ENABLED]: {
+    pl: 'Weryfikacja dwuetapowa jest już włączona.',
+    de: 'Die Zwei-Faktor-Authentifizierung ist bereits aktiviert.',
+    en: 'Two-factor authentication is already enabled.',
+  },
+  [ErrorCode.TOTP_SETUP_NOT_STARTED]: {
+    pl: 'Najpierw rozpocznij konfigurację aplikacji uwierzytelniającej.',
+    de: 'Starten Sie zuerst die Einrichtung der Authenticator-App.',
+    en: 'Start setting up the authenticator app first.',
+  },
+  [ErrorCode.INVALID_TOTP_CODE]: {
+    pl: 'Nieprawidłowy kod z aplikacji uwierzytelniającej.',
+    de: 'Ungültiger Code aus der Authenticator-App.',
+    en: 'Invalid code from the authenticator app.',
+  },
+  [ErrorCode.TOKEN_REVOKED]: {
+    pl: 'Token został unieważniony.',
+    de: 'Das Token wurde widerrufen.',
+    en: 'The token has been revoked.',
+  },
+  [ErrorCode.TOKEN_ACCOUNT_NOT_FOUND]: {
+    pl: 'Konto powiązane z tokenem nie istnieje.',
+    de: 'Das mit dem Token verknüpfte Konto existiert nicht.',
+    en: 'The account linked to this token does not exist.',
+  },
+  [ErrorCode.TOKEN_ACCOUNT_BLOCKED]: {
+    pl: 'Konto zostało zablokowane.',
+    de: 'Das Konto wurde gesperrt.',
+    en: 'The account has been blocked.',
+  },
+  [ErrorCode.SESSION_ENDED]: {
+    pl: 'Sesja wygasła lub została zakończona.',
+    de: 'Die Sitzung ist abgelaufen oder wurde beendet.',
+    en: 'The session has expired or has been ended.',
+  },
+  [ErrorCode.SESSION_EXPIRED]: {
+    pl: 'Sesja wygasła. Zaloguj się ponownie.',
+    de: 'Die Sitzung ist abgelaufen. Melden Sie sich erneut an.',
+    en: 'The session has expired. Please log in again.',
+  },
+  [ErrorCode.SESSION_NOT_FOUND]: {
+    pl: 'Sesja nie istnieje lub została już zakończona.',
+    de: 'Die Sitzung existiert nicht oder wurde bereits beendet.',
+    en: 'The session does not exist or has already been ended.',
+  },
+  [ErrorCode.INVALID_REFRESH_TOKEN]: {
+    pl: 'Nieprawidłowy token odświeżania.',
+    de: 'Ungültiges Aktualisierungstoken.',
+    en: 'Invalid refresh token.',
+  },
+  [ErrorCode.INSUFFICIENT_PERMISSIONS]: {
+    pl: 'Brak uprawnień do wykonania tej operacji.',
+    de: 'Sie sind für diesen Vorgang nicht berechtigt.',
+    en: 'You are not allowed to perform this operation.',
+  },
+  [ErrorCode.PROOF_OF_WORK_REQUIRED]: {
+    pl: 'Brak rozwiązania zadania weryfikacyjnego. Pobierz nowe zadanie z /challenge.',
+    de: 'Die Lösung der Prüfaufgabe fehlt. Holen Sie eine neue Aufgabe über /challenge.',
+    en: 'The verification challenge solution is missing. Fetch a new challenge from /challenge.',
+  },
+  [ErrorCode.PROOF_OF_WORK_INVALID]: {
+    pl: 'Rozwiązanie zadania weryfikacyjnego jest nieprawidłowe lub wygasło.',
+    de: 'Die Lösung der Prüfaufgabe ist ungültig oder abgelaufen.',
+    en: 'The verification challenge solution is invalid or has expired.',
+  },
+
+  [ErrorCode.USER_NOT_FOUND]: {
+    pl: 'Użytkownik nie istnieje.',
+    de: 'Der Benutzer existiert nicht.',
+    en: 'The user does not exist.',
+  },
+  [ErrorCode.USER_EMAIL_TAKEN]: {
+    pl: 'Użytkownik z takim e-mailem już istnieje.',
+    de: 'Ein Benutzer mit dieser E-Mail-Adresse existiert bereits.',
+    en: 'A user with this e-mail address already exists.',
+  },
+  [ErrorCode.CANNOT_BLOCK_SELF]: {
+    pl: 'Nie możesz zablokować własnego konta.',
+    de: 'Sie können Ihr eigenes Konto nicht sperren.',
+    en: 'You cannot block your own account.',
+  },
+  [ErrorCode.CANNOT_DELETE_SELF]: {
+    pl: 'Nie możesz usunąć własnego konta.',
+    de: 'Sie können Ihr eigenes Konto nicht löschen.',
+    en: 'You cannot delete your own account.',
+  },
+  [ErrorCode.SELF_ERASURE_REQUIRED]: {
+    pl: 'Własne konto usuń przez DELETE /me.',
+    de: 'Löschen Sie Ihr eigenes Konto über DELETE /me.',
+    en: 'Delete your own account via DELETE /me.',
+  },
+  [ErrorCode.ERASURE_CODE_EXPIRED]: {
+    pl: 'Kod potwierdzenia wygasł. Poproś o nowy kod.',
+    de: 'Der Bestätigungscode ist abgelaufen. Fordern Sie einen neuen Code an.',
+    en: 'The confirmation code has expired. Please request a new code.',
+  },
+  [ErrorCode.INVALID_ERASURE_CODE]: {
+    pl: 'Nieprawidłowy kod potwierdzenia.',
+    de: 'Ungültiger Bestätigungscode.',
+    en: 'Invalid confirmation code.',
+  },
+
+  [ErrorCode.CONTACT_SUBMISSION_NOT_FOUND]: {
+    pl: 'Zgłoszenie nie istnieje.',
+    de: 'Die Anfrage existiert nicht.',
+    en: 'The submission does not exist.',
+  },
+  [ErrorCode.CONTACT_STATUS_TRANSITION_NOT_ALLOWED]: {
+    pl: 'Nie można zmienić statusu zgłoszenia z "{from}" na "{to}".',
+    de: 'Der Status der Anfrage kann nicht von "{from}" auf "{to}" geändert werden.',
+    en: 'The submission status cannot be changed from "{from}" to "{to}".',
+  },
+  [ErrorCode.CONTACT_ASSIGNEE_NOT_ADMIN]: {
+    pl: 'Zgłoszenie można przypisać tylko administratorowi.',
+    de: 'Anfragen können nur Administratoren zugewiesen werden.',
+    en: 'Submissions can only be assigned to an administrator.',
+  },
+  [ErrorCode.ATTACHMENT_EMPTY]: {
+    pl: 'Plik "{filename}" jest pusty.',
+    de: 'Die Datei "{filename}" ist leer.',
+    en: 'The file "{filename}" is empty.',
+  },
+  [ErrorCode.ATTACHMENT_TYPE_NOT_ALLOWED]: {
+    pl: 'Plik "{filename}" ma niedozwolony format. Dozwolone formaty: {allowed}.',
+    de: 'Die Datei "{filename}" hat ein unzulässiges Format. Erlaubte Formate: {allowed}.',
+    en: 'The file "{filename}" has a format that is not allowed. Allowed formats: {allowed}.',
+  },
+  [ErrorCode.ATTACHMENT_NOT_FOUND]: {
+    pl: 'Załącznik nie istnieje.',
+    de: 'Der Anhang existiert nicht.',
+    en: 'The attachment does not exist.',
+  },
+  [ErrorCode.INBOUND_EMAIL_DISABLED]: {
+    pl: 'Odbiór wiadomości e-mail jest wyłączony.',
+    de: 'Der E-Mail-Empfang ist deaktiviert.',
+    en: 'Receiving e-mail is disabled.',
+  },
+  [ErrorCode.INBOUND_EMAIL_INVALID]: {
+    pl: 'Nieprawidłowa wiadomość e-mail.',
+    de: 'Ungültige E-Mail-Nachricht.',
+    en: 'Invalid e-mail message.',
+  },
+  [ErrorCode.INBOUND_WEBHOOK_TOKEN_INVALID]: {
+    pl: 'Nieprawidłowy token webhooka.',
+    de: 'Ungültiges Webhook-Token.',
+    en: 'Invalid webhook token.',
+  },
+  [ErrorCode.EMAIL_UPLOAD_INVALID]: {
+    pl: 'Prześlij poprawną wiadomość e-mail jako message/rfc822 lub text/plain.',
+    de: 'Laden Sie eine gültige E-Mail als message/rfc822 oder text/plain hoch.',
+    en: 'Upload a valid e-mail message as message/rfc822 or text/plain.',
+  },
+
+  [ErrorCode.NEWSLETTER_CONFIRMATION_INVALID]: {
+    pl: 'Link potwierdzający jest nieprawidłowy lub wygasł.',
+    de: 'Der Bestätigungslink ist ungültig oder abgelaufen.',
+    en: 'The confirmation link is invalid or has expired.',
+  },
+  [ErrorCode.NEWSLETTER_UNSUBSCRIBE_INVALID]: {
+    pl: 'Link wypisu z newslettera jest nieprawidłowy.',
+    de: 'Der Abmeldelink für den Newsletter ist ungültig.',
+    en: 'The newsletter unsubscribe link is invalid.',
+  },
+  [ErrorCode.CAMPAIGN_NOT_FOUND]: {
+    pl: 'Kampania nie istnieje.',
+    de: 'Die Kampagne existiert nicht.',
+    en: 'The campaign does not exist.',
+  },
+  [ErrorCode.CAMPAIGN_ALREADY_SENT]: {
+    pl: 'Kampania została już wysłana.',
+    de: 'Die Kampagne wurde bereits versendet.',
+    en: 'The campaign has already been sent.',
+  },
+  [ErrorCode.CAMPAIGN_DUPLICATE_LANGUAGE]: {
+    pl: 'Każda wersja językowa kampanii może wystąpić tylko raz.',
+    de: 'Jede Sprachversion der Kampagne darf nur einmal vorkommen.',
+    en: 'Each language version of the campaign may appear only once.',
+  },
+  [ErrorCode.EMAIL_NOT_FOUND]: {
+    pl: 'Wiadomość nie istnieje.',
+    de: 'Die Nachricht existiert nicht.',
+    en: 'The message does not exist.',
+  },
+  [ErrorCode.EMAIL_NOT_DEAD]: {
+    pl: 'Ponowić można tylko wiadomość, której wysyłka się nie powiodła.',
+    de: 'Erneut senden lassen sich nur Nachrichten, deren Versand fehlgeschlagen ist.',
+    en: 'Only messages whose delivery failed can be requeued.',
+  },
+
+  [SuccessCode.LOGIN_CODE_SENT]: {
+    pl: 'Jeśli użytkownik istnieje, kod został wysłany.',
+    de: 'Falls das Konto existiert, wurde der Code versendet.',
+    en: 'If the account exists, the code has been sent.',
+  },
+  [SuccessCode.LOGIN_CODE_RESENT]: {
+    pl: 'Posiadasz już aktywny token. Wysłaliśmy na Twój adres e-mail nowy kod z tym samym terminem ważności.',
+    de: 'Sie haben bereits ein aktives Token. Wir haben Ihnen einen neuen Code mit derselben Gültigkeitsdauer per E-Mail gesendet.',
+    en: 'You already have an active token. We have emailed you a new code with the same expiry time.',
+  },
+  [SuccessCode.LOGGED_OUT]: {
+    pl: 'Wylogowano.',
+    de: 'Sie wurden abgemeldet.',
+    en: 'You have been logged out.',
+  },
+  [SuccessCode.LOGGED_OUT_EVERYWHERE]: {
+    pl: 'Wylogowano ze wszystkich urządzeń.',
+    de: 'Sie wurden auf allen Geräten abgemeldet.',
+    en: 'You have been logged out on all devices.',
+  },
+  [SuccessCode.CONTACT_RECEIVED]: {
+    pl: 'Dziękujemy za wiadomość! Odpowiemy na nią tak szybko, jak to możliwe.',
+    de: 'Vielen Dank für Ihre Nachricht! Wir antworten so schnell wie möglich.',
+    en: 'Thank you for your message! We will reply as soon as possible.',
+  },
+  [SuccessCode.NEWSLETTER_CONFIRMATION_SENT]: {
+    pl: 'Sprawdź skrzynkę e-mail i potwierdź zapis na newsletter.',
+    de: 'Prüfen Sie Ihr Postfach und bestätigen Sie die Anmeldung zum Newsletter.',
+    en: 'Check your inbox and confirm your newsletter subscription.',
+  },
+  [SuccessCode.NEWSLETTER_CONFIRMED]: {
+    pl: 'Zapis na newsletter został potwierdzony.',
+    de: 'Die Anmeldung zum Newsletter wurde bestätigt.',
+    en: 'Your newsletter subscription has been confirmed.',
+  },
+  [SuccessCode.NEWSLETTER_UNSUBSCRIBED]: {
+    pl: 'Adres został wypisany z newslettera.',
+    de: 'Die Adresse wurde vom Newsletter abgemeldet.',
+    en: 'The address has been unsubscribed from the newsletter.',
+  },
+};
+
+// Błędy walidacji pól; klucz to nazwa reguły class-validator zapisana jak kod (maxLength -> MAX_LENGTH).
+// {field} to ścieżka pola, {0}, {1} - argumenty reguły.
+const VALIDATION_MESSAGES: Record<string, LocalizedText> = {
+  INVALID_VALUE: {
+    pl: 'Pole {field} ma nieprawidłową wartość.',
+    de: 'Das Feld {field} hat einen ungültigen Wert.',
+    en: 'The field {field} has an invalid value.',
+  },
+  WHITELIST_VALIDATION: {
+    pl: 'Pole {field} jest niedozwolone.',
+    de: 'Das Feld {field} ist nicht erlaubt.',
+    en: 'The field {field} is not allowed.',
+  },
+  NESTED_VALIDATION: {
+    pl: 'Pole {field} musi być obiektem.',
+    de: 'Das Feld {field} muss ein Objekt sein.',
+    en: 'The field {field} must be an object.',
+  },
+  IS_STRING: {
+    pl: 'Pole {field} musi być tekstem.',
+    de: 'Das Feld {field} muss ein Text sein.',
+    en: 'The field {field} must be a string.',
+  },
+  IS_EMAIL: {
+    pl: 'Pole {field} musi zawierać poprawny adres e-mail.',
+    de: 'Das Feld {field} muss eine gültige E-Mail-Adresse enthalten.',
+    en: 'The field {field} must be a valid e-mail address.',
+  },
+  MIN_LENGTH: {
+    pl: 'Pole {field} musi mieć co najmniej {0} znaków.',
+    de: 'Das Feld {field} muss mindestens {0} Zeichen lang sein.',
+    en: 'The field {field} must be at least {0} characters long.',
+  },
+  MAX_LENGTH: {
+    pl: 'Pole {field} może mieć najwyżej {0} znaków.',
+    de: 'Das Feld {field} darf höchstens {0} Zeichen lang sein.',
+    en: 'The field {field} must be at most {0} characters long.',
+  },
+  IS_LENGTH: {
+    pl: 'Pole {field} musi mieć od {0} do {1} znaków.',
+    de: 'Das Feld {field} muss zwischen {0} und {1} Zeichen lang sein.',
+    en: 'The field {field} must be between {0} and {1} characters long.',
+  },
+  IS_ENUM: {
+    pl: 'Pole {field} musi mieć jedną z wartości: {1}.',
+    de: 'Das Feld {field} muss einen der folgenden Werte haben: {1}.',
+    en: 'The field {field} must be one of: {1}.',
+  },
+  IS_IN: {
+    pl: 'Pole {field} musi mieć jedną z wartości: {0}.',
+    de: 'Das Feld {field} muss einen der folgenden Werte haben: {0}.',
+    en: 'The field {field} must be one of: {0}.',
+  },
+  IS_BOOLEAN: {
+    pl: 'Pole {field} musi mieć wartość true lub false.',
+    de: 'Das Feld {field} muss true oder false sein.',
+    en: 'The field {field} must be true or false.',
+  },
+  IS_INT: {
+    pl: 'Pole {field} musi być liczbą całkowitą.',
+    de: 'Das Feld {field} muss eine ganze Zahl sein.',
+    en: 'The field {field} must be an integer.',
+  },
+  MIN: {
+    pl: 'Pole {field} nie może być mniejsze niż {0}.',
+    de: 'Das Feld {field} darf nicht kleiner als {0} sein.',
+    en: 'The field {field} must not be less than {0}.',
+  },
+  MAX: {
+    pl: 'Pole {field} nie może być większe niż {0}.',
+    de: 'Das Feld {field} darf nicht größer als {0} sein.',
+    en: 'The field {field} must not be greater than {0}.',
+  },
+  IS_DATE: {
+    pl: 'Pole {field} musi być poprawną datą.',
+    de: 'Das Feld {field} muss ein gültiges Datum sein.',
+    en: 'The field {field} must be a valid date.',
+  },
+  IS_UUID: {
+    pl: 'Pole {field} musi być identyfikatorem UUID.',
+    de: 'Das Feld {field} muss eine UUID sein.',
+    en: 'The field {field} must be a UUID.',
+  },
+  IS_URL: {
+    pl: 'Pole {field} musi być poprawnym adresem URL.',
+    de: 'Das Feld {field} muss eine gültige URL sein.',
+    en: 'The field {field} must be a valid URL.',
+  },
+  IS_JWT: {
+    pl: 'Pole {field} musi być tokenem JWT.',
+    de: 'Das Feld {field} muss ein JWT sein.',
+    en: 'The field {field} must be a JWT.',
+  },
+  IS_ARRAY: {
+    pl: 'Pole {field} musi być listą.',
+    de: 'Das Feld {field} muss eine Liste sein.',
+    en: 'The field {field} must be an array.',
+  },
+  ARRAY_MIN_SIZE: {
+    pl: 'Pole {field} musi zawierać co najmniej {0} element(y).',
+    de: 'Das Feld {field} muss mindestens {0} Element(e) enthalten.',
+    en: 'The field {field} must contain at least {0} element(s).',
+  },
+  ARRAY_MAX_SIZE: {
+    pl: 'Pole {field} może zawierać najwyżej {0} element(y).',
+    de: 'Das Feld {field} darf höchstens {0} Element(e) enthalten.',
+    en: 'The field {field} must contain at most {0} element(s).',
+  },
+  EQUALS: {
+    pl: 'Pole {field} musi mieć wartość {0}.',
+    de: 'Das Feld {field} muss den Wert {0} haben.',
+    en: 'The field {field} must equal {0}.',
+  },
+  MATCHES: {
+    pl: 'Pole {field} ma nieprawidłowy format.',
+    de: 'Das Feld {field} hat ein ungültiges Format.',
+    en: 'The field {field} has an invalid format.',
+  },
+};
+
+export function isApiMessageCode(code: string): code is ErrorCode | SuccessCode {
+  return Object.prototype.hasOwnProperty.call(API_MESSAGES, code);
+}
+
+// Tekst w pierwszym języku z listy, który go ma; parametry wstawiane w miejsce {nazwa}.
+export function translateApiMessage(
+  code: string,
+  languages: SupportedLanguage[],
+  params: ApiMessageParams = {},
+): string | undefined {
+  const texts = isApiMessageCode(code) ? API_MESSAGES[code] : VALIDATION_MESSAGES[code];
+  if (!texts) {
+    return undefined;
+  }
+  const language = languages.find((candidate) => texts[candidate] !== undefined);
+  const template = (language && texts[language]) || texts.pl;
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params[name] === undefined ? placeholder : String(params[name]),
+  );
+}
+
+// Treść wyjątku: kod dla klienta i polski komunikat do logów; AllExceptionsFilter tłumaczy go
+// na język z Accept-Language.
+export function apiError(code: ErrorCode, params?: ApiMessageParams): ApiErrorBody {
+  return {
+    code,
+    message: translateApiMessage(code, [DEFAULT_LANGUAGE], params) ?? code,
+    ...(params ? { params } : {}),
+  };
+}
+
+export function apiMessage(code: SuccessCode): ApiSuccessBody {
+  return { code, message: translateApiMessage(code, [DEFAULT_LANGUAGE]) ?? code };
+}
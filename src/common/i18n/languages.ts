@@ -0,0 +1,38 @@
+// Języki, w których serwis pisze do użytkowników (e-maile, treści zgód, newsletter).
+export const SUPPORTED_LANGUAGES = ['pl', 'de', 'en', 'fr', 'it'] as const;
+
+export type SupportedLanguage = (typeof SUPPORTED_LANGUAGES)[number];
+
+// Polski jest jedynym językiem z kompletem tekstów (także tych dla administratora).
+export const DEFAULT_LANGUAGE: SupportedLanguage = 'pl';
+
+// "de-CH", "FR", "it_CH" -> obsługiwany kod języka albo undefined.
+export function toSupportedLanguage(value?: string | null): SupportedLanguage | undefined {
+  const primary = value?.trim().toLowerCase().split(/[-_]/)[0];
+  return SUPPORTED_LANGUAGES.find((language) => language === primary);
+}
+
+// LANGUAGE_FALLBACKS (np. "de,en") to kolejność języków, gdy język odbiorcy jest nieznany albo
+// brakuje w nim tekstu. Polski zawsze zamyka listę.
+export function parseLanguageFallbacks(value?: string): SupportedLanguage[] {
+  const languages = (value ?? '')
+    .split(',')
+    .map((language) => toSupportedLanguage(language))
+    .filter((language): language is SupportedLanguage => language !== undefined);
+  return [...new Set([...languages, DEFAULT_LANGUAGE])];
+}
+
+export function resolveLanguage(
+  value: string | null | undefined,
+  fallbacks: SupportedLanguage[],
+): SupportedLanguage {
+  return toSupportedLanguage(value) ?? fallbacks[0] ?? DEFAULT_LANGUAGE;
+}
+
+// Język odbiorcy, a po nim łańcuch zapasowy - bez powtórzeń.
+export function languageChain(
+  value: string | null | undefined,
+  fallbacks: SupportedLanguage[],
+): SupportedLanguage[] {
+  return [...new Set([resolveLanguage(value, fallbacks), ...fallbacks, DEFAULT_LANGUAGE])];
+}
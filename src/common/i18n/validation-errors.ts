@@ -0,0 +1,69 @@
+import { BadRequestException } from '@nestjs/common';
+import { ValidationError, getMetadataStorage } from 'class-validator';
+import { ErrorCode } from '../enums/error-code.enum';
+import { ApiMessageParams, apiError, isApiMessageCode, translateApiMessage } from './api-messages';
+import { DEFAULT_LANGUAGE, SupportedLanguage } from './languages';
+
+export interface FieldError {
+  field: string;
+  code: string;
+  params: ApiMessageParams;
+}
+
+// Zamiast angielskich komunikatów class-validator zwracamy kod reguły (maxLength -> MAX_LENGTH) z jej
+// argumentami, a tekst powstaje w języku klienta. Własny komunikat w dekoratorze to ErrorCode.
+export function createValidationException(errors: ValidationError[]): BadRequestException {
+  const fieldErrors = collectFieldErrors(errors);
+  return new BadRequestException({
+    ...apiError(ErrorCode.VALIDATION_FAILED),
+    message: fieldErrors.map((error) => translateFieldError(error, [DEFAULT_LANGUAGE])).join(' '),
+    errors: fieldErrors,
+  });
+}
+
+export function translateFieldError(error: FieldError, languages: SupportedLanguage[]): string {
+  return (
+    translateApiMessage(error.code, languages, error.params) ??
+    (translateApiMessage('INVALID_VALUE', languages, error.params) as string)
+  );
+}
+
+function collectFieldErrors(errors: ValidationError[], parentPath = ''): FieldError[] {
+  return errors.flatMap((error) => {
+    const field = parentPath ? `${parentPath}.${error.property}` : error.property;
+    const own = Object.entries(error.constraints ?? {}).map(([rule, message]) =>
+      isApiMessageCode(message)
+        ? { field, code: message, params: { field } }
+        : { field, code: toRuleCode(rule), params: { field, ...ruleArguments(error, rule) } },
+    );
+    return [...own, ...collectFieldErrors(error.children ?? [], field)];
+  });
+}
+
+function toRuleCode(rule: string): string {
+  return rule.replace(/([a-z\d])([A-Z])/g, '$1_$2').toUpperCase();
+}
+
+// Argumenty reguły (np. 50 dla @MaxLength(50)) nie trafiają do ValidationError - bierzemy je
+// z metadanych dekoratorów klasy DTO.
+function ruleArguments(error: ValidationError, rule: string): ApiMessageParams {
+  const target = error.target?.constructor;
+  if (!target) {
+    return {};
+  }
+  const metadata = getMetadataStorage()
+    .getTargetValidationMetadatas(target, '', true, false)
+    .find((entry) => entry.propertyName === error.property && (entry.name ?? entry.type) === rule);
+
+  const constraints: unknown[] = metadata?.constraints ?? [];
+  return Object.fromEntries(
+    constraints.map((value, index) => [
+      String(index),
+      Array.isArray(value)
+        ? value.join(', ')
+        : typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+          ? String(value)
+          : undefined,
+    ]),
+  );
+}
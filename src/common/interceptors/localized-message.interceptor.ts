@@ -0,0 +1,32 @@
+import { CallHandler, ExecutionContext, NestInterceptor } from '@nestjs/common';
+import { Request } from 'express';
+import { Observable, map } from 'rxjs';
+import { isApiMessageCode, translateApiMessage } from '../i18n/api-messages';
+import { DEFAULT_LANGUAGE, SupportedLanguage, languageChain } from '../i18n/languages';
+import { negotiateLanguage } from '../utils/request.utils';
+
+// Odpowiedzi w kształcie { code, message } z apiMessage() dostają komunikat w języku z Accept-Language.
+export class LocalizedMessageInterceptor implements NestInterceptor {
+  constructor(private readonly languageFallbacks: SupportedLanguage[] = [DEFAULT_LANGUAGE]) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const request = context.switchToHttp().getRequest<Request>();
+    return next.handle().pipe(map((body: unknown) => this.localize(body, request)));
+  }
+
+  private localize(body: unknown, request: Request): unknown {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return body;
+    }
+    const { code, message } = body as { code?: unknown; message?: unknown };
+    if (typeof code !== 'string' || typeof message !== 'string' || !isApiMessageCode(code)) {
+      return body;
+    }
+
+    const languages = languageChain(
+      negotiateLanguage(request.headers['accept-language']),
+      this.languageFallbacks,
+    );
+    return { ...body, message: translateApiMessage(code, languages) ?? message };
+  }
+}
@@ -0,0 +1,27 @@
+import { IntervalJob } from './interval-job'
+
+class TestJob extends IntervalJob {
+  finish: () => void = () => undefined
+  readonly execute = jest.fn(
+    () =>
+      new Promise<void>((resolve) => {
+        this.finish = resolve
+      })
+  )
+}
+
+describe('IntervalJob', () => {
+  it('skips a run while the previous one is still in progress', async () => {
+    const job = new TestJob()
+
+    const first = job.run()
+    await job.run()
+    job.finish()
+    await first
+    const third = job.run()
+    job.finish()
+    await third
+
+    expect(job.execute).toHaveBeenCalledTimes(2)
+  })
+})
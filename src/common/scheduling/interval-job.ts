@@ -0,0 +1,35 @@
+import { OnModuleDestroy } from '@nestjs/common';
+
+// Cykliczne zadanie w procesie aplikacji. Przebieg nie startuje, dopóki poprzedni się nie skończy,
+// a timer nie blokuje zamknięcia procesu (np. w testach e2e).
+export abstract class IntervalJob implements OnModuleDestroy {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  protected abstract execute(): Promise<void>;
+
+  protected schedule(intervalMs: number): void {
+    this.timer = setInterval(() => void this.run(), intervalMs);
+    this.timer.unref();
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async run(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.execute();
+    } finally {
+      this.running = false;
+    }
+  }
+}
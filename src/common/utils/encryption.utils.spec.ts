@@ -0,0 +1,22 @@
+import { decryptValue, deriveEncryptionKey, encryptValue } from './encryption.utils'
+
+describe('encryptValue', () => {
+  const key = deriveEncryptionKey('test-secret')
+
+  it('round-trips a value with a fresh IV every time', () => {
+    const first = encryptValue(key, Buffer.from('kod 123456'))
+    const second = encryptValue(key, Buffer.from('kod 123456'))
+
+    expect(first).not.toEqual(second)
+    expect(decryptValue(key, first).toString()).toEqual('kod 123456')
+  })
+
+  it('rejects a different key or a modified ciphertext', () => {
+    const encrypted = encryptValue(key, Buffer.from('kod 123456'))
+    const [iv, tag] = encrypted.split('.')
+    const tampered = [iv, tag, Buffer.from('kod 654321').toString('base64url')].join('.')
+
+    expect(() => decryptValue(deriveEncryptionKey('other-secret'), encrypted)).toThrow()
+    expect(() => decryptValue(key, tampered)).toThrow()
+  })
+})
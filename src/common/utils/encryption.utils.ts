@@ -0,0 +1,20 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+export function deriveEncryptionKey(secret: string): Buffer {
+  return createHash('sha256').update(secret).digest();
+}
+
+// AES-256-GCM jako "iv.tag.szyfrogram" (base64url) - zmieniony szyfrogram nie da się odszyfrować.
+export function encryptValue(key: Buffer, value: Buffer): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const encrypted = Buffer.concat([cipher.update(value), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64url')).join('.');
+}
+
+export function decryptValue(key: Buffer, value: string): Buffer {
+  const [iv, tag, encrypted] = value.split('.').map((part) => Buffer.from(part, 'base64url'));
+  const decipher = createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]);
+}
@@ -0,0 +1,18 @@
+import { negotiateLanguage } from './request.utils'
+
+describe('negotiateLanguage', () => {
+  it('picks the supported language with the highest quality value', () => {
+    expect(negotiateLanguage('es-ES, it;q=0.7, fr-CH;q=0.9, en;q=0.8')).toEqual('fr')
+    expect(negotiateLanguage('de-CH')).toEqual('de')
+  })
+
+  it('keeps the header order for equal weights and skips refused languages', () => {
+    expect(negotiateLanguage('en;q=0.5, it;q=0.5')).toEqual('en')
+    expect(negotiateLanguage('pl;q=0, de;q=0.2')).toEqual('de')
+  })
+
+  it('leaves unsupported or missing headers to the fallback chain', () => {
+    expect(negotiateLanguage('es, *;q=0.1')).toBeUndefined()
+    expect(negotiateLanguage(undefined)).toBeUndefined()
+  })
+})
@@ -0,0 +1,47 @@
+import { Request } from 'express';
+import { SupportedLanguage, toSupportedLanguage } from '../i18n/languages';
+
+export function extractClientIp(req: Request): string | undefined {
+  const xForwardedFor = req.headers['x-forwarded-for'];
+  if (Array.isArray(xForwardedFor)) {
+    return xForwardedFor[0];
+  }
+  if (typeof xForwardedFor === 'string') {
+    const [firstIp] = xForwardedFor.split(',').map((ip) => ip.trim());
+    if (firstIp) {
+      return firstIp;
+    }
+  }
+  return req.ip;
+}
+
+// Accept-Language z wagami (RFC 9110), np. "fr-CH, fr;q=0.9, en;q=0.8, *;q=0.5": zwraca obsługiwany
+// język o najwyższej wadze. Przy równych wagach wygrywa kolejność z nagłówka, q=0 oznacza odmowę.
+// Gdy nic nie pasuje, decyduje łańcuch LANGUAGE_FALLBACKS przy wysyłce.
+export function negotiateLanguage(
+  headerValue: string | string[] | undefined,
+): SupportedLanguage | undefined {
+  if (!headerValue) {
+    return undefined;
+  }
+  const value = Array.isArray(headerValue) ? headerValue.join(',') : headerValue;
+
+  const ranges = value
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.split(';').map((item) => item.trim());
+      const qualityParam = params.find((param) => /^q=/i.test(param));
+      const quality = qualityParam ? Number(qualityParam.slice(2)) : 1;
+      return { tag, quality: Number.isFinite(quality) ? quality : 0, index };
+    })
+    .filter((range) => range.tag && range.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  for (const range of ranges) {
+    const language = toSupportedLanguage(range.tag);
+    if (language) {
+      return language;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,64 @@
+import { Controller, Get, Query, StreamableFile, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiProduces,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { UserRole } from '../users/enums/user-role.enum';
+import { ConsentService } from './consent.service';
+import { ConsentAuditQueryDto } from './dto/consent-audit-query.dto';
+import { ConsentRecord } from './entities/consent-record.entity';
+
+const serializeConsentRecord = (record: ConsentRecord) => ({
+  id: record.id,
+  recordedAt: record.recordedAt,
+  subjectEmail: record.subjectEmail,
+  subjectHash: record.subjectHash,
+  userId: record.userId,
+  type: record.type,
+  action: record.action,
+  policyVersion: record.policyVersion,
+  policyHash: record.policyHash,
+  language: record.language,
+  source: record.source,
+  referenceId: record.referenceId,
+  ipAddress: record.ipAddress,
+  userAgent: record.userAgent,
+});
+
+@ApiTags('admin / consents')
+@ApiBearerAuth('bearer')
+@ApiForbiddenResponse({ description: 'Wymagana rola administratora.' })
+@Controller('admin/consents')
+@UseGuards(AuthGuard('jwt'), RolesGuard)
+@Roles(UserRole.ADMIN)
+export class AdminConsentController {
+  constructor(private readonly consentService: ConsentService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Eksport rejestru zgód na potrzeby audytu',
+    description: 'Wpisy w kolejności chronologicznej, w formacie JSON lub CSV.',
+  })
+  @ApiProduces('application/json', 'text/csv')
+  @ApiOkResponse({ description: 'Wpisy rejestru zgód spełniające kryteria.' })
+  async export(@Query() query: ConsentAuditQueryDto) {
+    const records = await this.consentService.findForAudit(query);
+    if (query.format !== 'csv') {
+      return records.map(serializeConsentRecord);
+    }
+
+    const csv = Buffer.from(this.consentService.toCsv(records), 'utf8');
+    return new StreamableFile(csv, {
+      type: 'text/csv; charset=utf-8',
+      disposition: 'attachment; filename="consent-ledger.csv"',
+      length: csv.length,
+    });
+  }
+}
@@ -0,0 +1,68 @@
+import { createHash } from 'crypto';
+import {
+  DEFAULT_LANGUAGE,
+  SUPPORTED_LANGUAGES,
+  SupportedLanguage,
+  toSupportedLanguage,
+} from '../common/i18n/languages';
+import { ConsentType } from './enums/consent-type.enum';
+
+export type ConsentLanguage = SupportedLanguage;
+
+export interface ConsentPolicy {
+  type: ConsentType;
+  version: string;
+  language: ConsentLanguage;
+  text: string;
+  hash: string;
+}
+
+// Treść zgody pokazywana w formularzach. Zmiana tekstu wymaga nowej wersji - rejestr zgód zapisuje
+// wersję i skrót SHA-256 dokładnie tego tekstu, na który osoba się zgodziła.
+const CONSENT_TEXTS: Record<
+  ConsentType,
+  { version: string; text: Record<ConsentLanguage, string> }
+> = {
+  [ConsentType.GDPR]: {
+    version: '2025-05',
+    text: {
+      pl: 'Wyrażam zgodę na przetwarzanie moich danych osobowych przez Mariusza Sokołowskiego w celu obsługi mojego zapytania lub konta, zgodnie z polityką prywatności.',
+      de: 'Ich willige in die Verarbeitung meiner personenbezogenen Daten durch Mariusz Sokołowski zur Bearbeitung meiner Anfrage oder meines Kontos gemäß der Datenschutzerklärung ein.',
+      en: 'I consent to Mariusz Sokołowski processing my personal data in order to handle my enquiry or account, in accordance with the privacy policy.',
+      fr: "J'accepte que Mariusz Sokołowski traite mes données personnelles afin de donner suite à ma demande ou de gérer mon compte, conformément à la politique de confidentialité.",
+      it: 'Acconsento al trattamento dei miei dati personali da parte di Mariusz Sokołowski al fine di gestire la mia richiesta o il mio account, in conformità con l’informativa sulla privacy.',
+    },
+  },
+  [ConsentType.MARKETING]: {
+    version: '2025-05',
+    text: {
+      pl: 'Chcę otrzymywać newsletter i informacje o nowych usługach na podany adres e-mail. Zgodę mogę w każdej chwili wycofać.',
+      de: 'Ich möchte den Newsletter und Informationen über neue Leistungen an die angegebene E-Mail-Adresse erhalten. Die Einwilligung kann ich jederzeit widerrufen.',
+      en: 'I would like to receive the newsletter and information about new services at the e-mail address provided. I can withdraw my consent at any time.',
+      fr: "Je souhaite recevoir la newsletter et des informations sur les nouveaux services à l'adresse e-mail indiquée. Je peux retirer mon consentement à tout moment.",
+      it: 'Desidero ricevere la newsletter e informazioni sui nuovi servizi all’indirizzo e-mail indicato. Posso revocare il consenso in qualsiasi momento.',
+    },
+  },
+};
+
+export function normalizeConsentLanguage(language?: string): ConsentLanguage {
+  return toSupportedLanguage(language) ?? DEFAULT_LANGUAGE;
+}
+
+export function consentPolicy(type: ConsentType, language?: string): ConsentPolicy {
+  const normalized = normalizeConsentLanguage(language);
+  const { version, text } = CONSENT_TEXTS[type];
+  return {
+    type,
+    version,
+    language: normalized,
+    text: text[normalized],
+    hash: createHash('sha256').update(text[normalized]).digest('hex'),
+  };
+}
+
+export function consentPolicies(): ConsentPolicy[] {
+  return Object.values(ConsentType).flatMap((type) =>
+    SUPPORTED_LANGUAGES.map((language) => consentPolicy(type, language)),
+  );
+}
@@ -0,0 +1,15 @@
+import { Controller, Get } from '@nestjs/common';
+import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { consentPolicies } from './consent-policies';
+
+@ApiTags('consents')
+@Controller('consents')
+export class ConsentController {
+  // Formularze pokazują dokładnie ten tekst - jego wersja i skrót trafiają do rejestru zgód.
+  @Get('policies')
+  @ApiOperation({ summary: 'Aktualne treści zgód wraz z wersją i skrótem SHA-256' })
+  @ApiOkResponse({ description: 'Treści zgód w każdym obsługiwanym języku.' })
+  policies() {
+    return consentPolicies();
+  }
+}
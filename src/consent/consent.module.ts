@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CLOCK, systemClock } from '../common/clock/clock';
+import { AdminConsentController } from './admin-consent.controller';
+import { ConsentController } from './consent.controller';
+import { ConsentService } from './consent.service';
+import { ConsentRecord } from './entities/consent-record.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ConsentRecord])],
+  controllers: [ConsentController, AdminConsentController],
+  providers: [ConsentService, { provide: CLOCK, useValue: systemClock }],
+  exports: [ConsentService],
+})
+export class ConsentModule {}
@@ -0,0 +1,107 @@
+import { ConfigService } from '@nestjs/config'
+import { createHash } from 'crypto'
+import { Repository } from 'typeorm'
+import { Clock } from '../common/clock/clock'
+import { consentPolicy } from './consent-policies'
+import { ConsentService } from './consent.service'
+import { ConsentRecord } from './entities/consent-record.entity'
+import { ConsentAction } from './enums/consent-action.enum'
+import { ConsentType } from './enums/consent-type.enum'
+
+describe('ConsentService', () => {
+  const now = new Date('2025-05-01T09:00:00Z')
+
+  const createService = (records: ConsentRecord[] = []) => {
+    const configService = {
+      get: jest.fn().mockImplementation((_key: string, defaultValue: unknown) => defaultValue)
+    } as unknown as ConfigService
+
+    const recordsRepository = {
+      create: jest.fn().mockImplementation((data: Partial<ConsentRecord>) => ({ ...data })),
+      save: jest.fn().mockImplementation((entries: ConsentRecord[]) => Promise.resolve(entries)),
+      find: jest.fn().mockResolvedValue(records)
+    } as unknown as jest.Mocked<Repository<ConsentRecord>>
+
+    const clock: Clock = { now: () => now }
+
+    const service = new ConsentService(recordsRepository, configService, clock)
+    return { service, recordsRepository }
+  }
+
+  it('stores the policy version and the hash of the exact text that was shown', async () => {
+    const { service } = createService()
+
+    const [record] = await service.grant(
+      {
+        email: ' Anna@Example.com ',
+        language: 'de-CH',
+        source: 'contact-form',
+        ipAddress: '10.0.0.1'
+      },
+      [ConsentType.GDPR]
+    )
+
+    const policy = consentPolicy(ConsentType.GDPR, 'de')
+    expect(record).toMatchObject({
+      subjectEmail: 'anna@example.com',
+      subjectHash: service.hashSubject('anna@example.com'),
+      type: ConsentType.GDPR,
+      action: ConsentAction.GRANTED,
+      policyVersion: policy.version,
+      policyHash: createHash('sha256').update(policy.text).digest('hex'),
+      language: 'de',
+      ipAddress: '10.0.0.1',
+      recordedAt: now
+    })
+  })
+
+  it('reports the latest entry of every consent type as the current state', async () => {
+    const { service } = createService([
+      {
+        type: ConsentType.GDPR,
+        action: ConsentAction.GRANTED,
+        policyVersion: '2025-05',
+        recordedAt: now
+      },
+      {
+        type: ConsentType.MARKETING,
+        action: ConsentAction.GRANTED,
+        policyVersion: '2025-05',
+        recordedAt: now
+      },
+      {
+        type: ConsentType.MARKETING,
+        action: ConsentAction.WITHDRAWN,
+        policyVersion: '2025-05',
+        recordedAt: now
+      }
+    ] as ConsentRecord[])
+
+    await expect(service.currentState('anna@example.com')).resolves.toEqual([
+      { type: ConsentType.GDPR, granted: true, policyVersion: '2025-05', recordedAt: now },
+      { type: ConsentType.MARKETING, granted: false, policyVersion: '2025-05', recordedAt: now }
+    ])
+  })
+
+  it('exports the ledger as CSV that spreadsheets do not evaluate', () => {
+    const { service } = createService()
+
+    const csv = service.toCsv([
+      {
+        recordedAt: now,
+        subjectHash: 'hash',
+        type: ConsentType.GDPR,
+        action: ConsentAction.GRANTED,
+        policyVersion: '2025-05',
+        policyHash: 'abc',
+        language: 'pl',
+        source: 'contact-form',
+        userAgent: '=HYPERLINK("x"), "y"'
+      } as ConsentRecord
+    ])
+
+    expect(csv.split('\r\n')[1]).toEqual(
+      `2025-05-01T09:00:00.000Z,,hash,gdpr,granted,2025-05,abc,pl,contact-form,,,"'=HYPERLINK(""x""), ""y"""`
+    )
+  })
+})
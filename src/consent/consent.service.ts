@@ -0,0 +1,179 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { createHmac } from 'crypto';
+import { Repository } from 'typeorm';
+import { CLOCK, Clock } from '../common/clock/clock';
+import {
+  SupportedLanguage,
+  parseLanguageFallbacks,
+  resolveLanguage,
+} from '../common/i18n/languages';
+import { consentPolicy } from './consent-policies';
+import { ConsentAuditQueryDto } from './dto/consent-audit-query.dto';
+import { ConsentRecord, ConsentSource } from './entities/consent-record.entity';
+import { ConsentAction } from './enums/consent-action.enum';
+import { ConsentType } from './enums/consent-type.enum';
+
+export interface ConsentSubject {
+  email: string;
+  userId?: string;
+  language?: string;
+  source: ConsentSource;
+  referenceId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface ConsentState {
+  type: ConsentType;
+  granted: boolean;
+  policyVersion: string;
+  recordedAt: Date;
+}
+
+const CSV_COLUMNS = [
+  'recordedAt',
+  'subjectEmail',
+  'subjectHash',
+  'type',
+  'action',
+  'policyVersion',
+  'policyHash',
+  'language',
+  'source',
+  'referenceId',
+  'ipAddress',
+  'userAgent',
+] as const;
+
+@Injectable()
+export class ConsentService {
+  private readonly subjectSecret: string;
+  private readonly fallbacks: SupportedLanguage[];
+
+  constructor(
+    @InjectRepository(ConsentRecord)
+    private readonly recordsRepository: Repository<ConsentRecord>,
+    private readonly config: ConfigService,
+    @Inject(CLOCK) private readonly clock: Clock,
+  ) {
+    this.subjectSecret =
+      this.config.get<string>('CONSENT_SUBJECT_SECRET') ??
+      `${this.config.get<string>('JWT_SECRET', 'change-me')}:consent`;
+    this.fallbacks = parseLanguageFallbacks(this.config.get<string>('LANGUAGE_FALLBACKS'));
+  }
+
+  async grant(subject: ConsentSubject, types: ConsentType[]): Promise<ConsentRecord[]> {
+    return this.append(subject, types, ConsentAction.GRANTED);
+  }
+
+  async withdraw(subject: ConsentSubject, type: ConsentType): Promise<ConsentRecord> {
+    const [record] = await this.append(subject, [type], ConsentAction.WITHDRAWN);
+    return record;
+  }
+
+  async currentState(email: string): Promise<ConsentState[]> {
+    const records = await this.findForSubject(email);
+    const latest = new Map<ConsentType, ConsentRecord>();
+    for (const record of records) {
+      latest.set(record.type, record);
+    }
+
+    return [...latest.values()].map((record) => ({
+      type: record.type,
+      granted: record.action === ConsentAction.GRANTED,
+      policyVersion: record.policyVersion,
+      recordedAt: record.recordedAt,
+    }));
+  }
+
+  async findForSubject(email: string): Promise<ConsentRecord[]> {
+    return this.recordsRepository.find({
+      where: { subjectEmail: this.normalizeEmail(email) },
+      order: { recordedAt: 'ASC' },
+    });
+  }
+
+  // Audyt szuka po pseudonimie, żeby odnaleźć także wpisy osób, których dane zostały już usunięte.
+  async findForAudit(query: ConsentAuditQueryDto): Promise<ConsentRecord[]> {
+    const qb = this.recordsRepository.createQueryBuilder('record');
+
+    if (query.email) {
+      qb.andWhere('record.subjectHash = :subjectHash', {
+        subjectHash: this.hashSubject(query.email),
+      });
+    }
+    if (query.type) {
+      qb.andWhere('record.type = :type', { type: query.type });
+    }
+    if (query.recordedFrom) {
+      qb.andWhere('record.recordedAt >= :recordedFrom', { recordedFrom: query.recordedFrom });
+    }
+    if (query.recordedTo) {
+      qb.andWhere('record.recordedAt <= :recordedTo', { recordedTo: query.recordedTo });
+    }
+
+    return qb.orderBy('record.recordedAt', 'ASC').getMany();
+  }
+
+  toCsv(records: ConsentRecord[]): string {
+    const rows = records.map((record) =>
+      CSV_COLUMNS.map((column) => {
+        const value = record[column];
+        return escapeCsv(value instanceof Date ? value.toISOString() : value);
+      }).join(','),
+    );
+    return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+  }
+
+  hashSubject(email: string): string {
+    return createHmac('sha256', this.subjectSecret)
+      .update(this.normalizeEmail(email))
+      .digest('hex');
+  }
+
+  private async append(
+    subject: ConsentSubject,
+    types: ConsentType[],
+    action: ConsentAction,
+  ): Promise<ConsentRecord[]> {
+    const recordedAt = this.clock.now();
+    const email = this.normalizeEmail(subject.email);
+    const language = resolveLanguage(subject.language, this.fallbacks);
+
+    return this.recordsRepository.save(
+      types.map((type) => {
+        const policy = consentPolicy(type, language);
+        return this.recordsRepository.create({
+          subjectEmail: email,
+          subjectHash: this.hashSubject(email),
+          userId: subject.userId,
+          type,
+          action,
+          policyVersion: policy.version,
+          policyHash: policy.hash,
+          language: policy.language,
+          source: subject.source,
+          referenceId: subject.referenceId,
+          ipAddress: subject.ipAddress?.trim() || undefined,
+          userAgent: subject.userAgent?.trim().slice(0, 500) || undefined,
+          recordedAt,
+        });
+      }),
+    );
+  }
+
+  private normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+}
+
+// Apostrof na początku blokuje interpretację komórki jako formuły w arkuszu kalkulacyjnym.
+function escapeCsv(value: string | null | undefined): string {
+  if (!value) {
+    return '';
+  }
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
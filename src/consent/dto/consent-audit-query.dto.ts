@@ -0,0 +1,30 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDate, IsEmail, IsEnum, IsIn, IsOptional } from 'class-validator';
+import { ConsentType } from '../enums/consent-type.enum';
+
+export class ConsentAuditQueryDto {
+  @ApiPropertyOptional({ description: 'Adres osoby - działa także po usunięciu jej danych.' })
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @ApiPropertyOptional({ enum: ConsentType })
+  @IsOptional()
+  @IsEnum(ConsentType)
+  type?: ConsentType;
+
+  @ApiPropertyOptional({ type: String, format: 'date-time' })
+  @IsOptional()
+  @IsDate()
+  recordedFrom?: Date;
+
+  @ApiPropertyOptional({ type: String, format: 'date-time' })
+  @IsOptional()
+  @IsDate()
+  recordedTo?: Date;
+
+  @ApiPropertyOptional({ enum: ['json', 'csv'], default: 'json' })
+  @IsOptional()
+  @IsIn(['json', 'csv'])
+  format?: 'json' | 'csv';
+}
@@ -0,0 +1,61 @@
+import { Column, Entity, Index, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { ConsentLanguage } from '../consent-policies';
+import { ConsentAction } from '../enums/consent-action.enum';
+import { ConsentType } from '../enums/consent-type.enum';
+
+export type ConsentSource = 'contact-form' | 'account' | 'newsletter' | 'self-service';
+
+// Rejestr jest tylko do dopisywania - wycofanie zgody to nowy wpis, a nie zmiana poprzedniego.
+@Entity({ name: 'consent_records' })
+export class ConsentRecord {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  // Adres znika przy usunięciu danych osoby; pseudonim zostaje jako dowód zgody na potrzeby audytu.
+  @Column({ nullable: true })
+  @Index()
+  subjectEmail?: string;
+
+  @Column()
+  @Index()
+  subjectHash!: string;
+
+  @Column({ nullable: true })
+  userId?: string;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  user?: User;
+
+  @Column({ type: 'varchar' })
+  type!: ConsentType;
+
+  @Column({ type: 'varchar' })
+  action!: ConsentAction;
+
+  @Column()
+  policyVersion!: string;
+
+  @Column()
+  policyHash!: string;
+
+  @Column({ type: 'varchar', default: 'pl' })
+  language!: ConsentLanguage;
+
+  @Column({ type: 'varchar' })
+  source!: ConsentSource;
+
+  // Np. identyfikator zgłoszenia kontaktowego, przy którym udzielono zgody.
+  @Column({ nullable: true })
+  referenceId?: string;
+
+  @Column({ nullable: true })
+  ipAddress?: string;
+
+  @Column({ nullable: true })
+  userAgent?: string;
+
+  @Column()
+  @Index()
+  recordedAt!: Date;
+}
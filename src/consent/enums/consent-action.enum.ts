@@ -0,0 +1,4 @@
+export enum ConsentAction {
+  GRANTED = 'granted',
+  WITHDRAWN = 'withdrawn',
+}
@@ -0,0 +1,4 @@
+export enum ConsentType {
+  GDPR = 'gdpr',
+  MARKETING = 'marketing',
+}
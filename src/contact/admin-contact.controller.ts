@@ -0,0 +1,273 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Put,
+  Query,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiConsumes,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiProduces,
+  ApiTags,
+} from '@nestjs/swagger';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { AuthenticatedUser } from '../auth/interfaces/authenticated-user.interface';
+import { ErrorCode } from '../common/enums/error-code.enum';
+import { apiError } from '../common/i18n/api-messages';
+import { UserRole } from '../users/enums/user-role.enum';
+import { ContactAttachmentsService } from './attachments/contact-attachments.service';
+import { ContactInboxService } from './contact-inbox.service';
+import { ContactThreadsService } from './contact-threads.service';
+import { ContactService } from './contact.service';
+import { AssignContactDto } from './dto/assign-contact.dto';
+import { ContactSlaStatsQueryDto } from './dto/contact-sla-stats-query.dto';
+import { CreateContactNoteDto } from './dto/create-contact-note.dto';
+import { CreateContactReplyDto } from './dto/create-contact-reply.dto';
+import { ListContactSubmissionsQueryDto } from './dto/list-contact-submissions-query.dto';
+import { UpdateContactStatusDto } from './dto/update-contact-status.dto';
+import { UpdateContactTagsDto } from './dto/update-contact-tags.dto';
+import { ContactMessage } from './entities/contact-message.entity';
+import { ContactSubmission } from './entities/contact-submission.entity';
+import { ContactStatus } from './enums/contact-status.enum';
+import { parseRawEmail } from './inbound-email';
+import { ContactSlaService } from './sla/contact-sla.service';
+
+const serializeSubmission = (submission: ContactSubmission) => ({
+  id: submission.id,
+  status: submission.status,
+  name: submission.name,
+  email: submission.email,
+  phone: submission.phone,
+  company: submission.company,
+  subject: submission.subject,
+  category: submission.category,
+  priority: submission.priority,
+  preferredContact: submission.preferredContact,
+  budget: submission.budget,
+  timeline: submission.timeline,
+  marketingConsent: submission.marketingConsent,
+  assigneeId: submission.assigneeId,
+  tags: submission.tags,
+  spamReasons: submission.spamReasons,
+  slaDueAt: submission.slaDueAt,
+  firstResponseAt: submission.firstResponseAt,
+  slaBreachedAt: submission.slaBreachedAt,
+  notificationStatus: submission.notificationStatus,
+  acknowledgementStatus: submission.acknowledgementStatus,
+  createdAt: submission.createdAt,
+  updatedAt: submission.updatedAt,
+});
+
+const serializeMessage = (message: ContactMessage) => ({
+  id: message.id,
+  direction: message.direction,
+  messageId: message.messageId,
+  inReplyTo: message.inReplyTo,
+  fromEmail: message.fromEmail,
+  toEmail: message.toEmail,
+  subject: message.subject,
+  body: message.body,
+  deliveryStatus: message.deliveryStatus,
+  authorId: message.authorId,
+  createdAt: message.createdAt,
+});
+
+@ApiTags('admin / contact')
+@ApiBearerAuth('bearer')
+@ApiForbiddenResponse({ description: 'Wymagana rola administratora.' })
+@Controller('admin/contact')
+@UseGuards(AuthGuard('jwt'), RolesGuard)
+@Roles(UserRole.ADMIN)
+export class AdminContactController {
+  constructor(
+    private readonly inboxService: ContactInboxService,
+    private readonly contactService: ContactService,
+    private readonly threadsService: ContactThreadsService,
+    private readonly attachmentsService: ContactAttachmentsService,
+    private readonly slaService: ContactSlaService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Lista zgłoszeń z filtrami i paginacją' })
+  @ApiOkResponse({ description: 'Strona zgłoszeń wraz z łączną liczbą wyników.' })
+  async list(@Query() query: ListContactSubmissionsQueryDto) {
+    const result = await this.inboxService.findAll(query);
+    return {
+      ...result,
+      items: result.items.map(serializeSubmission),
+    };
+  }
+
+  @Get('stats')
+  @ApiOperation({
+    summary: 'Statystyki SLA zgłoszeń',
+    description:
+      'Mediana czasu pierwszej odpowiedzi i liczba przekroczonych terminów łącznie oraz w podziale na kategorie.',
+  })
+  @ApiOkResponse({ description: 'Cele SLA (w godzinach) i metryki zgłoszeń z wybranego okresu.' })
+  async stats(@Query() query: ContactSlaStatsQueryDto) {
+    return this.slaService.getStats(query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Szczegóły zgłoszenia z notatkami i historią zmian' })
+  @ApiNotFoundResponse({ description: 'Zgłoszenie nie istnieje.' })
+  async findOne(@Param('id', ParseUUIDPipe) id: string) {
+    const submission = await this.inboxService.findOne(id);
+    const messages = await this.threadsService.findMessages(submission.id);
+    return {
+      ...serializeSubmission(submission),
+      message: submission.message,
+      ipAddress: submission.ipAddress,
+      userAgent: submission.userAgent,
+      deliveryError: submission.deliveryError,
+      language: submission.language,
+      threadToken: submission.threadToken,
+      assignee: submission.assignee
+        ? { id: submission.assignee.id, email: submission.assignee.email }
+        : null,
+      notes: (submission.notes ?? []).map((note) => ({
+        id: note.id,
+        body: note.body,
+        authorId: note.authorId,
+        authorEmail: note.author?.email,
+        createdAt: note.createdAt,
+      })),
+      history: (submission.history ?? []).map((entry) => ({
+        id: entry.id,
+        action: entry.action,
+        fromValue: entry.fromValue,
+        toValue: entry.toValue,
+        actorId: entry.actorId,
+        actorEmail: entry.actor?.email,
+        createdAt: entry.createdAt,
+      })),
+      messages: messages.map(serializeMessage),
+      attachments: (submission.attachments ?? []).map((attachment) => ({
+        id: attachment.id,
+        filename: attachment.filename,
+        mimeType: attachment.mimeType,
+        size: attachment.size,
+        createdAt: attachment.createdAt,
+      })),
+    };
+  }
+
+  @Get(':id/attachments/:attachmentId')
+  @ApiOperation({ summary: 'Pobranie załącznika przesłanego w formularzu kontaktowym' })
+  @ApiProduces('application/octet-stream')
+  @ApiNotFoundResponse({ description: 'Załącznik nie istnieje.' })
+  async downloadAttachment(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('attachmentId', ParseUUIDPipe) attachmentId: string,
+  ) {
+    const { attachment, content } = await this.attachmentsService.read(id, attachmentId);
+    return new StreamableFile(content, {
+      type: attachment.mimeType,
+      disposition: `attachment; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`,
+      length: content.length,
+    });
+  }
+
+  @Patch(':id/status')
+  @ApiOperation({ summary: 'Zmiana statusu: new → in_progress → answered → closed' })
+  @ApiBadRequestResponse({ description: 'Niedozwolone przejście statusu.' })
+  @ApiNotFoundResponse({ description: 'Zgłoszenie nie istnieje.' })
+  async changeStatus(
+    @CurrentUser() admin: AuthenticatedUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateContactStatusDto,
+  ) {
+    const submission = await this.inboxService.changeStatus(id, dto.status, admin.userId);
+    if (submission.status === ContactStatus.NEW) {
+      await this.contactService.release(submission);
+    }
+    return serializeSubmission(submission);
+  }
+
+  @Patch(':id/assignee')
+  @ApiOperation({ summary: 'Przypisanie zgłoszenia do administratora' })
+  @ApiNotFoundResponse({ description: 'Zgłoszenie nie istnieje.' })
+  async assign(
+    @CurrentUser() admin: AuthenticatedUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: AssignContactDto,
+  ) {
+    return serializeSubmission(await this.inboxService.assign(id, dto.assigneeId, admin.userId));
+  }
+
+  @Put(':id/tags')
+  @ApiOperation({ summary: 'Ustawienie tagów zgłoszenia' })
+  @ApiNotFoundResponse({ description: 'Zgłoszenie nie istnieje.' })
+  async setTags(
+    @CurrentUser() admin: AuthenticatedUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateContactTagsDto,
+  ) {
+    return serializeSubmission(await this.inboxService.setTags(id, dto.tags, admin.userId));
+  }
+
+  @Post(':id/notes')
+  @ApiOperation({ summary: 'Dodanie wewnętrznej notatki do zgłoszenia' })
+  @ApiNotFoundResponse({ description: 'Zgłoszenie nie istnieje.' })
+  async addNote(
+    @CurrentUser() admin: AuthenticatedUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: CreateContactNoteDto,
+  ) {
+    const note = await this.inboxService.addNote(id, dto.body, admin.userId);
+    return {
+      id: note.id,
+      body: note.body,
+      authorId: note.authorId,
+      createdAt: note.createdAt,
+    };
+  }
+
+  @Post(':id/replies')
+  @ApiOperation({
+    summary: 'Odpowiedź do zgłaszającego w wątku zgłoszenia',
+    description:
+      'Wysyła e-mail w języku zgłaszającego z nagłówkami In-Reply-To/References i zapisuje go w wątku.',
+  })
+  @ApiNotFoundResponse({ description: 'Zgłoszenie nie istnieje.' })
+  async reply(
+    @CurrentUser() admin: AuthenticatedUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: CreateContactReplyDto,
+  ) {
+    return serializeMessage(await this.threadsService.reply(id, dto.body, admin.userId));
+  }
+
+  @Post('inbound')
+  @ApiConsumes('message/rfc822', 'text/plain')
+  @ApiOperation({
+    summary: 'Import surowej wiadomości e-mail (RFC 822) do wątku zgłoszenia',
+    description:
+      'Odpowiednik webhooka Mailjet Parse do testów lokalnych - wiadomość trafia do wątku wskazanego tokenem w adresie lub temacie.',
+  })
+  @ApiBadRequestResponse({ description: 'Treść nie jest poprawną wiadomością e-mail.' })
+  async importRawEmail(@Body() raw: unknown) {
+    const email = typeof raw === 'string' ? parseRawEmail(raw) : null;
+    if (!email) {
+      throw new BadRequestException(apiError(ErrorCode.EMAIL_UPLOAD_INVALID));
+    }
+    return this.threadsService.ingest(email);
+  }
+}
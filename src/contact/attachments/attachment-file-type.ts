@@ -0,0 +1,84 @@
+interface AllowedFileType {
+  mimeType: string;
+  extensions: string[];
+  signature?: number[];
+}
+
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+
+// Dokumenty DOCX i ODT to archiwa ZIP - rozróżniamy je po rozszerzeniu dopiero po potwierdzeniu sygnatury.
+const ALLOWED_FILE_TYPES: AllowedFileType[] = [
+  { mimeType: 'application/pdf', extensions: ['pdf'], signature: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  {
+    mimeType: 'application/msword',
+    extensions: ['doc'],
+    signature: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1],
+  },
+  {
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    extensions: ['docx'],
+    signature: ZIP_SIGNATURE,
+  },
+  {
+    mimeType: 'application/vnd.oasis.opendocument.text',
+    extensions: ['odt'],
+    signature: ZIP_SIGNATURE,
+  },
+  {
+    mimeType: 'image/png',
+    extensions: ['png'],
+    signature: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  },
+  { mimeType: 'image/jpeg', extensions: ['jpg', 'jpeg'], signature: [0xff, 0xd8, 0xff] },
+  { mimeType: 'text/plain', extensions: ['txt'] },
+];
+
+export const ALLOWED_ATTACHMENT_LABEL = 'PDF, DOC, DOCX, ODT, TXT, PNG, JPG';
+
+export function detectAttachmentMimeType(content: Buffer, filename: string): string | null {
+  const extension = filename.toLowerCase().split('.').pop() ?? '';
+  const type = ALLOWED_FILE_TYPES.find((candidate) => candidate.extensions.includes(extension));
+  if (!type) {
+    return null;
+  }
+
+  if (type.signature) {
+    return type.signature.every((byte, index) => content[index] === byte) ? type.mimeType : null;
+  }
+
+  return isPlainText(content) ? type.mimeType : null;
+}
+
+export function sanitizeAttachmentFilename(originalName: string): string {
+  // Multer odczytuje nazwę pliku jako latin1, przeglądarki wysyłają ją w UTF-8.
+  const decoded = Buffer.from(originalName, 'latin1').toString('utf8');
+  const name = (decoded.includes('\uFFFD') ? originalName : decoded)
+    .normalize('NFC')
+    .split(/[\\/]/)
+    .pop()
+    ?.replace(/[\u0000-\u001f\u007f<>:"|?*]/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/^[.\s]+/, '')
+    .trim();
+
+  if (!name) {
+    return 'zalacznik';
+  }
+
+  const dot = name.lastIndexOf('.');
+  const extension = dot > 0 ? name.slice(dot) : '';
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  return `${base.slice(0, 100 - extension.length).trim()}${extension}`;
+}
+
+function isPlainText(content: Buffer): boolean {
+  if (content.includes(0)) {
+    return false;
+  }
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(content);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,8 @@
+export const ATTACHMENT_STORAGE = Symbol('ATTACHMENT_STORAGE');
+
+// Magazyn plików załączników; klucz jest generowany przez aplikację i nie pochodzi od użytkownika.
+export interface AttachmentStorage {
+  save(key: string, content: Buffer): Promise<void>;
+  read(key: string): Promise<Buffer>;
+  remove(key: string): Promise<void>;
+}
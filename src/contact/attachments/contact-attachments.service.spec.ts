@@ -0,0 +1,84 @@
+import { BadRequestException } from '@nestjs/common'
+import { Repository } from 'typeorm'
+import { ContactAttachment } from '../entities/contact-attachment.entity'
+import { sanitizeAttachmentFilename } from './attachment-file-type'
+import { AttachmentStorage } from './attachment-storage.interface'
+import { ContactAttachmentsService } from './contact-attachments.service'
+
+describe('ContactAttachmentsService', () => {
+  const upload = (originalname: string, buffer: Buffer, mimetype = 'application/octet-stream') =>
+    ({ originalname, buffer, mimetype, size: buffer.length }) as Express.Multer.File
+
+  const pdf = Buffer.from('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n', 'latin1')
+
+  const createService = () => {
+    const attachmentsRepository = {
+      create: jest.fn().mockImplementation((data: Partial<ContactAttachment>) => ({ ...data })),
+      save: jest
+        .fn()
+        .mockImplementation((attachment: ContactAttachment) =>
+          Promise.resolve({ ...attachment, createdAt: new Date() })
+        )
+    } as unknown as jest.Mocked<Repository<ContactAttachment>>
+
+    const storage: jest.Mocked<AttachmentStorage> = {
+      save: jest.fn().mockResolvedValue(undefined),
+      read: jest.fn().mockResolvedValue(pdf),
+      remove: jest.fn().mockResolvedValue(undefined)
+    }
+
+    const service = new ContactAttachmentsService(attachmentsRepository, storage)
+    return { service, attachmentsRepository, storage }
+  }
+
+  it('detects the type from the file content instead of the declared MIME type', () => {
+    const { service } = createService()
+
+    const [prepared] = service.prepare([upload('oferta.pdf', pdf, 'text/html')])
+
+    expect(prepared).toEqual({ filename: 'oferta.pdf', mimeType: 'application/pdf', content: pdf })
+  })
+
+  it('rejects files whose content does not match the extension', () => {
+    const { service } = createService()
+
+    expect(() =>
+      service.prepare([upload('faktura.pdf', Buffer.from('MZ\x90\x00', 'latin1'))])
+    ).toThrow(BadRequestException)
+    expect(() =>
+      service.prepare([upload('skrypt.exe', Buffer.from('MZ\x90\x00', 'latin1'))])
+    ).toThrow(BadRequestException)
+    expect(() => service.prepare([upload('notatka.txt', Buffer.from([0x68, 0x00, 0x69]))])).toThrow(
+      BadRequestException
+    )
+  })
+
+  it('sanitises file names sent by the browser', () => {
+    expect(sanitizeAttachmentFilename('C:\\Users\\jan\\..\\oferta<1>.pdf')).toEqual('oferta1.pdf')
+    expect(
+      sanitizeAttachmentFilename(Buffer.from('Wycena łódź.pdf', 'utf8').toString('latin1'))
+    ).toEqual('Wycena łódź.pdf')
+    expect(sanitizeAttachmentFilename('../../.env')).toEqual('env')
+    expect(sanitizeAttachmentFilename(`${'a'.repeat(300)}.pdf`)).toHaveLength(100)
+    expect(sanitizeAttachmentFilename('\u0000')).toEqual('zalacznik')
+  })
+
+  it('stores files under keys generated from the submission id', async () => {
+    const { service, storage, attachmentsRepository } = createService()
+
+    const [stored] = await service.store(
+      'submission-1',
+      service.prepare([upload('oferta.pdf', pdf)])
+    )
+
+    expect(storage.save).toHaveBeenCalledWith(`submission-1/${stored.id}`, pdf)
+    expect(attachmentsRepository.save).toHaveBeenCalledWith(
+      expect.objectContaining({
+        submissionId: 'submission-1',
+        filename: 'oferta.pdf',
+        mimeType: 'application/pdf',
+        size: pdf.length
+      })
+    )
+  })
+})
@@ -0,0 +1,108 @@
+import { BadRequestException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { randomUUID } from 'crypto';
+import { In, Repository } from 'typeorm';
+import { ErrorCode } from '../../common/enums/error-code.enum';
+import { apiError } from '../../common/i18n/api-messages';
+import { ContactAttachment } from '../entities/contact-attachment.entity';
+import {
+  ALLOWED_ATTACHMENT_LABEL,
+  detectAttachmentMimeType,
+  sanitizeAttachmentFilename,
+} from './attachment-file-type';
+import { ATTACHMENT_STORAGE, AttachmentStorage } from './attachment-storage.interface';
+
+export interface PreparedAttachment {
+  filename: string;
+  mimeType: string;
+  content: Buffer;
+}
+
+@Injectable()
+export class ContactAttachmentsService {
+  constructor(
+    @InjectRepository(ContactAttachment)
+    private readonly attachmentsRepository: Repository<ContactAttachment>,
+    @Inject(ATTACHMENT_STORAGE) private readonly storage: AttachmentStorage,
+  ) {}
+
+  // Limity liczby i rozmiaru plików egzekwuje multer (MulterModule), tu sprawdzamy zawartość.
+  prepare(files: Express.Multer.File[] = []): PreparedAttachment[] {
+    return files.map((file) => {
+      const filename = sanitizeAttachmentFilename(file.originalname);
+      if (!file.size) {
+        throw new BadRequestException(apiError(ErrorCode.ATTACHMENT_EMPTY, { filename }));
+      }
+
+      const mimeType = detectAttachmentMimeType(file.buffer, filename);
+      if (!mimeType) {
+        throw new BadRequestException(
+          apiError(ErrorCode.ATTACHMENT_TYPE_NOT_ALLOWED, {
+            filename,
+            allowed: ALLOWED_ATTACHMENT_LABEL,
+          }),
+        );
+      }
+
+      return { filename, mimeType, content: file.buffer };
+    });
+  }
+
+  async store(
+    submissionId: string,
+    attachments: PreparedAttachment[],
+  ): Promise<ContactAttachment[]> {
+    const stored: ContactAttachment[] = [];
+    for (const attachment of attachments) {
+      const id = randomUUID();
+      const storageKey = `${submissionId}/${id}`;
+      await this.storage.save(storageKey, attachment.content);
+      stored.push(
+        await this.attachmentsRepository.save(
+          this.attachmentsRepository.create({
+            id,
+            submissionId,
+            storageKey,
+            filename: attachment.filename,
+            mimeType: attachment.mimeType,
+            size: attachment.content.length,
+          }),
+        ),
+      );
+    }
+    return stored;
+  }
+
+  async findForSubmissions(submissionIds: string[]): Promise<ContactAttachment[]> {
+    if (!submissionIds.length) {
+      return [];
+    }
+    return this.attachmentsRepository.find({
+      where: { submissionId: In(submissionIds) },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  async read(
+    submissionId: string,
+    attachmentId: string,
+  ): Promise<{ attachment: ContactAttachment; content: Buffer }> {
+    const attachment = await this.attachmentsRepository.findOne({
+      where: { id: attachmentId, submissionId },
+    });
+    if (!attachment) {
+      throw new NotFoundException(apiError(ErrorCode.ATTACHMENT_NOT_FOUND));
+    }
+    return { attachment, content: await this.readContent(attachment) };
+  }
+
+  async readContent(attachment: ContactAttachment): Promise<Buffer> {
+    return this.storage.read(attachment.storageKey);
+  }
+
+  async removeFiles(attachments: ContactAttachment[]): Promise<void> {
+    for (const attachment of attachments) {
+      await this.storage.remove(attachment.storageKey);
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import { AttachmentStorage } from './attachment-storage.interface';
+
+const STORAGE_KEY_PATTERN = /^[0-9a-f-]+(\/[0-9a-f-]+)*$/;
+
+@Injectable()
+export class LocalDiskAttachmentStorage implements AttachmentStorage {
+  private readonly root: string;
+
+  constructor(private readonly config: ConfigService) {
+    this.root = resolve(this.config.get<string>('CONTACT_ATTACHMENTS_DIR', './data/attachments'));
+  }
+
+  async save(key: string, content: Buffer): Promise<void> {
+    const path = this.resolvePath(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, content, { flag: 'wx' });
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return readFile(this.resolvePath(key));
+  }
+
+  async remove(key: string): Promise<void> {
+    await rm(this.resolvePath(key), { force: true });
+  }
+
+  private resolvePath(key: string): string {
+    if (!STORAGE_KEY_PATTERN.test(key)) {
+      throw new Error(`Invalid attachment storage key: ${key}`);
+    }
+    return join(this.root, key);
+  }
+}
@@ -0,0 +1,33 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { SkipThrottle } from '@nestjs/throttler';
+import { ErrorCode } from '../common/enums/error-code.enum';
+import { apiError } from '../common/i18n/api-messages';
+import { ContactThreadsService } from './contact-threads.service';
+import { InboundWebhookGuard } from './guards/inbound-webhook.guard';
+import { parseMailjetInbound } from './inbound-email';
+
+@Controller('contact/inbound')
+@UseGuards(InboundWebhookGuard)
+@SkipThrottle()
+export class ContactInboundController {
+  constructor(private readonly threadsService: ContactThreadsService) {}
+
+  // Mailjet ponawia dostarczenie przy każdej odpowiedzi innej niż 200, więc nieprzypisane wiadomości też potwierdzamy.
+  @Post('mailjet')
+  @HttpCode(HttpStatus.OK)
+  async receiveFromMailjet(@Body() payload: Record<string, unknown>) {
+    const email = parseMailjetInbound(payload);
+    if (!email) {
+      throw new BadRequestException(apiError(ErrorCode.INBOUND_EMAIL_INVALID));
+    }
+    return this.threadsService.ingest(email);
+  }
+}
@@ -0,0 +1,170 @@
+import { BadRequestException } from '@nestjs/common'
+import { DataSource, Repository } from 'typeorm'
+import { LoginToken } from '../auth/entities/login-token.entity'
+import { Session } from '../auth/entities/session.entity'
+import { User } from '../users/entities/user.entity'
+import { UserRole } from '../users/enums/user-role.enum'
+import { ContactInboxService } from './contact-inbox.service'
+import { ContactAttachment } from './entities/contact-attachment.entity'
+import { ContactHistoryEntry } from './entities/contact-history-entry.entity'
+import { ContactMessage } from './entities/contact-message.entity'
+import { ContactNote } from './entities/contact-note.entity'
+import { ContactSubmission } from './entities/contact-submission.entity'
+import { ContactCategory, ContactPriority, PreferredContactMethod } from './dto/submit-contact.dto'
+import { ContactStatus } from './enums/contact-status.enum'
+import { ContactSlaService } from './sla/contact-sla.service'
+
+describe('ContactInboxService', () => {
+  const createService = (submission: Partial<ContactSubmission>, assignee: User | null = null) => {
+    const submissionsRepository = {
+      findOne: jest.fn().mockResolvedValue({ id: 'submission-1', tags: [], ...submission }),
+      update: jest.fn().mockResolvedValue({ affected: 1 })
+    } as unknown as jest.Mocked<Repository<ContactSubmission>>
+
+    const historyRepository = {
+      create: jest.fn().mockImplementation((data: Partial<ContactHistoryEntry>) => data),
+      save: jest.fn().mockImplementation((entry: ContactHistoryEntry) => Promise.resolve(entry))
+    } as unknown as jest.Mocked<Repository<ContactHistoryEntry>>
+
+    const usersRepository = {
+      findOne: jest.fn().mockResolvedValue(assignee)
+    } as unknown as Repository<User>
+
+    const slaService = {
+      dueAt: jest.fn().mockReturnValue(new Date('2025-01-02T10:00:00Z'))
+    } as unknown as ContactSlaService
+
+    const service = new ContactInboxService(
+      submissionsRepository,
+      {} as Repository<ContactNote>,
+      historyRepository,
+      usersRepository,
+      slaService
+    )
+    return { service, submissionsRepository, historyRepository }
+  }
+
+  it('moves an inquiry forward and records the change in its history', async () => {
+    const { service, submissionsRepository, historyRepository } = createService({
+      status: ContactStatus.NEW
+    })
+
+    const result = await service.changeStatus('submission-1', ContactStatus.IN_PROGRESS, 'admin-1')
+
+    expect(result.status).toEqual(ContactStatus.IN_PROGRESS)
+    expect(submissionsRepository.update).toHaveBeenCalledWith('submission-1', {
+      status: ContactStatus.IN_PROGRESS
+    })
+    expect(historyRepository.create).toHaveBeenCalledWith({
+      submissionId: 'submission-1',
+      actorId: 'admin-1',
+      action: 'status',
+      fromValue: ContactStatus.NEW,
+      toValue: ContactStatus.IN_PROGRESS
+    })
+  })
+
+  it('rejects transitions outside of the workflow', async () => {
+    const { service, submissionsRepository } = createService({ status: ContactStatus.NEW })
+
+    await expect(
+      service.changeStatus('submission-1', ContactStatus.ANSWERED, 'admin-1')
+    ).rejects.toBeInstanceOf(BadRequestException)
+    expect(submissionsRepository.update).not.toHaveBeenCalled()
+  })
+
+  it('only assigns inquiries to admins', async () => {
+    const visitor = { id: 'user-2', roles: [UserRole.VISITOR] } as User
+    const { service } = createService({ status: ContactStatus.NEW }, visitor)
+
+    await expect(service.assign('submission-1', 'user-2', 'admin-1')).rejects.toBeInstanceOf(
+      BadRequestException
+    )
+  })
+
+  it('normalizes and deduplicates tags', async () => {
+    const { service, submissionsRepository } = createService({ tags: ['oferta'] })
+
+    const result = await service.setTags('submission-1', [' Pilne ', 'pilne', 'Oferta'], 'admin-1')
+
+    expect(result.tags).toEqual(['pilne', 'oferta'])
+    expect(submissionsRepository.update).toHaveBeenCalledWith('submission-1', {
+      tags: ['pilne', 'oferta']
+    })
+  })
+
+  it('stops the SLA clock on the first answer and restarts it for inquiries released from spam', async () => {
+    const answered = createService({ status: ContactStatus.IN_PROGRESS })
+    await answered.service.changeStatus('submission-1', ContactStatus.ANSWERED, 'admin-1')
+    expect(answered.submissionsRepository.update).toHaveBeenCalledWith('submission-1', {
+      status: ContactStatus.ANSWERED,
+      firstResponseAt: expect.any(Date)
+    })
+
+    const released = createService({ status: ContactStatus.SPAM, priority: ContactPriority.HIGH })
+    const result = await released.service.changeStatus('submission-1', ContactStatus.NEW, 'admin-1')
+    expect(result.slaDueAt).toEqual(new Date('2025-01-02T10:00:00Z'))
+  })
+
+  describe('with a database', () => {
+    let dataSource: DataSource
+
+    beforeEach(async () => {
+      dataSource = new DataSource({
+        type: 'sqlite',
+        database: ':memory:',
+        entities: [
+          ContactSubmission,
+          ContactNote,
+          ContactHistoryEntry,
+          ContactMessage,
+          ContactAttachment,
+          User,
+          LoginToken,
+          Session
+        ],
+        synchronize: true
+      })
+      await dataSource.initialize()
+    })
+
+    afterEach(async () => {
+      await dataSource.destroy()
+    })
+
+    it('matches LIKE wildcards in the tag filter literally', async () => {
+      const submissionsRepository = dataSource.getRepository(ContactSubmission)
+      const service = new ContactInboxService(
+        submissionsRepository,
+        dataSource.getRepository(ContactNote),
+        dataSource.getRepository(ContactHistoryEntry),
+        dataSource.getRepository(User),
+        {} as ContactSlaService
+      )
+      for (const tags of [['oferta'], ['50%_rabat'], ['pilne', 'a_b']]) {
+        await submissionsRepository.save(
+          submissionsRepository.create({
+            name: 'Anna',
+            email: 'anna@example.com',
+            subject: 'Zapytanie',
+            message: 'Treść',
+            category: ContactCategory.GENERAL,
+            priority: ContactPriority.MEDIUM,
+            preferredContact: PreferredContactMethod.EMAIL,
+            gdprConsent: true,
+            tags
+          })
+        )
+      }
+
+      const tagsOf = async (tag: string) =>
+        (await service.findAll({ tag })).items.map((submission) => submission.tags)
+
+      await expect(tagsOf('_')).resolves.toEqual([])
+      await expect(tagsOf('%')).resolves.toEqual([])
+      await expect(tagsOf('50%_rabat')).resolves.toEqual([['50%_rabat']])
+      await expect(tagsOf('a_b')).resolves.toEqual([['pilne', 'a_b']])
+      await expect(tagsOf('axb')).resolves.toEqual([])
+    })
+  })
+})
@@ -0,0 +1,274 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Brackets, Repository } from 'typeorm';
+import { ErrorCode } from '../common/enums/error-code.enum';
+import { apiError } from '../common/i18n/api-messages';
+import { User } from '../users/entities/user.entity';
+import { UserRole } from '../users/enums/user-role.enum';
+import { ListContactSubmissionsQueryDto } from './dto/list-contact-submissions-query.dto';
+import { ContactHistoryAction, ContactHistoryEntry } from './entities/contact-history-entry.entity';
+import { ContactNote } from './entities/contact-note.entity';
+import { ContactSubmission } from './entities/contact-submission.entity';
+import { CONTACT_STATUS_TRANSITIONS, ContactStatus } from './enums/contact-status.enum';
+import { ContactSlaService } from './sla/contact-sla.service';
+
+export interface PaginatedContactSubmissions {
+  items: ContactSubmission[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+@Injectable()
+export class ContactInboxService {
+  constructor(
+    @InjectRepository(ContactSubmission)
+    private readonly submissionsRepository: Repository<ContactSubmission>,
+    @InjectRepository(ContactNote)
+    private readonly notesRepository: Repository<ContactNote>,
+    @InjectRepository(ContactHistoryEntry)
+    private readonly historyRepository: Repository<ContactHistoryEntry>,
+    @InjectRepository(User)
+    private readonly usersRepository: Repository<User>,
+    private readonly slaService: ContactSlaService,
+  ) {}
+
+  async findAll(query: ListContactSubmissionsQueryDto): Promise<PaginatedContactSubmissions> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 20;
+    const qb = this.submissionsRepository.createQueryBuilder('submission');
+
+    if (query.status) {
+      qb.andWhere('submission.status = :status', { status: query.status });
+    } else {
+      // Kwarantanna jest widoczna tylko po jawnym wybraniu statusu "spam".
+      qb.andWhere('submission.status != :spam', { spam: ContactStatus.SPAM });
+    }
+    if (query.category) {
+      qb.andWhere('submission.category = :category', { category: query.category });
+    }
+    if (query.priority) {
+      qb.andWhere('submission.priority = :priority', { priority: query.priority });
+    }
+    if (query.assigneeId) {
+      qb.andWhere('submission.assigneeId = :assigneeId', { assigneeId: query.assigneeId });
+    }
+    if (query.tag) {
+      // simple-array trzyma tagi jako "a,b,c" - przecinki na brzegach pozwalają dopasować cały tag.
+      qb.andWhere(`(',' || submission.tags || ',') LIKE :tag ESCAPE '\\'`, {
+        tag: `%,${this.escapeLikePattern(this.normalizeTag(query.tag))},%`,
+      });
+    }
+    if (query.createdFrom) {
+      qb.andWhere('submission.createdAt >= :createdFrom', { createdFrom: query.createdFrom });
+    }
+    if (query.createdTo) {
+      qb.andWhere('submission.createdAt <= :createdTo', { createdTo: query.createdTo });
+    }
+
+    const search = query.search?.trim().toLowerCase();
+    if (search) {
+      qb.andWhere(
+        new Brackets((where) => {
+          where
+            .where('LOWER(submission.name) LIKE :search')
+            .orWhere('LOWER(submission.email) LIKE :search')
+            .orWhere('LOWER(submission.company) LIKE :search')
+            .orWhere('LOWER(submission.subject) LIKE :search');
+        }),
+        { search: `%${search}%` },
+      );
+    }
+
+    const [items, total] = await qb
+      .orderBy('submission.createdAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return { items, total, page, limit };
+  }
+
+  async findOne(id: string): Promise<ContactSubmission> {
+    const submission = await this.submissionsRepository.findOne({
+      where: { id },
+      relations: {
+        assignee: true,
+        notes: { author: true },
+        history: { actor: true },
+        attachments: true,
+      },
+      order: {
+        notes: { createdAt: 'ASC' },
+        history: { createdAt: 'ASC' },
+        attachments: { createdAt: 'ASC' },
+      },
+    });
+
+    if (!submission) {
+      throw new NotFoundException(apiError(ErrorCode.CONTACT_SUBMISSION_NOT_FOUND));
+    }
+
+    return submission;
+  }
+
+  async changeStatus(
+    id: string,
+    status: ContactStatus,
+    actorId: string,
+  ): Promise<ContactSubmission> {
+    const submission = await this.loadSubmission(id);
+
+    if (submission.status === status) {
+      return submission;
+    }
+
+    if (!CONTACT_STATUS_TRANSITIONS[submission.status].includes(status)) {
+      throw new BadRequestException(
+        apiError(ErrorCode.CONTACT_STATUS_TRANSITION_NOT_ALLOWED, {
+          from: submission.status,
+          to: status,
+        }),
+      );
+    }
+
+    const changes = { status, ...this.slaChanges(submission, status) };
+    await this.submissionsRepository.update(submission.id, changes);
+    await this.recordHistory(submission.id, actorId, 'status', submission.status, status);
+    return { ...submission, ...changes };
+  }
+
+  // Wysłana odpowiedź oznacza zgłoszenie jako obsłużone niezależnie od bieżącego etapu.
+  async markAnswered(submission: ContactSubmission, actorId: string): Promise<void> {
+    if (submission.status !== ContactStatus.ANSWERED) {
+      await this.moveTo(submission, ContactStatus.ANSWERED, actorId);
+    }
+  }
+
+  // Nowa wiadomość od zgłaszającego wraca do pracy, nawet jeśli zgłoszenie było już zamknięte.
+  async reopen(submission: ContactSubmission): Promise<void> {
+    if (
+      submission.status === ContactStatus.ANSWERED ||
+      submission.status === ContactStatus.CLOSED
+    ) {
+      await this.moveTo(submission, ContactStatus.IN_PROGRESS);
+    }
+  }
+
+  async assign(id: string, assigneeId: string | null, actorId: string): Promise<ContactSubmission> {
+    const submission = await this.loadSubmission(id);
+
+    if ((submission.assigneeId ?? null) === assigneeId) {
+      return submission;
+    }
+
+    if (assigneeId) {
+      const assignee = await this.usersRepository.findOne({ where: { id: assigneeId } });
+      if (!assignee?.roles.includes(UserRole.ADMIN)) {
+        throw new BadRequestException(apiError(ErrorCode.CONTACT_ASSIGNEE_NOT_ADMIN));
+      }
+    }
+
+    await this.submissionsRepository.update(submission.id, {
+      assigneeId: assigneeId ?? (() => 'NULL'),
+    });
+    await this.recordHistory(
+      submission.id,
+      actorId,
+      'assignee',
+      submission.assigneeId,
+      assigneeId ?? undefined,
+    );
+    return { ...submission, assigneeId: assigneeId ?? undefined };
+  }
+
+  async setTags(id: string, tags: string[], actorId: string): Promise<ContactSubmission> {
+    const submission = await this.loadSubmission(id);
+    const normalized = [...new Set(tags.map((tag) => this.normalizeTag(tag)).filter(Boolean))];
+
+    if (normalized.join(',') === submission.tags.join(',')) {
+      return submission;
+    }
+
+    await this.submissionsRepository.update(submission.id, { tags: normalized });
+    await this.recordHistory(
+      submission.id,
+      actorId,
+      'tags',
+      submission.tags.join(', ') || undefined,
+      normalized.join(', ') || undefined,
+    );
+    return { ...submission, tags: normalized };
+  }
+
+  async addNote(id: string, body: string, authorId: string): Promise<ContactNote> {
+    const submission = await this.loadSubmission(id);
+    const note = await this.notesRepository.save(
+      this.notesRepository.create({
+        submissionId: submission.id,
+        authorId,
+        body: body.trim(),
+      }),
+    );
+    await this.recordHistory(submission.id, authorId, 'note', undefined, note.id);
+    return note;
+  }
+
+  private async loadSubmission(id: string): Promise<ContactSubmission> {
+    const submission = await this.submissionsRepository.findOne({ where: { id } });
+    if (!submission) {
+      throw new NotFoundException(apiError(ErrorCode.CONTACT_SUBMISSION_NOT_FOUND));
+    }
+    return submission;
+  }
+
+  private async moveTo(
+    submission: ContactSubmission,
+    status: ContactStatus,
+    actorId?: string,
+  ): Promise<void> {
+    const changes = { status, ...this.slaChanges(submission, status) };
+    await this.submissionsRepository.update(submission.id, changes);
+    await this.recordHistory(submission.id, actorId, 'status', submission.status, status);
+    Object.assign(submission, changes);
+  }
+
+  // Pierwsza odpowiedź zamyka licznik SLA; zwolnione z kwarantanny dostaje termin od teraz.
+  private slaChanges(
+    submission: ContactSubmission,
+    status: ContactStatus,
+  ): Partial<ContactSubmission> {
+    if (status === ContactStatus.ANSWERED && !submission.firstResponseAt) {
+      return { firstResponseAt: new Date() };
+    }
+    if (
+      submission.status === ContactStatus.SPAM &&
+      status === ContactStatus.NEW &&
+      !submission.slaDueAt
+    ) {
+      return { slaDueAt: this.slaService.dueAt(submission.priority) };
+    }
+    return {};
+  }
+
+  private async recordHistory(
+    submissionId: string,
+    actorId: string | undefined,
+    action: ContactHistoryAction,
+    fromValue?: string,
+    toValue?: string,
+  ): Promise<void> {
+    await this.historyRepository.save(
+      this.historyRepository.create({ submissionId, actorId, action, fromValue, toValue }),
+    );
+  }
+
+  private normalizeTag(tag: string): string {
+    return tag.trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+
+  // "%" i "_" w tagu mają pasować dosłownie, a nie jako symbole wieloznaczne LIKE.
+  private escapeLikePattern(value: string): string {
+    return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+  }
+}
@@ -0,0 +1,219 @@
+import { ConfigService } from '@nestjs/config'
+import { Repository } from 'typeorm'
+import { MailService } from '../mail/mail.service'
+import { ContactInboxService } from './contact-inbox.service'
+import { ContactThreadsService } from './contact-threads.service'
+import { ContactMessage } from './entities/contact-message.entity'
+import { ContactSubmission } from './entities/contact-submission.entity'
+import { ContactDeliveryStatus } from './enums/contact-delivery-status.enum'
+import { ContactStatus } from './enums/contact-status.enum'
+import { InboundEmail } from './inbound-email'
+
+describe('ContactThreadsService', () => {
+  const createService = (
+    options: {
+      messages?: Partial<ContactMessage>[]
+      mailError?: Error
+      existing?: Partial<ContactMessage>
+    } = {}
+  ) => {
+    const submission = {
+      id: 'submission-1',
+      name: 'Jan Kowalski',
+      email: 'jan@example.com',
+      subject: 'Współpraca',
+      message: 'Dzień dobry',
+      language: 'de',
+      status: ContactStatus.IN_PROGRESS,
+      threadToken: options.messages ? 'a1b2c3d4e5f6' : undefined,
+      createdAt: new Date('2025-01-01T10:00:00Z')
+    } as ContactSubmission
+
+    const submissionsRepository = {
+      findOne: jest
+        .fn()
+        .mockImplementation(({ where }: { where: Partial<ContactSubmission> }) =>
+          Promise.resolve(
+            where.id === submission.id ||
+              (where.threadToken && where.threadToken === submission.threadToken)
+              ? submission
+              : null
+          )
+        ),
+      update: jest.fn().mockResolvedValue({ affected: 1 })
+    } as unknown as jest.Mocked<Repository<ContactSubmission>>
+
+    const messagesRepository = {
+      find: jest.fn().mockResolvedValue(options.messages ?? []),
+      findOne: jest.fn().mockResolvedValue(options.existing ?? null),
+      create: jest.fn().mockImplementation((data: Partial<ContactMessage>) => ({ ...data })),
+      save: jest
+        .fn()
+        .mockImplementation((message: ContactMessage) =>
+          Promise.resolve({ ...message, id: 'message-1' })
+        ),
+      update: jest.fn().mockResolvedValue({ affected: 1 })
+    } as unknown as jest.Mocked<Repository<ContactMessage>>
+
+    const inboxService = {
+      markAnswered: jest.fn().mockResolvedValue(undefined),
+      reopen: jest.fn().mockResolvedValue(undefined)
+    } as unknown as jest.Mocked<ContactInboxService>
+
+    const mailService = {
+      sendContactReply: jest
+        .fn()
+        .mockImplementation(() =>
+          options.mailError ? Promise.reject(options.mailError) : Promise.resolve()
+        )
+    } as unknown as jest.Mocked<MailService>
+
+    const configService = {
+      get: jest
+        .fn()
+        .mockImplementation((key: string, defaultValue: unknown) =>
+          key === 'CONTACT_REPLY_ADDRESS' ? 'Kontakt@Example.com' : defaultValue
+        )
+    } as unknown as ConfigService
+
+    const service = new ContactThreadsService(
+      submissionsRepository,
+      messagesRepository,
+      inboxService,
+      mailService,
+      configService
+    )
+    return {
+      service,
+      submission,
+      submissionsRepository,
+      messagesRepository,
+      inboxService,
+      mailService
+    }
+  }
+
+  it('threads the reply under the acknowledgement and marks the inquiry answered', async () => {
+    const { service, submission, submissionsRepository, inboxService, mailService } =
+      createService()
+
+    const message = await service.reply(submission.id, '  Dziękuję za kontakt.  ', 'admin-1')
+
+    const token = submissionsRepository.update.mock.calls[0][1].threadToken as string
+    expect(token).toMatch(/^[0-9a-f]{12}$/)
+    expect(mailService.sendContactReply).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: 'jan@example.com',
+        body: 'Dziękuję za kontakt.',
+        language: 'de',
+        subject: `Re: Współpraca [#${token}]`,
+        replyTo: `kontakt+${token}@example.com`,
+        inReplyTo: '<contact-submission-1@example.com>',
+        references: ['<contact-submission-1@example.com>']
+      })
+    )
+    expect(message.deliveryStatus).toEqual(ContactDeliveryStatus.QUEUED)
+    expect(inboxService.markAnswered).toHaveBeenCalledWith(submission, 'admin-1')
+  })
+
+  it('references earlier messages and keeps the inquiry status when sending fails', async () => {
+    const { service, submission, inboxService, mailService } = createService({
+      messages: [{ messageId: '<reply-1@example.com>', direction: 'outbound' }],
+      mailError: new Error('mailjet down')
+    })
+
+    const message = await service.reply(submission.id, 'Druga odpowiedź', 'admin-1')
+
+    expect(mailService.sendContactReply).toHaveBeenCalledWith(
+      expect.objectContaining({
+        inReplyTo: '<reply-1@example.com>',
+        references: ['<contact-submission-1@example.com>', '<reply-1@example.com>']
+      })
+    )
+    expect(message.deliveryStatus).toEqual(ContactDeliveryStatus.FAILED)
+    expect(inboxService.markAnswered).not.toHaveBeenCalled()
+  })
+
+  const inbound: InboundEmail = {
+    name: 'Jan Kowalski',
+    email: 'jan@example.com',
+    recipients: ['kontakt+a1b2c3d4e5f6@example.com'],
+    subject: 'Re: Współpraca',
+    message: 'Dziękuję, pasuje mi.',
+    submittedAt: new Date(),
+    messageId: '<CAF1234@mail.example.com>',
+    references: []
+  }
+
+  it('attaches an inbound email to the thread named in the reply address', async () => {
+    const { service, submission, messagesRepository, inboxService } = createService({
+      messages: []
+    })
+
+    await expect(service.ingest(inbound)).resolves.toEqual({
+      attached: true,
+      submissionId: submission.id,
+      messageId: 'message-1'
+    })
+    expect(messagesRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        direction: 'inbound',
+        messageId: '<CAF1234@mail.example.com>',
+        fromEmail: 'jan@example.com',
+        toEmail: 'kontakt+a1b2c3d4e5f6@example.com',
+        deliveryStatus: ContactDeliveryStatus.RECEIVED
+      })
+    )
+    expect(inboxService.reopen).toHaveBeenCalledWith(submission)
+  })
+
+  it('falls back to the subject tag and the thread headers', async () => {
+    const { service, submission } = createService({ messages: [] })
+
+    await expect(
+      service.ingest({
+        ...inbound,
+        recipients: ['kontakt@example.com'],
+        subject: 'AW: Angebot [#A1B2C3D4E5F6]'
+      })
+    ).resolves.toMatchObject({ attached: true, submissionId: submission.id })
+    await expect(
+      service.ingest({
+        ...inbound,
+        recipients: [],
+        references: ['<contact-submission-1@example.com>']
+      })
+    ).resolves.toMatchObject({ attached: true, submissionId: submission.id })
+  })
+
+  it('ignores duplicates and emails without a matching thread', async () => {
+    const duplicate = createService({ existing: { id: 'message-9', submissionId: 'submission-1' } })
+    await expect(duplicate.service.ingest(inbound)).resolves.toEqual({
+      attached: true,
+      duplicate: true,
+      submissionId: 'submission-1',
+      messageId: 'message-9'
+    })
+    expect(duplicate.messagesRepository.save).not.toHaveBeenCalled()
+
+    const unmatched = createService()
+    await expect(unmatched.service.ingest({ ...inbound, recipients: [] })).resolves.toEqual({
+      attached: false
+    })
+    expect(unmatched.inboxService.reopen).not.toHaveBeenCalled()
+  })
+
+  it('rejects inbound emails from anyone other than the submitter', async () => {
+    const { service, messagesRepository, inboxService } = createService({ messages: [] })
+
+    await expect(service.ingest({ ...inbound, email: 'intruder@example.org' })).resolves.toEqual({
+      attached: false,
+      rejected: true
+    })
+    await expect(service.ingest({ ...inbound, email: 'Jan@Example.com' })).resolves.toMatchObject({
+      attached: true
+    })
+    expect(messagesRepository.save).toHaveBeenCalledTimes(1)
+    expect(inboxService.reopen).toHaveBeenCalledTimes(1)
+  })
+})
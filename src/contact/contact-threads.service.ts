@@ -0,0 +1,243 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { randomBytes, randomUUID } from 'crypto';
+import { In, Repository } from 'typeorm';
+import { ErrorCode } from '../common/enums/error-code.enum';
+import { apiError } from '../common/i18n/api-messages';
+import { MailService } from '../mail/mail.service';
+import { ContactInboxService } from './contact-inbox.service';
+import { InboundEmail } from './inbound-email';
+import { ContactMessage } from './entities/contact-message.entity';
+import { ContactSubmission } from './entities/contact-submission.entity';
+import { ContactDeliveryStatus } from './enums/contact-delivery-status.enum';
+
+export interface InboundEmailResult {
+  attached: boolean;
+  duplicate?: boolean;
+  // Wątek został znaleziony, ale nadawca nie jest zgłaszającym.
+  rejected?: boolean;
+  submissionId?: string;
+  messageId?: string;
+}
+
+const THREAD_TOKEN_PATTERN = '[0-9a-f]{12}';
+
+@Injectable()
+export class ContactThreadsService {
+  private readonly logger = new Logger(ContactThreadsService.name);
+  private readonly replyAddress: string;
+  private readonly messageIdDomain: string;
+
+  constructor(
+    @InjectRepository(ContactSubmission)
+    private readonly submissionsRepository: Repository<ContactSubmission>,
+    @InjectRepository(ContactMessage)
+    private readonly messagesRepository: Repository<ContactMessage>,
+    private readonly inboxService: ContactInboxService,
+    private readonly mailService: MailService,
+    private readonly config: ConfigService,
+  ) {
+    this.replyAddress = this.config
+      .get<string>('CONTACT_REPLY_ADDRESS', 'kontakt@mariusz-sokolowski.ch')
+      .trim()
+      .toLowerCase();
+    this.messageIdDomain = this.replyAddress.split('@')[1] ?? 'mariusz-sokolowski.ch';
+  }
+
+  // Message-ID potwierdzenia wysłanego zgłaszającemu - korzeń wątku po stronie jego skrzynki.
+  rootMessageId(submissionId: string): string {
+    return `<contact-${submissionId}@${this.messageIdDomain}>`;
+  }
+
+  async findMessages(submissionId: string): Promise<ContactMessage[]> {
+    return this.messagesRepository.find({
+      where: { submissionId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  async reply(submissionId: string, body: string, authorId: string): Promise<ContactMessage> {
+    const submission = await this.submissionsRepository.findOne({ where: { id: submissionId } });
+    if (!submission) {
+      throw new NotFoundException(apiError(ErrorCode.CONTACT_SUBMISSION_NOT_FOUND));
+    }
+
+    const threadToken = await this.ensureThreadToken(submission);
+    const previous = await this.findMessages(submission.id);
+    const references = [
+      this.rootMessageId(submission.id),
+      ...previous.map((message) => message.messageId),
+    ];
+    const subject = `Re: ${submission.subject.replace(/^(re|aw|odp):\s*/i, '')} [#${threadToken}]`;
+    const replyTo = this.threadAddress(threadToken);
+
+    const message = await this.messagesRepository.save(
+      this.messagesRepository.create({
+        submissionId: submission.id,
+        authorId,
+        direction: 'outbound',
+        messageId: this.createMessageId('reply'),
+        inReplyTo: references[references.length - 1],
+        references: references.join(' '),
+        fromEmail: replyTo,
+        toEmail: submission.email,
+        subject,
+        body: body.trim(),
+      }),
+    );
+
+    // Cytujemy ostatnią wiadomość od zgłaszającego, a gdy jeszcze nie odpisał - treść formularza.
+    const lastInbound = [...previous].reverse().find((entry) => entry.direction === 'inbound');
+    try {
+      await this.mailService.sendContactReply({
+        to: submission.email,
+        name: submission.name,
+        subject,
+        body: message.body,
+        language: submission.language,
+        messageId: message.messageId,
+        inReplyTo: references[references.length - 1],
+        references,
+        replyTo,
+        quoted: {
+          sentAt: lastInbound?.createdAt ?? submission.createdAt,
+          author: submission.name,
+          body: lastInbound?.body ?? submission.message,
+        },
+        idempotencyKey: `contact-reply:${message.id}`,
+      });
+      message.deliveryStatus = ContactDeliveryStatus.QUEUED;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      this.logger.error(
+        `Reply ${message.id} to contact submission ${submission.id} failed: ${reason}`,
+      );
+      message.deliveryStatus = ContactDeliveryStatus.FAILED;
+    }
+    await this.messagesRepository.update(message.id, { deliveryStatus: message.deliveryStatus });
+
+    if (message.deliveryStatus === ContactDeliveryStatus.QUEUED) {
+      await this.inboxService.markAnswered(submission, authorId);
+    }
+
+    return message;
+  }
+
+  async ingest(email: InboundEmail): Promise<InboundEmailResult> {
+    if (email.messageId) {
+      const existing = await this.messagesRepository.findOne({
+        where: { messageId: email.messageId },
+      });
+      if (existing) {
+        return {
+          attached: true,
+          duplicate: true,
+          submissionId: existing.submissionId,
+          messageId: existing.id,
+        };
+      }
+    }
+
+    const submission = await this.resolveSubmission(email);
+    if (!submission) {
+      this.logger.warn(
+        `Inbound email from ${email.email} ("${email.subject}") does not match any contact thread.`,
+      );
+      return { attached: false };
+    }
+
+    // Adres odpowiedzi da się odgadnąć albo przekazać dalej, więc do wątku trafia tylko poczta
+    // od zgłaszającego.
+    if (email.email.trim().toLowerCase() !== submission.email) {
+      this.logger.warn(
+        `Inbound email for contact submission ${submission.id} rejected: sent by ${email.email}, not ${submission.email}.`,
+      );
+      return { attached: false, rejected: true };
+    }
+
+    const message = await this.messagesRepository.save(
+      this.messagesRepository.create({
+        submissionId: submission.id,
+        direction: 'inbound',
+        messageId: email.messageId ?? this.createMessageId('inbound'),
+        inReplyTo: email.inReplyTo,
+        references: email.references.join(' ') || undefined,
+        fromEmail: email.email,
+        toEmail: submission.threadToken
+          ? this.threadAddress(submission.threadToken)
+          : this.replyAddress,
+        subject: email.subject,
+        body: email.message,
+        deliveryStatus: ContactDeliveryStatus.RECEIVED,
+      }),
+    );
+    await this.inboxService.reopen(submission);
+
+    return { attached: true, submissionId: submission.id, messageId: message.id };
+  }
+
+  // Kolejność: token w adresie (kontakt+token@), w temacie ([#token]), na końcu nagłówki wątku.
+  private async resolveSubmission(email: InboundEmail): Promise<ContactSubmission | null> {
+    const [local, domain] = this.replyAddress.split('@');
+    const addressPattern = new RegExp(
+      `^${escapeRegExp(local)}\\+(${THREAD_TOKEN_PATTERN})@${escapeRegExp(domain)}$`,
+    );
+    const token =
+      email.recipients.map((recipient) => recipient.match(addressPattern)?.[1]).find(Boolean) ??
+      email.subject.toLowerCase().match(new RegExp(`\\[#(${THREAD_TOKEN_PATTERN})\\]`))?.[1];
+
+    if (token) {
+      const submission = await this.submissionsRepository.findOne({
+        where: { threadToken: token },
+      });
+      if (submission) {
+        return submission;
+      }
+    }
+
+    const referenced = [email.inReplyTo, ...email.references].filter((id): id is string =>
+      Boolean(id),
+    );
+    if (!referenced.length) {
+      return null;
+    }
+
+    const rootPattern = new RegExp(`^<contact-([^@<>]+)@${escapeRegExp(this.messageIdDomain)}>$`);
+    const rootId = referenced.map((id) => id.match(rootPattern)?.[1]).find(Boolean);
+    if (rootId) {
+      const submission = await this.submissionsRepository.findOne({ where: { id: rootId } });
+      if (submission) {
+        return submission;
+      }
+    }
+
+    const known = await this.messagesRepository.findOne({
+      where: { messageId: In(referenced) },
+      relations: { submission: true },
+    });
+    return known?.submission ?? null;
+  }
+
+  private createMessageId(kind: 'reply' | 'inbound'): string {
+    return `<${kind}-${randomUUID()}@${this.messageIdDomain}>`;
+  }
+
+  private threadAddress(threadToken: string): string {
+    const [local, domain] = this.replyAddress.split('@');
+    return `${local}+${threadToken}@${domain}`;
+  }
+
+  private async ensureThreadToken(submission: ContactSubmission): Promise<string> {
+    if (submission.threadToken) {
+      return submission.threadToken;
+    }
+    submission.threadToken = randomBytes(6).toString('hex');
+    await this.submissionsRepository.update(submission.id, { threadToken: submission.threadToken });
+    return submission.threadToken;
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -1,20 +1,58 @@
-import { Body, Controller, HttpCode, HttpStatus, Post } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Req,
+  UploadedFiles,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FilesInterceptor } from '@nestjs/platform-express';
 import { Throttle } from '@nestjs/throttler';
+import { Request } from 'express';
+import { ProofOfWorkGuard } from '../challenge/proof-of-work.guard';
+import { SuccessCode } from '../common/enums/success-code.enum';
+import { apiMessage } from '../common/i18n/api-messages';
+import { extractClientIp, negotiateLanguage } from '../common/utils/request.utils';
 import { ContactService } from './contact.service';
 import { SubmitContactDto } from './dto/submit-contact.dto';
+import { ContactFormTokenService } from './spam/contact-form-token.service';
 
 @Controller('contact')
 export class ContactController {
-  constructor(private readonly contactService: ContactService) {}
+  constructor(
+    private readonly contactService: ContactService,
+    private readonly formTokenService: ContactFormTokenService,
+  ) {}
+
+  // Formularz pobiera token przy wyświetleniu i odsyła go razem ze zgłoszeniem.
+  @Get('form-token')
+  issueFormToken() {
+    return this.formTokenService.issue();
+  }
 
   @Post()
   @HttpCode(HttpStatus.ACCEPTED)
   @Throttle({ default: { limit: 5, ttl: 60 * 1000 } })
-  async submit(@Body() dto: SubmitContactDto) {
-    await this.contactService.handleContactSubmission(dto);
-    return {
-      message:
-        'Dziękujemy za wiadomość! Odpowiemy na nią tak szybko, jak to możliwe.',
-    };
+  @UseGuards(ProofOfWorkGuard)
+  @UseInterceptors(FilesInterceptor('attachments'))
+  async submit(
+    @Body() dto: SubmitContactDto,
+    @Req() req: Request,
+    @UploadedFiles() files: Express.Multer.File[] = [],
+  ) {
+    await this.contactService.handleContactSubmission(
+      dto,
+      {
+        ipAddress: extractClientIp(req),
+        userAgent: req.headers['user-agent'],
+        language: negotiateLanguage(req.headers['accept-language']),
+      },
+      files,
+    );
+    return apiMessage(SuccessCode.CONTACT_RECEIVED);
   }
 }
@@ -1,11 +1,107 @@
-import { Module } from '@nestjs/common';
+import { MiddlewareConsumer, Module, NestModule, RequestMethod } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MulterModule } from '@nestjs/platform-express';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { text } from 'express';
+import { ChallengeModule } from '../challenge/challenge.module';
+import { CLOCK, systemClock } from '../common/clock/clock';
+import { ConsentModule } from '../consent/consent.module';
 import { MailModule } from '../mail/mail.module';
+import { NewsletterModule } from '../newsletter/newsletter.module';
+import { User } from '../users/entities/user.entity';
+import { AdminContactController } from './admin-contact.controller';
+import { ATTACHMENT_STORAGE } from './attachments/attachment-storage.interface';
+import { ContactAttachmentsService } from './attachments/contact-attachments.service';
+import { LocalDiskAttachmentStorage } from './attachments/local-disk-attachment.storage';
+import { ContactInboundController } from './contact-inbound.controller';
+import { ContactInboxService } from './contact-inbox.service';
+import { ContactThreadsService } from './contact-threads.service';
 import { ContactController } from './contact.controller';
 import { ContactService } from './contact.service';
+import { ContactAttachment } from './entities/contact-attachment.entity';
+import { ContactHistoryEntry } from './entities/contact-history-entry.entity';
+import { ContactMessage } from './entities/contact-message.entity';
+import { ContactNote } from './entities/contact-note.entity';
+import { ContactSubmission } from './entities/contact-submission.entity';
+import { ContactFormTokenService } from './spam/contact-form-token.service';
+import { ContactSlaScheduler } from './sla/contact-sla.scheduler';
+import { ContactSlaService } from './sla/contact-sla.service';
+import { ContactSpamService } from './spam/contact-spam.service';
+import { DailyCapCheck } from './spam/daily-cap.check';
+import { DisposableEmailCheck } from './spam/disposable-email.check';
+import { FormFillTimeCheck } from './spam/form-fill-time.check';
+import { HoneypotCheck } from './spam/honeypot.check';
+import { KeywordCheck } from './spam/keyword.check';
+import { LinkCountCheck } from './spam/link-count.check';
+import { CONTACT_SPAM_CHECKS, SpamCheck } from './spam/spam-check.interface';
 
 @Module({
-  imports: [MailModule],
-  controllers: [ContactController],
-  providers: [ContactService],
+  imports: [
+    TypeOrmModule.forFeature([
+      ContactSubmission,
+      ContactNote,
+      ContactHistoryEntry,
+      ContactMessage,
+      ContactAttachment,
+      User,
+    ]),
+    // Załączniki trzymamy w pamięci do czasu sprawdzenia typu - limity chronią przed zbyt dużymi plikami.
+    MulterModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: (config: ConfigService) => {
+        const maxSizeMb = Number(config.get<number>('CONTACT_ATTACHMENT_MAX_SIZE_MB', 3));
+        return {
+          limits: {
+            files: Number(config.get<number>('CONTACT_ATTACHMENT_MAX_FILES', 3)),
+            fileSize: (Number.isNaN(maxSizeMb) ? 3 : maxSizeMb) * 1024 * 1024,
+          },
+        };
+      },
+    }),
+    MailModule,
+    ChallengeModule,
+    NewsletterModule,
+    ConsentModule,
+  ],
+  controllers: [ContactController, ContactInboundController, AdminContactController],
+  providers: [
+    ContactService,
+    ContactInboxService,
+    ContactThreadsService,
+    ContactFormTokenService,
+    ContactSpamService,
+    ContactAttachmentsService,
+    ContactSlaService,
+    ContactSlaScheduler,
+    { provide: ATTACHMENT_STORAGE, useClass: LocalDiskAttachmentStorage },
+    HoneypotCheck,
+    FormFillTimeCheck,
+    LinkCountCheck,
+    KeywordCheck,
+    DisposableEmailCheck,
+    DailyCapCheck,
+    // Kolejne filtry wystarczy dopisać tutaj - ContactSpamService uruchamia wszystkie z listy.
+    {
+      provide: CONTACT_SPAM_CHECKS,
+      inject: [
+        HoneypotCheck,
+        FormFillTimeCheck,
+        LinkCountCheck,
+        KeywordCheck,
+        DisposableEmailCheck,
+        DailyCapCheck,
+      ],
+      useFactory: (...checks: SpamCheck[]) => checks,
+    },
+    { provide: CLOCK, useValue: systemClock },
+  ],
+  exports: [ContactAttachmentsService],
 })
-export class ContactModule {}
+export class ContactModule implements NestModule {
+  // Surowa wiadomość e-mail przychodzi jako tekst, którego domyślny parser JSON nie obsługuje.
+  configure(consumer: MiddlewareConsumer): void {
+    consumer
+      .apply(text({ type: ['message/rfc822', 'text/plain'], limit: '10mb' }))
+      .forRoutes({ path: 'admin/contact/inbound', method: RequestMethod.POST });
+  }
+}
@@ -0,0 +1,306 @@
+import { Repository } from 'typeorm'
+import { MailService } from '../mail/mail.service'
+import { ConsentService } from '../consent/consent.service'
+import { ConsentType } from '../consent/enums/consent-type.enum'
+import { NewsletterService } from '../newsletter/newsletter.service'
+import { ContactAttachmentsService } from './attachments/contact-attachments.service'
+import { ContactThreadsService } from './contact-threads.service'
+import { ContactService } from './contact.service'
+import {
+  ContactCategory,
+  ContactPriority,
+  PreferredContactMethod,
+  SubmitContactDto
+} from './dto/submit-contact.dto'
+import { ContactSubmission } from './entities/contact-submission.entity'
+import { ContactDeliveryStatus } from './enums/contact-delivery-status.enum'
+import { ContactStatus } from './enums/contact-status.enum'
+import { ContactSlaService } from './sla/contact-sla.service'
+import { ContactSpamService, SpamVerdict } from './spam/contact-spam.service'
+
+describe('ContactService', () => {
+  const dto: SubmitContactDto = {
+    name: 'Jan Kowalski',
+    email: 'Jan@Example.com',
+    subject: 'Współpraca',
+    message: 'Dzień dobry, chciałbym porozmawiać o projekcie.',
+    category: ContactCategory.BUSINESS,
+    priority: ContactPriority.MEDIUM,
+    preferredContact: PreferredContactMethod.EMAIL,
+    gdprConsent: true
+  }
+
+  const createService = (
+    mail: { notification?: Error; acknowledged?: boolean } = {},
+    verdict: SpamVerdict = { spam: false, reasons: [] }
+  ) => {
+    const calls: string[] = []
+    const submissionsRepository = {
+      create: jest.fn().mockImplementation((data: Partial<ContactSubmission>) => ({ ...data })),
+      save: jest.fn().mockImplementation((submission: ContactSubmission) => {
+        calls.push('save')
+        return Promise.resolve({ ...submission, id: 'submission-1', createdAt: new Date() })
+      }),
+      update: jest.fn().mockResolvedValue({ affected: 1 })
+    } as unknown as jest.Mocked<Repository<ContactSubmission>>
+
+    const mailService = {
+      sendContactFormNotification: jest.fn().mockImplementation(() => {
+        calls.push('notify')
+        return mail.notification ? Promise.reject(mail.notification) : Promise.resolve()
+      }),
+      sendContactFormAcknowledgement: jest.fn().mockResolvedValue(mail.acknowledged ?? true)
+    } as unknown as jest.Mocked<MailService>
+
+    const threadsService = {
+      rootMessageId: jest.fn().mockImplementation((id: string) => `<contact-${id}@example.com>`)
+    } as unknown as ContactThreadsService
+
+    const spamService = {
+      evaluate: jest.fn().mockResolvedValue(verdict)
+    } as unknown as ContactSpamService
+
+    const attachmentsService = {
+      prepare: jest.fn().mockImplementation((files: Express.Multer.File[] = []) =>
+        files.map((file) => ({
+          filename: file.originalname,
+          mimeType: file.mimetype,
+          content: file.buffer
+        }))
+      ),
+      store: jest.fn().mockImplementation(() => {
+        calls.push('store')
+        return Promise.resolve([])
+      }),
+      findForSubmissions: jest
+        .fn()
+        .mockResolvedValue([
+          { filename: 'brief.pdf', mimeType: 'application/pdf', storageKey: 'submission-1/a' }
+        ]),
+      readContent: jest.fn().mockResolvedValue(Buffer.from('%PDF-1.7'))
+    } as unknown as jest.Mocked<ContactAttachmentsService>
+
+    const slaService = {
+      dueAt: jest.fn().mockReturnValue(new Date('2025-01-01T12:00:00Z'))
+    } as unknown as ContactSlaService
+
+    const newsletterService = {
+      subscribe: jest.fn().mockResolvedValue(undefined)
+    } as unknown as jest.Mocked<NewsletterService>
+
+    const consentService = {
+      grant: jest.fn().mockResolvedValue([])
+    } as unknown as jest.Mocked<ConsentService>
+
+    const service = new ContactService(
+      submissionsRepository,
+      mailService,
+      threadsService,
+      spamService,
+      attachmentsService,
+      slaService,
+      newsletterService,
+      consentService
+    )
+    return {
+      service,
+      submissionsRepository,
+      mailService,
+      attachmentsService,
+      newsletterService,
+      consentService,
+      calls
+    }
+  }
+
+  it('stores the submission before any email is sent', async () => {
+    const { service, submissionsRepository, calls } = createService()
+
+    const result = await service.handleContactSubmission(dto, {
+      ipAddress: '10.0.0.1',
+      userAgent: 'jest'
+    })
+
+    expect(calls).toEqual(['save', 'store', 'notify'])
+    expect(submissionsRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        email: 'jan@example.com',
+        ipAddress: '10.0.0.1',
+        userAgent: 'jest',
+        slaDueAt: new Date('2025-01-01T12:00:00Z')
+      })
+    )
+    expect(result.notificationStatus).toEqual(ContactDeliveryStatus.QUEUED)
+    expect(result.acknowledgementStatus).toEqual(ContactDeliveryStatus.QUEUED)
+  })
+
+  it('keeps the submission and records the failure when the notification cannot be sent', async () => {
+    const { service, submissionsRepository } = createService({
+      notification: new Error('Failed to send contact form notification'),
+      acknowledged: false
+    })
+
+    const result = await service.handleContactSubmission(dto)
+
+    expect(result.notificationStatus).toEqual(ContactDeliveryStatus.FAILED)
+    expect(result.deliveryError).toContain('contact form notification')
+    expect(result.acknowledgementStatus).toEqual(ContactDeliveryStatus.SKIPPED)
+    expect(submissionsRepository.update).toHaveBeenCalledWith(
+      'submission-1',
+      expect.objectContaining({ notificationStatus: ContactDeliveryStatus.FAILED })
+    )
+  })
+
+  it('opens the thread with the acknowledgement in the sender language', async () => {
+    const { service, submissionsRepository, mailService } = createService()
+
+    await service.handleContactSubmission(dto, { language: 'de-CH' })
+
+    expect(submissionsRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({ language: 'de' })
+    )
+    expect(mailService.sendContactFormAcknowledgement).toHaveBeenCalledWith(
+      expect.objectContaining({ language: 'de', messageId: '<contact-submission-1@example.com>' })
+    )
+  })
+
+  it('quarantines spam without sending any email or recording consents', async () => {
+    const { service, mailService, newsletterService, consentService, calls } = createService(
+      {},
+      { spam: true, reasons: ['honeypot', 'daily-cap'] }
+    )
+
+    const result = await service.handleContactSubmission({
+      ...dto,
+      marketingConsent: true,
+      website: 'http://spam.example'
+    })
+
+    expect(calls).toEqual(['save', 'store'])
+    expect(mailService.sendContactFormAcknowledgement).not.toHaveBeenCalled()
+    expect(consentService.grant).not.toHaveBeenCalled()
+    expect(newsletterService.subscribe).not.toHaveBeenCalled()
+    expect(result).toMatchObject({
+      status: ContactStatus.SPAM,
+      spamReasons: ['honeypot', 'daily-cap'],
+      notificationStatus: ContactDeliveryStatus.SKIPPED,
+      acknowledgementStatus: ContactDeliveryStatus.SKIPPED
+    })
+  })
+
+  it('stores uploaded files and attaches them to the admin notification', async () => {
+    const { service, mailService, attachmentsService } = createService()
+    const file = {
+      originalname: 'brief.pdf',
+      mimetype: 'application/pdf',
+      buffer: Buffer.from('%PDF-1.7')
+    } as Express.Multer.File
+
+    await service.handleContactSubmission(dto, {}, [file])
+
+    expect(attachmentsService.store).toHaveBeenCalledWith('submission-1', [
+      { filename: 'brief.pdf', mimeType: 'application/pdf', content: file.buffer }
+    ])
+    expect(mailService.sendContactFormNotification).toHaveBeenCalledWith(
+      expect.objectContaining({
+        attachments: [
+          { filename: 'brief.pdf', contentType: 'application/pdf', content: file.buffer }
+        ]
+      })
+    )
+  })
+
+  it('asks for newsletter confirmation only when marketing consent was given', async () => {
+    const withoutConsent = createService()
+    await withoutConsent.service.handleContactSubmission(dto)
+    expect(withoutConsent.newsletterService.subscribe).not.toHaveBeenCalled()
+
+    const withConsent = createService()
+    await withConsent.service.handleContactSubmission(
+      { ...dto, marketingConsent: true },
+      { language: 'de' }
+    )
+    expect(withConsent.newsletterService.subscribe).toHaveBeenCalledWith(
+      expect.objectContaining({ email: 'jan@example.com', language: 'de', source: 'contact-form' })
+    )
+  })
+
+  it('records the consents given with the submission in the consent ledger', async () => {
+    const { service, consentService } = createService()
+
+    await service.handleContactSubmission(
+      { ...dto, marketingConsent: true },
+      { ipAddress: '10.0.0.1', userAgent: 'Firefox', language: 'pl' }
+    )
+
+    expect(consentService.grant).toHaveBeenCalledWith(
+      expect.objectContaining({
+        email: 'jan@example.com',
+        source: 'contact-form',
+        referenceId: 'submission-1',
+        ipAddress: '10.0.0.1',
+        userAgent: 'Firefox'
+      }),
+      [ConsentType.GDPR, ConsentType.MARKETING]
+    )
+  })
+
+  it('sends the skipped emails and records consents when a submission is released from quarantine', async () => {
+    const { service, mailService, newsletterService, consentService, submissionsRepository } =
+      createService()
+    const submission = {
+      ...dto,
+      id: 'submission-1',
+      email: 'jan@example.com',
+      marketingConsent: true,
+      language: 'de',
+      createdAt: new Date('2025-01-01T10:00:00Z'),
+      status: ContactStatus.NEW,
+      notificationStatus: ContactDeliveryStatus.SKIPPED,
+      acknowledgementStatus: ContactDeliveryStatus.SKIPPED
+    } as ContactSubmission
+
+    await service.release(submission)
+
+    expect(consentService.grant).toHaveBeenCalledWith(
+      expect.objectContaining({ email: 'jan@example.com', referenceId: 'submission-1' }),
+      [ConsentType.GDPR, ConsentType.MARKETING]
+    )
+    expect(mailService.sendContactFormNotification).toHaveBeenCalledWith(
+      expect.objectContaining({
+        submissionId: 'submission-1',
+        submittedAt: submission.createdAt,
+        attachments: [
+          {
+            filename: 'brief.pdf',
+            contentType: 'application/pdf',
+            content: Buffer.from('%PDF-1.7')
+          }
+        ]
+      })
+    )
+    expect(mailService.sendContactFormAcknowledgement).toHaveBeenCalledWith(
+      expect.objectContaining({ language: 'de', messageId: '<contact-submission-1@example.com>' })
+    )
+    expect(newsletterService.subscribe).toHaveBeenCalledWith(
+      expect.objectContaining({ email: 'jan@example.com' })
+    )
+    expect(submissionsRepository.update).toHaveBeenCalledWith(
+      'submission-1',
+      expect.objectContaining({ notificationStatus: ContactDeliveryStatus.QUEUED })
+    )
+  })
+
+  it('does not repeat the emails for a submission that was already notified', async () => {
+    const { service, mailService, consentService } = createService()
+
+    await service.release({
+      id: 'submission-1',
+      status: ContactStatus.NEW,
+      notificationStatus: ContactDeliveryStatus.QUEUED
+    } as ContactSubmission)
+
+    expect(mailService.sendContactFormNotification).not.toHaveBeenCalled()
+    expect(consentService.grant).not.toHaveBeenCalled()
+  })
+})
@@ -1,26 +1,189 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ConsentService } from '../consent/consent.service';
+import { ConsentType } from '../consent/enums/consent-type.enum';
 import { MailService } from '../mail/mail.service';
+import { NewsletterService } from '../newsletter/newsletter.service';
+import {
+  ContactAttachmentsService,
+  PreparedAttachment,
+} from './attachments/contact-attachments.service';
+import { ContactThreadsService } from './contact-threads.service';
 import { SubmitContactDto } from './dto/submit-contact.dto';
+import { ContactSubmission } from './entities/contact-submission.entity';
+import { ContactDeliveryStatus } from './enums/contact-delivery-status.enum';
+import { ContactStatus } from './enums/contact-status.enum';
+import { ContactSlaService } from './sla/contact-sla.service';
+import { ContactSpamService } from './spam/contact-spam.service';
+
+export interface ContactRequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+  language?: string;
+}
 
 @Injectable()
 export class ContactService {
   private readonly logger = new Logger(ContactService.name);
 
-  constructor(private readonly mailService: MailService) {}
+  constructor(
+    @InjectRepository(ContactSubmission)
+    private readonly submissionsRepository: Repository<ContactSubmission>,
+    private readonly mailService: MailService,
+    private readonly threadsService: ContactThreadsService,
+    private readonly spamService: ContactSpamService,
+    private readonly attachmentsService: ContactAttachmentsService,
+    private readonly slaService: ContactSlaService,
+    private readonly newsletterService: NewsletterService,
+    private readonly consentService: ConsentService,
+  ) {}
+
+  async handleContactSubmission(
+    dto: SubmitContactDto,
+    context: ContactRequestContext = {},
+    files: Express.Multer.File[] = [],
+  ): Promise<ContactSubmission> {
+    const attachments = this.attachmentsService.prepare(files);
+    const verdict = await this.spamService.evaluate({ submission: dto, context });
+
+    // Zgłoszenie zapisujemy przed wysyłką e-maili, żeby awaria Mailjeta nie gubiła wiadomości.
+    const saved = await this.submissionsRepository.save(
+      this.submissionsRepository.create({
+        ...dto,
+        email: dto.email.trim().toLowerCase(),
+        marketingConsent: dto.marketingConsent ?? false,
+        ipAddress: context.ipAddress?.trim() || undefined,
+        userAgent: context.userAgent?.trim().slice(0, 500) || undefined,
+        language: context.language?.slice(0, 2).toLowerCase() || undefined,
+        ...(verdict.spam
+          ? {
+              status: ContactStatus.SPAM,
+              spamReasons: verdict.reasons,
+              notificationStatus: ContactDeliveryStatus.SKIPPED,
+              acknowledgementStatus: ContactDeliveryStatus.SKIPPED,
+            }
+          : { slaDueAt: this.slaService.dueAt(dto.priority) }),
+      }),
+    );
+    // Załączniki trzymamy także w kwarantannie - po zwolnieniu trafiają do powiadomienia.
+    await this.attachmentsService.store(saved.id, attachments);
+
+    // Spam nie jest odrzucany - trafia do kwarantanny bez zgód, e-maili i zapisu na newsletter,
+    // a nadawca widzi zwykłe potwierdzenie.
+    if (verdict.spam) {
+      this.logger.warn(
+        `Contact submission ${saved.id} quarantined as spam: ${verdict.reasons.join(', ')}`,
+      );
+      return saved;
+    }
+
+    await this.processAccepted(saved, attachments);
+    return saved;
+  }
+
+  // Zgłoszenie zwolnione z kwarantanny przechodzi to, co przy spamie pominęliśmy. Status SKIPPED
+  // powiadomienia ma tylko spam, więc zgłoszenie raz obsłużone nie dostanie e-maili drugi raz.
+  async release(submission: ContactSubmission): Promise<void> {
+    if (submission.notificationStatus !== ContactDeliveryStatus.SKIPPED) {
+      return;
+    }
+
+    const stored = await this.attachmentsService.findForSubmissions([submission.id]);
+    const attachments: PreparedAttachment[] = [];
+    for (const attachment of stored) {
+      attachments.push({
+        filename: attachment.filename,
+        mimeType: attachment.mimeType,
+        content: await this.attachmentsService.readContent(attachment),
+      });
+    }
+    await this.processAccepted(submission, attachments);
+  }
+
+  private async processAccepted(
+    saved: ContactSubmission,
+    attachments: PreparedAttachment[],
+  ): Promise<void> {
+    await this.consentService.grant(
+      {
+        email: saved.email,
+        language: saved.language,
+        source: 'contact-form',
+        referenceId: saved.id,
+        ipAddress: saved.ipAddress,
+        userAgent: saved.userAgent,
+      },
+      saved.marketingConsent ? [ConsentType.GDPR, ConsentType.MARKETING] : [ConsentType.GDPR],
+    );
 
-  async handleContactSubmission(dto: SubmitContactDto): Promise<void> {
     const submission = {
-      ...dto,
-      submittedAt: new Date(),
+      ...saved,
+      submittedAt: saved.createdAt,
+      submissionId: saved.id,
+      messageId: this.threadsService.rootMessageId(saved.id),
+      attachments: attachments.map((attachment) => ({
+        filename: attachment.filename,
+        contentType: attachment.mimeType,
+        content: attachment.content,
+      })),
     };
 
-    await this.mailService.sendContactFormNotification(submission);
+    try {
+      await this.mailService.sendContactFormNotification(submission);
+      await this.recordDelivery(saved, {
+        notificationStatus: ContactDeliveryStatus.QUEUED,
+        notifiedAt: new Date(),
+      });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Contact submission ${saved.id} stored, but admin notification failed: ${reason}`);
+      await this.recordDelivery(saved, {
+        notificationStatus: ContactDeliveryStatus.FAILED,
+        deliveryError: reason.slice(0, 500),
+      });
+    }
 
     try {
-      await this.mailService.sendContactFormAcknowledgement(submission);
+      const sent = await this.mailService.sendContactFormAcknowledgement(submission);
+      await this.recordDelivery(
+        saved,
+        sent
+          ? { acknowledgementStatus: ContactDeliveryStatus.QUEUED, acknowledgedAt: new Date() }
+          : { acknowledgementStatus: ContactDeliveryStatus.SKIPPED },
+      );
     } catch (error) {
       const reason = error instanceof Error ? error.stack ?? error.message : String(error);
       this.logger.warn(`Failed to send acknowledgement email: ${reason}`);
+      await this.recordDelivery(saved, {
+        acknowledgementStatus: ContactDeliveryStatus.FAILED,
+      });
+    }
+
+    if (saved.marketingConsent) {
+      try {
+        await this.newsletterService.subscribe({
+          email: saved.email,
+          name: saved.name,
+          language: saved.language,
+          source: 'contact-form',
+          ipAddress: saved.ipAddress,
+          userAgent: saved.userAgent,
+        });
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        this.logger.warn(
+          `Newsletter sign-up from contact submission ${saved.id} failed: ${reason}`,
+        );
+      }
     }
   }
+
+  private async recordDelivery(
+    submission: ContactSubmission,
+    updates: Partial<ContactSubmission>,
+  ): Promise<void> {
+    Object.assign(submission, updates);
+    await this.submissionsRepository.update(submission.id, updates);
+  }
 }
@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsUUID, ValidateIf } from 'class-validator';
+
+export class AssignContactDto {
+  @ApiProperty({
+    nullable: true,
+    description: 'Identyfikator administratora lub null, aby zdjąć przypisanie.',
+  })
+  @ValidateIf((dto: AssignContactDto) => dto.assigneeId !== null)
+  @IsUUID()
+  assigneeId!: string | null;
+}
@@ -0,0 +1,10 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, MaxLength, MinLength } from 'class-validator';
+
+export class CreateContactReplyDto {
+  @ApiProperty({ description: 'Treść odpowiedzi (tekst, bez HTML).' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(10000)
+  body!: string;
+}
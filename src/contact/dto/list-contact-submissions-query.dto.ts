@@ -0,0 +1,71 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsDate,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ContactStatus } from '../enums/contact-status.enum';
+import { ContactCategory, ContactPriority } from './submit-contact.dto';
+
+export class ListContactSubmissionsQueryDto {
+  @ApiPropertyOptional({ default: 1, minimum: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ default: 20, minimum: 1, maximum: 100 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @ApiPropertyOptional({ enum: ContactStatus })
+  @IsOptional()
+  @IsEnum(ContactStatus)
+  status?: ContactStatus;
+
+  @ApiPropertyOptional({ enum: ContactCategory })
+  @IsOptional()
+  @IsEnum(ContactCategory)
+  category?: ContactCategory;
+
+  @ApiPropertyOptional({ enum: ContactPriority })
+  @IsOptional()
+  @IsEnum(ContactPriority)
+  priority?: ContactPriority;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  assigneeId?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(40)
+  tag?: string;
+
+  @ApiPropertyOptional({ description: 'Fragment nazwiska, e-maila, firmy lub tematu.' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(190)
+  search?: string;
+
+  @ApiPropertyOptional({ type: String, format: 'date-time' })
+  @IsOptional()
+  @IsDate()
+  createdFrom?: Date;
+
+  @ApiPropertyOptional({ type: String, format: 'date-time' })
+  @IsOptional()
+  @IsDate()
+  createdTo?: Date;
+}
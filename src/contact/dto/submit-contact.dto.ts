@@ -1,3 +1,4 @@
+import { Transform } from 'class-transformer';
 import {
   Equals,
   IsBoolean,
@@ -9,6 +10,7 @@ import {
   MaxLength,
   MinLength,
 } from 'class-validator';
+import { ErrorCode } from '../../common/enums/error-code.enum';
 
 export enum ContactCategory {
   GENERAL = 'general',
@@ -30,6 +32,18 @@ export enum PreferredContactMethod {
   BOTH = 'both',
 }
 
+// Formularz z załącznikami przychodzi jako multipart/form-data, gdzie wartości logiczne są tekstem.
+const toBoolean = ({ obj, key }: { obj: Record<string, unknown>; key: string }): unknown => {
+  const value = obj[key];
+  if (value === 'true') {
+    return true;
+  }
+  if (value === 'false') {
+    return false;
+  }
+  return value;
+};
+
 export class SubmitContactDto {
   @IsString()
   @MinLength(2)
@@ -41,10 +55,7 @@ export class SubmitContactDto {
 
   @IsOptional()
   @IsString()
-  @Matches(/^[\+]?[1-9][\d\s()-]{4,19}$/, {
-    message:
-      'Numer telefonu powinien mieć 5-20 znaków i może zawierać cyfry, spacje, plus, nawiasy lub myślniki.',
-  })
+  @Matches(/^[\+]?[1-9][\d\s()-]{4,19}$/, { message: ErrorCode.INVALID_PHONE })
   phone?: string;
 
   @IsOptional()
@@ -82,11 +93,25 @@ export class SubmitContactDto {
   @MaxLength(100)
   timeline?: string;
 
+  @Transform(toBoolean)
   @IsBoolean()
-  @Equals(true, { message: 'Wymagana jest zgoda na przetwarzanie danych.' })
+  @Equals(true, { message: ErrorCode.GDPR_CONSENT_REQUIRED })
   gdprConsent!: boolean;
 
   @IsOptional()
+  @Transform(toBoolean)
   @IsBoolean()
   marketingConsent?: boolean;
+
+  // Pole-pułapka ukryte w formularzu - wypełniają je tylko boty.
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  website?: string;
+
+  // Podpisany token z GET /contact/form-token, pozwala zmierzyć czas wypełniania formularza.
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  formToken?: string;
 }
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayMaxSize, IsArray, IsString, Matches, MaxLength } from 'class-validator';
+import { ErrorCode } from '../../common/enums/error-code.enum';
+
+export class UpdateContactTagsDto {
+  @ApiProperty({ type: [String], example: ['oferta', 'pilne'] })
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(40, { each: true })
+  @Matches(/^[\p{L}\d _-]+$/u, {
+    each: true,
+    message: ErrorCode.INVALID_TAG,
+  })
+  tags!: string[];
+}
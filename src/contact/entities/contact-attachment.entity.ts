@@ -0,0 +1,40 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { ContactSubmission } from './contact-submission.entity';
+
+@Entity({ name: 'contact_attachments' })
+export class ContactAttachment {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column()
+  filename!: string;
+
+  // Typ ustalony na podstawie zawartości pliku, a nie nagłówka przesłanego przez przeglądarkę.
+  @Column()
+  mimeType!: string;
+
+  @Column('integer')
+  size!: number;
+
+  @Column()
+  storageKey!: string;
+
+  @Column()
+  @Index()
+  submissionId!: string;
+
+  @ManyToOne(() => ContactSubmission, (submission) => submission.attachments, {
+    onDelete: 'CASCADE',
+  })
+  submission!: ContactSubmission;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
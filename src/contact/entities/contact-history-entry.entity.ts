@@ -0,0 +1,43 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { ContactSubmission } from './contact-submission.entity';
+
+export type ContactHistoryAction = 'status' | 'assignee' | 'tags' | 'note';
+
+@Entity({ name: 'contact_history' })
+export class ContactHistoryEntry {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar' })
+  action!: ContactHistoryAction;
+
+  @Column({ nullable: true })
+  fromValue?: string;
+
+  @Column({ nullable: true })
+  toValue?: string;
+
+  @Column()
+  @Index()
+  submissionId!: string;
+
+  @ManyToOne(() => ContactSubmission, (submission) => submission.history, { onDelete: 'CASCADE' })
+  submission!: ContactSubmission;
+
+  @Column({ nullable: true })
+  actorId?: string;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  actor?: User;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
@@ -0,0 +1,62 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { ContactDeliveryStatus } from '../enums/contact-delivery-status.enum';
+import { ContactSubmission } from './contact-submission.entity';
+
+export type ContactMessageDirection = 'outbound' | 'inbound';
+
+@Entity({ name: 'contact_messages' })
+export class ContactMessage {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar' })
+  direction!: ContactMessageDirection;
+
+  @Column({ unique: true })
+  messageId!: string;
+
+  @Column({ nullable: true })
+  inReplyTo?: string;
+
+  @Column({ type: 'text', nullable: true })
+  references?: string;
+
+  @Column()
+  fromEmail!: string;
+
+  @Column()
+  toEmail!: string;
+
+  @Column()
+  subject!: string;
+
+  @Column('text')
+  body!: string;
+
+  @Column({ type: 'varchar', default: ContactDeliveryStatus.PENDING })
+  deliveryStatus!: ContactDeliveryStatus;
+
+  @Column()
+  @Index()
+  submissionId!: string;
+
+  @ManyToOne(() => ContactSubmission, (submission) => submission.messages, { onDelete: 'CASCADE' })
+  submission!: ContactSubmission;
+
+  @Column({ nullable: true })
+  authorId?: string;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  author?: User;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
@@ -0,0 +1,35 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { ContactSubmission } from './contact-submission.entity';
+
+@Entity({ name: 'contact_notes' })
+export class ContactNote {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column('text')
+  body!: string;
+
+  @Column()
+  @Index()
+  submissionId!: string;
+
+  @ManyToOne(() => ContactSubmission, (submission) => submission.notes, { onDelete: 'CASCADE' })
+  submission!: ContactSubmission;
+
+  @Column({ nullable: true })
+  authorId?: string;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  author?: User;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
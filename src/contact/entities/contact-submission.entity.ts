@@ -0,0 +1,147 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import {
+  ContactCategory,
+  ContactPriority,
+  PreferredContactMethod,
+} from '../dto/submit-contact.dto';
+import { ContactDeliveryStatus } from '../enums/contact-delivery-status.enum';
+import { ContactStatus } from '../enums/contact-status.enum';
+import { ContactAttachment } from './contact-attachment.entity';
+import { ContactHistoryEntry } from './contact-history-entry.entity';
+import { ContactMessage } from './contact-message.entity';
+import { ContactNote } from './contact-note.entity';
+
+@Entity({ name: 'contact_submissions' })
+export class ContactSubmission {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column()
+  name!: string;
+
+  @Column()
+  @Index()
+  email!: string;
+
+  @Column({ nullable: true })
+  phone?: string;
+
+  @Column({ nullable: true })
+  company?: string;
+
+  @Column()
+  subject!: string;
+
+  @Column('text')
+  message!: string;
+
+  @Column({ type: 'varchar' })
+  category!: ContactCategory;
+
+  @Column({ type: 'varchar' })
+  priority!: ContactPriority;
+
+  @Column({ type: 'varchar' })
+  preferredContact!: PreferredContactMethod;
+
+  @Column({ nullable: true })
+  budget?: string;
+
+  @Column({ nullable: true })
+  timeline?: string;
+
+  @Column()
+  gdprConsent!: boolean;
+
+  @Column({ default: false })
+  marketingConsent!: boolean;
+
+  @Column({ nullable: true })
+  ipAddress?: string;
+
+  @Column({ nullable: true })
+  userAgent?: string;
+
+  @Column({ nullable: true })
+  language?: string;
+
+  // Krótki identyfikator wątku w temacie i adresie Reply-To, po którym łączymy odpowiedzi.
+  @Column({ nullable: true, unique: true })
+  threadToken?: string;
+
+  @Column({ type: 'varchar', default: ContactDeliveryStatus.PENDING })
+  notificationStatus!: ContactDeliveryStatus;
+
+  @Column({ nullable: true })
+  notifiedAt?: Date;
+
+  @Column({ type: 'varchar', default: ContactDeliveryStatus.PENDING })
+  acknowledgementStatus!: ContactDeliveryStatus;
+
+  @Column({ nullable: true })
+  acknowledgedAt?: Date;
+
+  @Column({ nullable: true })
+  deliveryError?: string;
+
+  @Column({ type: 'varchar', default: ContactStatus.NEW })
+  @Index()
+  status!: ContactStatus;
+
+  @Column({ nullable: true })
+  @Index()
+  assigneeId?: string;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  assignee?: User;
+
+  @Column('simple-array', { default: '' })
+  tags!: string[];
+
+  // Powody, dla których filtr antyspamowy odłożył zgłoszenie do kwarantanny.
+  @Column('simple-array', { default: '' })
+  spamReasons!: string[];
+
+  // Termin pierwszej odpowiedzi wynikający z priorytetu; zgłoszenia w kwarantannie go nie mają.
+  @Column({ nullable: true })
+  @Index()
+  slaDueAt?: Date;
+
+  @Column({ nullable: true })
+  firstResponseAt?: Date;
+
+  @Column({ nullable: true })
+  slaWarningSentAt?: Date;
+
+  @Column({ nullable: true })
+  slaBreachedAt?: Date;
+
+  @CreateDateColumn()
+  @Index()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+
+  @OneToMany(() => ContactNote, (note) => note.submission)
+  notes?: ContactNote[];
+
+  @OneToMany(() => ContactHistoryEntry, (entry) => entry.submission)
+  history?: ContactHistoryEntry[];
+
+  @OneToMany(() => ContactMessage, (message) => message.submission)
+  messages?: ContactMessage[];
+
+  @OneToMany(() => ContactAttachment, (attachment) => attachment.submission)
+  attachments?: ContactAttachment[];
+}
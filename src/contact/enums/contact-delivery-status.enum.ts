@@ -0,0 +1,9 @@
+export enum ContactDeliveryStatus {
+  PENDING = 'pending',
+  // Przekazano do kolejki wysyłki (email_outbox); stan dostarczenia widać w panelu kolejki.
+  QUEUED = 'queued',
+  SENT = 'sent',
+  FAILED = 'failed',
+  SKIPPED = 'skipped',
+  RECEIVED = 'received',
+}
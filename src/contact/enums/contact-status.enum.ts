@@ -0,0 +1,17 @@
+export enum ContactStatus {
+  NEW = 'new',
+  IN_PROGRESS = 'in_progress',
+  ANSWERED = 'answered',
+  CLOSED = 'closed',
+  SPAM = 'spam',
+}
+
+// Dozwolone przejścia w obiegu zgłoszenia; zamknięte lub obsłużone zgłoszenie można wznowić,
+// a zgłoszenie z kwarantanny (spam) zwolnić jako nowe.
+export const CONTACT_STATUS_TRANSITIONS: Record<ContactStatus, ContactStatus[]> = {
+  [ContactStatus.NEW]: [ContactStatus.IN_PROGRESS, ContactStatus.CLOSED, ContactStatus.SPAM],
+  [ContactStatus.IN_PROGRESS]: [ContactStatus.ANSWERED, ContactStatus.CLOSED],
+  [ContactStatus.ANSWERED]: [ContactStatus.IN_PROGRESS, ContactStatus.CLOSED],
+  [ContactStatus.CLOSED]: [ContactStatus.IN_PROGRESS],
+  [ContactStatus.SPAM]: [ContactStatus.NEW],
+};
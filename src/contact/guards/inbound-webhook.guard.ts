@@ -0,0 +1,41 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, timingSafeEqual } from 'crypto';
+import { Request } from 'express';
+import { ErrorCode } from '../../common/enums/error-code.enum';
+import { apiError } from '../../common/i18n/api-messages';
+
+// Mailjet Parse API nie podpisuje żądań, więc adres webhooka zawiera wspólny sekret (?token=...).
+@Injectable()
+export class InboundWebhookGuard implements CanActivate {
+  private readonly logger = new Logger(InboundWebhookGuard.name);
+
+  constructor(private readonly config: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const secret = this.config.get<string>('CONTACT_INBOUND_SECRET');
+    if (!secret) {
+      this.logger.warn(
+        'Inbound email webhook called, but CONTACT_INBOUND_SECRET is not configured.',
+      );
+      throw new ForbiddenException(apiError(ErrorCode.INBOUND_EMAIL_DISABLED));
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const provided = typeof request.query.token === 'string' ? request.query.token : '';
+    const actual = createHash('sha256').update(provided).digest();
+    const expected = createHash('sha256').update(secret).digest();
+
+    if (!timingSafeEqual(actual, expected)) {
+      throw new ForbiddenException(apiError(ErrorCode.INBOUND_WEBHOOK_TOKEN_INVALID));
+    }
+
+    return true;
+  }
+}
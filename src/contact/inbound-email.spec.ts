@@ -0,0 +1,71 @@
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { parseMailjetInbound, parseRawEmail, stripQuotedReply } from './inbound-email'
+
+const fixture = (name: string) => readFileSync(join(__dirname, '__fixtures__', name))
+
+describe('inbound email parsing', () => {
+  it('parses a quoted-printable reply with encoded headers', () => {
+    const email = parseRawEmail(fixture('reply-quoted-printable.eml'))
+
+    expect(email).toMatchObject({
+      name: 'Jan Kowalski',
+      email: 'jan@example.com',
+      subject: 'Re: Współpraca [#a1b2c3d4e5f6]',
+      messageId: '<CAF1234@mail.example.com>',
+      inReplyTo: '<reply-1@example.com>',
+      references: [
+        '<contact-5f0c4d1e-2a7b-4c3d-9e8f-0a1b2c3d4e5f@example.com>',
+        '<reply-1@example.com>'
+      ]
+    })
+    expect(email?.recipients).toContain('kontakt+a1b2c3d4e5f6@example.com')
+    expect(email?.submittedAt.toISOString()).toEqual('2025-04-11T07:15:00.000Z')
+    expect(email?.message).toEqual(
+      'Dzień dobry,\n\ndziękuję za szybką odpowiedź. Termin w piątek mi pasuje.\n\nPozdrawiam\nJan'
+    )
+  })
+
+  it('prefers the plain text part of a multipart message', () => {
+    const email = parseRawEmail(fixture('reply-multipart-base64.eml'))
+
+    expect(email).toMatchObject({
+      name: 'Anna Müller',
+      email: 'anna@example.org',
+      recipients: ['kontakt@example.com'],
+      subject: 'AW: Angebot [#0f1e2d3c4b5a]',
+      references: []
+    })
+    expect(email?.message).toEqual(
+      'Guten Tag,\n\nvielen Dank für die Rückmeldung. Können wir nächste Woche telefonieren?\n\nGrüße\nAnna'
+    )
+  })
+
+  it('maps the Mailjet Parse API payload', () => {
+    const payload = JSON.parse(fixture('mailjet-parse.json').toString('utf8'))
+
+    expect(parseMailjetInbound(payload)).toEqual({
+      name: 'Jan Kowalski',
+      email: 'jan@example.com',
+      recipients: ['kontakt+a1b2c3d4e5f6@example.com'],
+      subject: 'Re: Współpraca [#a1b2c3d4e5f6]',
+      message: 'Dziękuję, do usłyszenia w piątek.',
+      submittedAt: new Date('2025-04-11T07:15:00Z'),
+      messageId: '<CAF5678@mail.example.com>',
+      inReplyTo: '<reply-1@example.com>',
+      references: [
+        '<contact-5f0c4d1e-2a7b-4c3d-9e8f-0a1b2c3d4e5f@example.com>',
+        '<reply-1@example.com>'
+      ]
+    })
+  })
+
+  it('rejects messages without a sender address', () => {
+    expect(parseRawEmail('Subject: test\r\n\r\nbody')).toBeNull()
+    expect(parseMailjetInbound({ Subject: 'test' })).toBeNull()
+  })
+
+  it('keeps the whole text when it consists only of a quote', () => {
+    expect(stripQuotedReply('> cytat\n> dalej')).toEqual('> cytat\n> dalej')
+  })
+})
@@ -0,0 +1,314 @@
+export interface InboundEmail {
+  name?: string;
+  email: string;
+  recipients: string[];
+  subject: string;
+  message: string;
+  submittedAt: Date;
+  messageId?: string;
+  inReplyTo?: string;
+  references: string[];
+}
+
+interface MimeEntity {
+  headers: Map<string, string[]>;
+  body: string;
+}
+
+interface ParsedAddress {
+  name?: string;
+  email: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+// Linie otwierające cytat poprzedniej wiadomości (klienci poczty PL/DE/EN i odpowiedzi z panelu).
+const QUOTE_HEADER_PATTERNS = [
+  /^On .+ wrote:$/i,
+  /^Am .+ schrieb .+:$/i,
+  /^W dniu .+ (napisał|napisała|napisał\(a\)|pisze):$/i,
+  /^-{2,}\s*(Original Message|Ursprüngliche Nachricht|Wiadomość oryginalna)\s*-{2,}$/i,
+];
+
+export function parseRawEmail(raw: string | Buffer): InboundEmail | null {
+  // Pracujemy na "latin1", żeby każdy bajt przetrwał do dekodowania właściwym zestawem znaków.
+  const source = Buffer.isBuffer(raw)
+    ? raw.toString('latin1')
+    : Buffer.from(raw, 'utf8').toString('latin1');
+  const entity = parseEntity(source);
+  const from = parseAddressList(headerValue(entity, 'from'))[0];
+  if (!from) {
+    return null;
+  }
+
+  const recipients = ['to', 'cc', 'delivered-to', 'x-original-to'].flatMap((name) =>
+    (entity.headers.get(name) ?? []).flatMap((value) =>
+      parseAddressList(decodeHeader(value)).map((address) => address.email),
+    ),
+  );
+  const date = new Date(headerValue(entity, 'date') ?? '');
+
+  return {
+    name: from.name,
+    email: from.email,
+    recipients: [...new Set(recipients)],
+    subject: headerValue(entity, 'subject') ?? '',
+    message: stripQuotedReply(extractText(entity)),
+    submittedAt: Number.isNaN(date.getTime()) ? new Date() : date,
+    messageId: extractMessageIds(headerValue(entity, 'message-id'))[0],
+    inReplyTo: extractMessageIds(headerValue(entity, 'in-reply-to'))[0],
+    references: extractMessageIds(headerValue(entity, 'references')),
+  };
+}
+
+// Format webhooka Mailjet Parse API: https://dev.mailjet.com/email/guides/parse-api/
+export function parseMailjetInbound(payload: Record<string, unknown>): InboundEmail | null {
+  const headers: Record<string, unknown> = isRecord(payload.Headers) ? payload.Headers : {};
+  const header = (name: string): string | undefined => {
+    const key = Object.keys(headers).find((candidate) => candidate.toLowerCase() === name);
+    const value = key ? headers[key] : undefined;
+    const first: unknown = Array.isArray(value) ? value[0] : value;
+    return typeof first === 'string' ? decodeHeader(first) : undefined;
+  };
+  const text = (value: unknown): string | undefined =>
+    typeof value === 'string' ? value : undefined;
+
+  const from =
+    parseAddressList(text(payload.From) ?? header('from'))[0] ??
+    parseAddressList(text(payload.Sender))[0];
+  if (!from) {
+    return null;
+  }
+
+  const recipients = [text(payload.Recipient), header('to'), header('cc')].flatMap((value) =>
+    parseAddressList(value).map((address) => address.email),
+  );
+  const body = text(payload['Text-part']) || htmlToText(text(payload['Html-part']) ?? '');
+
+  return {
+    name: from.name,
+    email: from.email,
+    recipients: [...new Set(recipients)],
+    subject: text(payload.Subject) ?? header('subject') ?? '',
+    message: stripQuotedReply(body),
+    submittedAt: parseMailjetDate(text(payload.Date)) ?? new Date(),
+    messageId: extractMessageIds(header('message-id'))[0],
+    inReplyTo: extractMessageIds(header('in-reply-to'))[0],
+    references: extractMessageIds(header('references')),
+  };
+}
+
+export function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const quoteStart = lines.findIndex((line) =>
+    QUOTE_HEADER_PATTERNS.some((pattern) => pattern.test(line.trim())),
+  );
+  const kept = quoteStart === -1 ? lines : lines.slice(0, quoteStart);
+
+  while (
+    kept.length &&
+    (kept[kept.length - 1].trim() === '' || kept[kept.length - 1].startsWith('>'))
+  ) {
+    kept.pop();
+  }
+
+  const result = kept.join('\n').trim();
+  return result || text.trim();
+}
+
+export function extractMessageIds(value?: string): string[] {
+  return value?.match(/<[^<>\s]+>/g) ?? [];
+}
+
+function parseEntity(source: string): MimeEntity {
+  const separator = source.search(/\r?\n\r?\n/);
+  const head = separator === -1 ? source : source.slice(0, separator);
+  const body = separator === -1 ? '' : source.slice(separator).replace(/^\r?\n\r?\n/, '');
+  const headers = new Map<string, string[]>();
+
+  for (const line of head.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) {
+      continue;
+    }
+    const name = line.slice(0, colon).trim().toLowerCase();
+    headers.set(name, [...(headers.get(name) ?? []), line.slice(colon + 1).trim()]);
+  }
+
+  return { headers, body };
+}
+
+function extractText(entity: MimeEntity): string {
+  const { type, params } = parseContentType(entity.headers.get('content-type')?.[0]);
+
+  if (type.startsWith('multipart/') && params.boundary) {
+    const parts = splitMultipart(entity.body, params.boundary).map(parseEntity);
+    const plain = parts.find(
+      (part) => parseContentType(part.headers.get('content-type')?.[0]).type === 'text/plain',
+    );
+    const preferred =
+      plain ??
+      parts.find((part) => {
+        const partType = parseContentType(part.headers.get('content-type')?.[0]).type;
+        return partType === 'text/html' || partType.startsWith('multipart/');
+      });
+    return preferred ? extractText(preferred) : '';
+  }
+
+  if (!type.startsWith('text/')) {
+    return '';
+  }
+
+  const decoded = decodeCharset(
+    decodeTransferEncoding(entity.body, entity.headers.get('content-transfer-encoding')?.[0]),
+    params.charset,
+  );
+  return type === 'text/html' ? htmlToText(decoded) : decoded;
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  let current: string[] | null = null;
+
+  for (const line of body.split(/\r?\n/)) {
+    if (line.startsWith(delimiter)) {
+      if (current) {
+        parts.push(current.join('\r\n'));
+      }
+      if (line.startsWith(`${delimiter}--`)) {
+        return parts;
+      }
+      current = [];
+    } else if (current) {
+      current.push(line);
+    }
+  }
+
+  if (current) {
+    parts.push(current.join('\r\n'));
+  }
+  return parts;
+}
+
+function parseContentType(value?: string): { type: string; params: Record<string, string> } {
+  const [type, ...rest] = (value ?? 'text/plain').split(';');
+  const params: Record<string, string> = {};
+  for (const param of rest) {
+    const equals = param.indexOf('=');
+    if (equals > 0) {
+      params[param.slice(0, equals).trim().toLowerCase()] = param
+        .slice(equals + 1)
+        .trim()
+        .replace(/^"(.*)"$/, '$1');
+    }
+  }
+  return { type: type.trim().toLowerCase(), params };
+}
+
+function decodeTransferEncoding(body: string, encoding?: string): Buffer {
+  switch (encoding?.trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/\s+/g, ''), 'base64');
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body);
+    default:
+      return Buffer.from(body, 'latin1');
+  }
+}
+
+function decodeQuotedPrintable(body: string): Buffer {
+  const unwrapped = body.replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+  for (let index = 0; index < unwrapped.length; index += 1) {
+    const hex = unwrapped.slice(index + 1, index + 3);
+    if (unwrapped[index] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      index += 2;
+    } else {
+      bytes.push(unwrapped.charCodeAt(index) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function decodeCharset(bytes: Buffer, charset = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset.trim().toLowerCase()).decode(bytes);
+  } catch {
+    return bytes.toString('utf8');
+  }
+}
+
+// Nagłówki z RFC 2047 (=?utf-8?B?...?=) - np. polskie i niemieckie znaki w temacie lub nadawcy.
+function decodeHeader(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, '$1')
+    .replace(
+      /=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g,
+      (_match, charset: string, encoding: string, text: string) => {
+        const bytes =
+          encoding.toUpperCase() === 'B'
+            ? Buffer.from(text, 'base64')
+            : decodeQuotedPrintable(text.replace(/_/g, ' '));
+        return decodeCharset(bytes, charset);
+      },
+    );
+}
+
+function headerValue(entity: MimeEntity, name: string): string | undefined {
+  const value = entity.headers.get(name)?.[0];
+  return value === undefined
+    ? undefined
+    : decodeHeader(decodeCharset(Buffer.from(value, 'latin1'))).trim();
+}
+
+function parseAddressList(value?: string): ParsedAddress[] {
+  if (!value) {
+    return [];
+  }
+
+  const entries = value.match(/(?:"[^"]*"|<[^>]*>|[^,])+/g) ?? [];
+  return entries
+    .map((entry) => {
+      const angle = entry.match(/^(.*)<([^>]+)>\s*$/);
+      const email = (angle ? angle[2] : entry).trim().toLowerCase();
+      const name = angle?.[1]
+        .trim()
+        .replace(/^"(.*)"$/, '$1')
+        .trim();
+      return { name: name || undefined, email };
+    })
+    .filter((address) => EMAIL_PATTERN.test(address.email));
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|blockquote|li|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Mailjet podaje datę w postaci "20150410T160638" (UTC).
+function parseMailjetDate(value?: string): Date | undefined {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})$/);
+  if (match) {
+    const [, year, month, day, hour, minute, second] = match.map(Number);
+    return new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+  }
+  const date = value ? new Date(value) : undefined;
+  return date && !Number.isNaN(date.getTime()) ? date : undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
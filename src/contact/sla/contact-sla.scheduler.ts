@@ -0,0 +1,42 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IntervalJob } from '../../common/scheduling/interval-job';
+import { ContactSlaService } from './contact-sla.service';
+
+@Injectable()
+export class ContactSlaScheduler extends IntervalJob implements OnApplicationBootstrap {
+  private readonly logger = new Logger(ContactSlaScheduler.name);
+
+  constructor(
+    private readonly slaService: ContactSlaService,
+    private readonly config: ConfigService,
+  ) {
+    super();
+  }
+
+  onApplicationBootstrap(): void {
+    const intervalMinutes = Number(
+      this.config.get<number>('CONTACT_SLA_CHECK_INTERVAL_MINUTES', 5),
+    );
+    if (intervalMinutes <= 0) {
+      this.logger.warn('Contact SLA checks are disabled (CONTACT_SLA_CHECK_INTERVAL_MINUTES=0).');
+      return;
+    }
+
+    this.schedule(intervalMinutes * 60 * 1000);
+  }
+
+  protected async execute(): Promise<void> {
+    try {
+      const { warnings, breaches } = await this.slaService.checkDeadlines();
+      if (warnings || breaches) {
+        this.logger.log(
+          `Contact SLA check sent ${warnings} warning(s) and ${breaches} breach alert(s).`,
+        );
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Contact SLA check failed: ${reason}`);
+    }
+  }
+}
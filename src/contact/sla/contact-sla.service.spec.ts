@@ -0,0 +1,158 @@
+import { ConfigService } from '@nestjs/config'
+import { Repository } from 'typeorm'
+import { Clock } from '../../common/clock/clock'
+import { MailService } from '../../mail/mail.service'
+import { ContactCategory, ContactPriority } from '../dto/submit-contact.dto'
+import { ContactSubmission } from '../entities/contact-submission.entity'
+import { ContactStatus } from '../enums/contact-status.enum'
+import { ContactSlaService } from './contact-sla.service'
+
+describe('ContactSlaService', () => {
+  const now = new Date('2025-03-10T12:00:00Z')
+  const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000)
+
+  const submission = (overrides: Partial<ContactSubmission>): ContactSubmission =>
+    ({
+      id: 'submission-1',
+      name: 'Jan Kowalski',
+      email: 'jan@example.com',
+      subject: 'Wycena',
+      category: ContactCategory.BUSINESS,
+      priority: ContactPriority.HIGH,
+      status: ContactStatus.NEW,
+      createdAt: hoursAgo(1),
+      slaDueAt: hoursAgo(-3),
+      ...overrides
+    }) as ContactSubmission
+
+  const createService = (submissions: ContactSubmission[] = [], mailFailure?: Error) => {
+    const configService = {
+      get: jest.fn().mockImplementation((_key: string, defaultValue: unknown) => defaultValue)
+    } as unknown as ConfigService
+
+    const submissionsRepository = {
+      find: jest.fn().mockResolvedValue(submissions),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      createQueryBuilder: jest.fn().mockImplementation(() => {
+        const qb = {
+          select: jest.fn().mockReturnThis(),
+          where: jest.fn().mockReturnThis(),
+          andWhere: jest.fn().mockReturnThis(),
+          getMany: jest.fn().mockResolvedValue(submissions)
+        }
+        return qb
+      })
+    } as unknown as jest.Mocked<Repository<ContactSubmission>>
+
+    const mailService = {
+      sendContactSlaEscalation: jest
+        .fn()
+        .mockImplementation(() => (mailFailure ? Promise.reject(mailFailure) : Promise.resolve()))
+    } as unknown as jest.Mocked<MailService>
+
+    const clock: Clock = { now: () => now }
+
+    const service = new ContactSlaService(submissionsRepository, mailService, configService, clock)
+    return { service, submissionsRepository, mailService }
+  }
+
+  it('derives the response deadline from the priority', () => {
+    const { service } = createService()
+
+    expect(service.dueAt(ContactPriority.HIGH, now)).toEqual(hoursAgo(-4))
+    expect(service.dueAt(ContactPriority.MEDIUM, now)).toEqual(hoursAgo(-24))
+    expect(service.dueAt(ContactPriority.LOW, now)).toEqual(hoursAgo(-72))
+  })
+
+  it('warns once the deadline is near and escalates once it has passed', async () => {
+    const { service, submissionsRepository, mailService } = createService([
+      submission({ id: 'fresh' }),
+      submission({ id: 'nearing', createdAt: hoursAgo(3.5), slaDueAt: hoursAgo(-0.5) }),
+      submission({
+        id: 'already-warned',
+        createdAt: hoursAgo(3.5),
+        slaDueAt: hoursAgo(-0.5),
+        slaWarningSentAt: hoursAgo(0.2)
+      }),
+      submission({
+        id: 'overdue',
+        createdAt: hoursAgo(5),
+        slaDueAt: hoursAgo(1),
+        slaWarningSentAt: hoursAgo(2)
+      })
+    ])
+
+    const result = await service.checkDeadlines()
+
+    expect(result).toEqual({ warnings: 1, breaches: 1 })
+    expect(mailService.sendContactSlaEscalation).toHaveBeenCalledTimes(2)
+    expect(mailService.sendContactSlaEscalation).toHaveBeenCalledWith(
+      expect.objectContaining({ stage: 'warning', submissionId: 'nearing' })
+    )
+    expect(submissionsRepository.update).toHaveBeenCalledWith('nearing', { slaWarningSentAt: now })
+    expect(submissionsRepository.update).toHaveBeenCalledWith('overdue', { slaBreachedAt: now })
+  })
+
+  it('retries the escalation on the next run when the email cannot be sent', async () => {
+    const { service, submissionsRepository } = createService(
+      [submission({ createdAt: hoursAgo(5), slaDueAt: hoursAgo(1) })],
+      new Error('Mailjet down')
+    )
+
+    await expect(service.checkDeadlines()).resolves.toEqual({ warnings: 0, breaches: 0 })
+    expect(submissionsRepository.update).not.toHaveBeenCalled()
+  })
+
+  it('reports the median first response time per category', async () => {
+    const { service } = createService([
+      submission({
+        id: 'a',
+        createdAt: hoursAgo(10),
+        slaDueAt: hoursAgo(6),
+        firstResponseAt: hoursAgo(9)
+      }),
+      submission({
+        id: 'b',
+        createdAt: hoursAgo(10),
+        slaDueAt: hoursAgo(6),
+        firstResponseAt: hoursAgo(7)
+      }),
+      submission({
+        id: 'c',
+        createdAt: hoursAgo(10),
+        slaDueAt: hoursAgo(6),
+        firstResponseAt: hoursAgo(4)
+      }),
+      submission({
+        id: 'd',
+        category: ContactCategory.TECHNICAL,
+        createdAt: hoursAgo(30),
+        slaDueAt: hoursAgo(6)
+      })
+    ])
+
+    const stats = await service.getStats({})
+
+    expect(stats.targetHours).toEqual({ high: 4, medium: 24, low: 72 })
+    expect(stats.overall).toEqual({
+      submissions: 4,
+      responded: 3,
+      awaitingResponse: 1,
+      breached: 2,
+      medianFirstResponseMinutes: 180
+    })
+    expect(
+      stats.categories.find((entry) => entry.category === ContactCategory.BUSINESS)
+    ).toMatchObject({
+      submissions: 3,
+      breached: 1,
+      medianFirstResponseMinutes: 180
+    })
+    expect(
+      stats.categories.find((entry) => entry.category === ContactCategory.GENERAL)
+    ).toMatchObject({
+      submissions: 0,
+      medianFirstResponseMinutes: null
+    })
+  })
+})
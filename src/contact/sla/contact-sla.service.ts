@@ -0,0 +1,198 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, LessThanOrEqual, Repository } from 'typeorm';
+import { CLOCK, Clock } from '../../common/clock/clock';
+import { MailService } from '../../mail/mail.service';
+import { ContactSlaStatsQueryDto } from '../dto/contact-sla-stats-query.dto';
+import { ContactCategory, ContactPriority } from '../dto/submit-contact.dto';
+import { ContactSubmission } from '../entities/contact-submission.entity';
+import { ContactStatus } from '../enums/contact-status.enum';
+
+export type ContactSlaStage = 'warning' | 'breach';
+
+export interface ContactSlaMetrics {
+  submissions: number;
+  responded: number;
+  awaitingResponse: number;
+  breached: number;
+  medianFirstResponseMinutes: number | null;
+}
+
+export interface ContactSlaStats {
+  from?: Date;
+  to?: Date;
+  targetHours: Record<ContactPriority, number>;
+  overall: ContactSlaMetrics;
+  categories: Array<ContactSlaMetrics & { category: ContactCategory }>;
+}
+
+// Termin liczy się tylko dla zgłoszeń, na które nikt jeszcze nie odpowiedział.
+const OPEN_STATUSES = [ContactStatus.NEW, ContactStatus.IN_PROGRESS];
+
+@Injectable()
+export class ContactSlaService {
+  private readonly logger = new Logger(ContactSlaService.name);
+  private readonly targetHours: Record<ContactPriority, number>;
+  private readonly warningRatio: number;
+
+  constructor(
+    @InjectRepository(ContactSubmission)
+    private readonly submissionsRepository: Repository<ContactSubmission>,
+    private readonly mailService: MailService,
+    private readonly config: ConfigService,
+    @Inject(CLOCK) private readonly clock: Clock,
+  ) {
+    this.targetHours = {
+      [ContactPriority.HIGH]: Number(this.config.get<number>('CONTACT_SLA_HOURS_HIGH', 4)),
+      [ContactPriority.MEDIUM]: Number(this.config.get<number>('CONTACT_SLA_HOURS_MEDIUM', 24)),
+      [ContactPriority.LOW]: Number(this.config.get<number>('CONTACT_SLA_HOURS_LOW', 72)),
+    };
+    this.warningRatio = Number(this.config.get<number>('CONTACT_SLA_WARNING_PERCENT', 75)) / 100;
+  }
+
+  dueAt(priority: ContactPriority, from: Date = this.clock.now()): Date {
+    return new Date(from.getTime() + this.targetHours[priority] * 60 * 60 * 1000);
+  }
+
+  async checkDeadlines(): Promise<{ warnings: number; breaches: number }> {
+    const now = this.clock.now();
+    const horizon = Math.max(...Object.values(this.targetHours)) * (1 - this.warningRatio);
+    const candidates = await this.submissionsRepository.find({
+      where: {
+        status: In(OPEN_STATUSES),
+        firstResponseAt: IsNull(),
+        slaBreachedAt: IsNull(),
+        slaDueAt: LessThanOrEqual(new Date(now.getTime() + horizon * 60 * 60 * 1000)),
+      },
+      relations: { assignee: true },
+      order: { slaDueAt: 'ASC' },
+    });
+
+    let warnings = 0;
+    let breaches = 0;
+    for (const submission of candidates) {
+      const stage = this.stageOf(submission, now);
+      if (!stage || (stage === 'warning' && submission.slaWarningSentAt)) {
+        continue;
+      }
+
+      // Nieudana wysyłka nie zapisuje znacznika - kolejne sprawdzenie spróbuje ponownie.
+      try {
+        await this.mailService.sendContactSlaEscalation({
+          stage,
+          submissionId: submission.id,
+          name: submission.name,
+          email: submission.email,
+          subject: submission.subject,
+          category: submission.category,
+          priority: submission.priority,
+          status: submission.status,
+          createdAt: submission.createdAt,
+          dueAt: submission.slaDueAt as Date,
+          assigneeEmail: submission.assignee?.email,
+          idempotencyKey: `contact-sla:${stage}:${submission.id}:${(submission.slaDueAt as Date).getTime()}`,
+        });
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        this.logger.error(`SLA ${stage} for contact submission ${submission.id} failed: ${reason}`);
+        continue;
+      }
+
+      if (stage === 'breach') {
+        await this.submissionsRepository.update(submission.id, { slaBreachedAt: now });
+        breaches += 1;
+      } else {
+        await this.submissionsRepository.update(submission.id, { slaWarningSentAt: now });
+        warnings += 1;
+      }
+    }
+
+    return { warnings, breaches };
+  }
+
+  async getStats(query: ContactSlaStatsQueryDto): Promise<ContactSlaStats> {
+    const qb = this.submissionsRepository
+      .createQueryBuilder('submission')
+      .select([
+        'submission.id',
+        'submission.category',
+        'submission.status',
+        'submission.createdAt',
+        'submission.slaDueAt',
+        'submission.firstResponseAt',
+      ])
+      .where('submission.slaDueAt IS NOT NULL');
+
+    if (query.createdFrom) {
+      qb.andWhere('submission.createdAt >= :createdFrom', { createdFrom: query.createdFrom });
+    }
+    if (query.createdTo) {
+      qb.andWhere('submission.createdAt <= :createdTo', { createdTo: query.createdTo });
+    }
+
+    const submissions = await qb.getMany();
+    const now = this.clock.now();
+
+    return {
+      from: query.createdFrom,
+      to: query.createdTo,
+      targetHours: { ...this.targetHours },
+      overall: this.measure(submissions, now),
+      categories: Object.values(ContactCategory).map((category) => ({
+        category,
+        ...this.measure(
+          submissions.filter((submission) => submission.category === category),
+          now,
+        ),
+      })),
+    };
+  }
+
+  private stageOf(submission: ContactSubmission, now: Date): ContactSlaStage | null {
+    if (!submission.slaDueAt) {
+      return null;
+    }
+    const due = submission.slaDueAt.getTime();
+    if (now.getTime() >= due) {
+      return 'breach';
+    }
+    const warnAt = due - (due - submission.createdAt.getTime()) * (1 - this.warningRatio);
+    return now.getTime() >= warnAt ? 'warning' : null;
+  }
+
+  private measure(submissions: ContactSubmission[], now: Date): ContactSlaMetrics {
+    const responseMinutes = submissions
+      .filter((submission) => submission.firstResponseAt)
+      .map(
+        (submission) =>
+          ((submission.firstResponseAt as Date).getTime() - submission.createdAt.getTime()) / 60000,
+      );
+    const awaiting = submissions.filter(
+      (submission) => !submission.firstResponseAt && OPEN_STATUSES.includes(submission.status),
+    );
+    const breached = submissions.filter((submission) => {
+      const respondedOrNow =
+        submission.firstResponseAt ?? (awaiting.includes(submission) ? now : null);
+      return respondedOrNow !== null && respondedOrNow > (submission.slaDueAt as Date);
+    });
+
+    return {
+      submissions: submissions.length,
+      responded: responseMinutes.length,
+      awaitingResponse: awaiting.length,
+      breached: breached.length,
+      medianFirstResponseMinutes: median(responseMinutes),
+    };
+  }
+}
+
+function median(values: number[]): number | null {
+  if (!values.length) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const value = sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  return Math.round(value);
+}
@@ -0,0 +1,50 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Clock, CLOCK } from '../../common/clock/clock';
+
+export interface ContactFormToken {
+  formToken: string;
+  issuedAt: Date;
+}
+
+@Injectable()
+export class ContactFormTokenService {
+  private readonly secret: string;
+
+  constructor(
+    private readonly config: ConfigService,
+    @Inject(CLOCK) private readonly clock: Clock,
+  ) {
+    this.secret =
+      this.config.get<string>('CONTACT_FORM_TOKEN_SECRET') ??
+      `${this.config.get<string>('JWT_SECRET', 'change-me')}:contact-form`;
+  }
+
+  issue(): ContactFormToken {
+    const issuedAt = this.clock.now();
+    const timestamp = issuedAt.getTime().toString(36);
+    return { formToken: `${timestamp}.${this.sign(timestamp)}`, issuedAt };
+  }
+
+  // Zwraca moment wydania tokenu albo null, gdy token jest podrobiony lub uszkodzony.
+  verify(formToken: string): Date | null {
+    const [timestamp, signature] = formToken.split('.');
+    if (!timestamp || !signature) {
+      return null;
+    }
+
+    const actual = Buffer.from(signature, 'base64url');
+    const expected = Buffer.from(this.sign(timestamp), 'base64url');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      return null;
+    }
+
+    const issuedAt = new Date(parseInt(timestamp, 36));
+    return Number.isNaN(issuedAt.getTime()) ? null : issuedAt;
+  }
+
+  private sign(value: string): string {
+    return createHmac('sha256', this.secret).update(value).digest('base64url');
+  }
+}
@@ -0,0 +1,115 @@
+import { ConfigService } from '@nestjs/config'
+import { Repository } from 'typeorm'
+import { Clock } from '../../common/clock/clock'
+import {
+  ContactCategory,
+  ContactPriority,
+  PreferredContactMethod,
+  SubmitContactDto
+} from '../dto/submit-contact.dto'
+import { ContactSubmission } from '../entities/contact-submission.entity'
+import { ContactFormTokenService } from './contact-form-token.service'
+import { ContactSpamService } from './contact-spam.service'
+import { DailyCapCheck } from './daily-cap.check'
+import { DisposableEmailCheck } from './disposable-email.check'
+import { FormFillTimeCheck } from './form-fill-time.check'
+import { HoneypotCheck } from './honeypot.check'
+import { KeywordCheck } from './keyword.check'
+import { LinkCountCheck } from './link-count.check'
+
+describe('ContactSpamService', () => {
+  const createService = (recentSubmissions = 0) => {
+    let now = new Date('2025-04-10T10:00:00Z')
+    const clock: Clock = { now: () => now }
+    const configService = {
+      get: jest
+        .fn()
+        .mockImplementation((key: string, defaultValue: unknown) =>
+          key === 'JWT_SECRET' ? 'secret' : defaultValue
+        )
+    } as unknown as ConfigService
+    const submissionsRepository = {
+      count: jest.fn().mockResolvedValue(recentSubmissions)
+    } as unknown as Repository<ContactSubmission>
+
+    const formTokenService = new ContactFormTokenService(configService, clock)
+    const service = new ContactSpamService([
+      new HoneypotCheck(),
+      new FormFillTimeCheck(formTokenService, configService, clock),
+      new LinkCountCheck(configService),
+      new KeywordCheck(configService),
+      new DisposableEmailCheck(configService),
+      new DailyCapCheck(submissionsRepository, configService, clock)
+    ])
+    const advance = (seconds: number) => {
+      now = new Date(now.getTime() + seconds * 1000)
+    }
+    return { service, formTokenService, advance }
+  }
+
+  const submission = (overrides: Partial<SubmitContactDto> = {}): SubmitContactDto => ({
+    name: 'Jan Kowalski',
+    email: 'jan@example.com',
+    subject: 'Nowa strona firmowa',
+    message: 'Dzień dobry, szukam wykonawcy strony, szczegóły na https://example.com/brief.',
+    category: ContactCategory.BUSINESS,
+    priority: ContactPriority.MEDIUM,
+    preferredContact: PreferredContactMethod.EMAIL,
+    gdprConsent: true,
+    ...overrides
+  })
+
+  it('lets a regular submission through', async () => {
+    const { service, formTokenService, advance } = createService()
+    const { formToken } = formTokenService.issue()
+    advance(45)
+
+    await expect(
+      service.evaluate({ submission: submission({ formToken }), context: {} })
+    ).resolves.toEqual({
+      spam: false,
+      reasons: []
+    })
+  })
+
+  it('collects every reason that flagged a bot submission', async () => {
+    const { service, formTokenService } = createService(3)
+    const { formToken } = formTokenService.issue()
+
+    const verdict = await service.evaluate({
+      submission: submission({
+        email: 'bot@abc.mailinator.com',
+        website: 'https://spam.example',
+        formToken,
+        message:
+          'Best SEO services and backlinks: https://a.example https://b.example www.c.example'
+      }),
+      context: {}
+    })
+
+    expect(verdict).toEqual({
+      spam: true,
+      reasons: [
+        'honeypot',
+        'filled-too-fast',
+        'too-many-links',
+        'spam-keywords',
+        'disposable-email',
+        'daily-cap'
+      ]
+    })
+  })
+
+  it('rejects missing, forged and expired form tokens', async () => {
+    const { service, formTokenService, advance } = createService()
+    const { formToken } = formTokenService.issue()
+    const reasons = async (token?: string) =>
+      (await service.evaluate({ submission: submission({ formToken: token }), context: {} }))
+        .reasons
+
+    expect(await reasons()).toEqual(['form-token-missing'])
+    expect(await reasons(`${formToken.split('.')[0]}.forged`)).toEqual(['form-token-invalid'])
+    advance(25 * 60 * 60)
+    expect(await reasons(formToken)).toEqual(['form-token-expired'])
+  })
+})
@@ -0,0 +1,19 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { CONTACT_SPAM_CHECKS, SpamCheck, SpamCheckInput } from './spam-check.interface';
+
+export interface SpamVerdict {
+  spam: boolean;
+  reasons: string[];
+}
+
+@Injectable()
+export class ContactSpamService {
+  constructor(@Inject(CONTACT_SPAM_CHECKS) private readonly checks: SpamCheck[]) {}
+
+  // Uruchamiamy wszystkie sprawdzenia, żeby w kwarantannie było widać pełny zestaw powodów.
+  async evaluate(input: SpamCheckInput): Promise<SpamVerdict> {
+    const results = await Promise.all(this.checks.map((check) => check.check(input)));
+    const reasons = results.filter((reason): reason is string => Boolean(reason));
+    return { spam: reasons.length > 0, reasons };
+  }
+}
@@ -0,0 +1,29 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { MoreThanOrEqual, Repository } from 'typeorm';
+import { Clock, CLOCK } from '../../common/clock/clock';
+import { ContactSubmission } from '../entities/contact-submission.entity';
+import { SpamCheck, SpamCheckInput } from './spam-check.interface';
+
+@Injectable()
+export class DailyCapCheck implements SpamCheck {
+  private readonly dailyLimit: number;
+
+  constructor(
+    @InjectRepository(ContactSubmission)
+    private readonly submissionsRepository: Repository<ContactSubmission>,
+    private readonly config: ConfigService,
+    @Inject(CLOCK) private readonly clock: Clock,
+  ) {
+    this.dailyLimit = this.config.get<number>('CONTACT_DAILY_LIMIT_PER_EMAIL', 3);
+  }
+
+  async check({ submission }: SpamCheckInput): Promise<string | null> {
+    const since = new Date(this.clock.now().getTime() - 24 * 60 * 60 * 1000);
+    const count = await this.submissionsRepository.count({
+      where: { email: submission.email.trim().toLowerCase(), createdAt: MoreThanOrEqual(since) },
+    });
+    return count >= this.dailyLimit ? 'daily-cap' : null;
+  }
+}
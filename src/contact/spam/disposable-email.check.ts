@@ -0,0 +1,58 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SpamCheck, SpamCheckInput } from './spam-check.interface';
+
+const DISPOSABLE_EMAIL_DOMAINS = [
+  '10minutemail.com',
+  '20minutemail.com',
+  'burnermail.io',
+  'discard.email',
+  'dispostable.com',
+  'emailondeck.com',
+  'fakeinbox.com',
+  'getairmail.com',
+  'getnada.com',
+  'guerrillamail.com',
+  'guerrillamail.net',
+  'guerrillamailblock.com',
+  'maildrop.cc',
+  'mailinator.com',
+  'mailnesia.com',
+  'mintemail.com',
+  'mohmal.com',
+  'moakt.com',
+  'mytemp.email',
+  'sharklasers.com',
+  'spam4.me',
+  'spamgourmet.com',
+  'temp-mail.org',
+  'tempail.com',
+  'tempmail.com',
+  'tempmailo.com',
+  'tempr.email',
+  'throwawaymail.com',
+  'trashmail.com',
+  'yopmail.com',
+  'yopmail.net',
+];
+
+@Injectable()
+export class DisposableEmailCheck implements SpamCheck {
+  private readonly domains: Set<string>;
+
+  constructor(private readonly config: ConfigService) {
+    const extra = (this.config.get<string>('CONTACT_DISPOSABLE_DOMAINS') ?? '')
+      .split(',')
+      .map((domain) => domain.trim().toLowerCase())
+      .filter(Boolean);
+    this.domains = new Set([...DISPOSABLE_EMAIL_DOMAINS, ...extra]);
+  }
+
+  check({ submission }: SpamCheckInput): string | null {
+    const domain = submission.email.trim().toLowerCase().split('@')[1] ?? '';
+    // Obejmuje też subdomeny, np. abc.mailinator.com.
+    const parts = domain.split('.');
+    const disposable = parts.some((_, index) => this.domains.has(parts.slice(index).join('.')));
+    return disposable ? 'disposable-email' : null;
+  }
+}
@@ -0,0 +1,41 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Clock, CLOCK } from '../../common/clock/clock';
+import { ContactFormTokenService } from './contact-form-token.service';
+import { SpamCheck, SpamCheckInput } from './spam-check.interface';
+
+@Injectable()
+export class FormFillTimeCheck implements SpamCheck {
+  private readonly minFillMs: number;
+  private readonly maxAgeMs: number;
+
+  constructor(
+    private readonly formTokenService: ContactFormTokenService,
+    private readonly config: ConfigService,
+    @Inject(CLOCK) private readonly clock: Clock,
+  ) {
+    this.minFillMs = this.config.get<number>('CONTACT_MIN_FILL_SECONDS', 3) * 1000;
+    this.maxAgeMs =
+      this.config.get<number>('CONTACT_FORM_TOKEN_MAX_AGE_HOURS', 24) * 60 * 60 * 1000;
+  }
+
+  check({ submission }: SpamCheckInput): string | null {
+    if (!submission.formToken) {
+      return 'form-token-missing';
+    }
+
+    const issuedAt = this.formTokenService.verify(submission.formToken);
+    if (!issuedAt) {
+      return 'form-token-invalid';
+    }
+
+    const elapsed = this.clock.now().getTime() - issuedAt.getTime();
+    if (elapsed < this.minFillMs) {
+      return 'filled-too-fast';
+    }
+    if (elapsed > this.maxAgeMs) {
+      return 'form-token-expired';
+    }
+    return null;
+  }
+}
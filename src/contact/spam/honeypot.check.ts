@@ -0,0 +1,9 @@
+import { Injectable } from '@nestjs/common';
+import { SpamCheck, SpamCheckInput } from './spam-check.interface';
+
+@Injectable()
+export class HoneypotCheck implements SpamCheck {
+  check({ submission }: SpamCheckInput): string | null {
+    return submission.website?.trim() ? 'honeypot' : null;
+  }
+}
@@ -0,0 +1,50 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SpamCheck, SpamCheckInput } from './spam-check.interface';
+
+const DEFAULT_SPAM_KEYWORDS = [
+  'viagra',
+  'cialis',
+  'casino',
+  'betting',
+  'forex',
+  'bitcoin',
+  'binary options',
+  'payday loan',
+  'seo services',
+  'backlinks',
+  'guest post',
+  'rank your website',
+  'first page of google',
+  'escort',
+  'adult dating',
+  'porn',
+  'crypto investment',
+  'make money fast',
+  'work from home',
+  'lead generation',
+];
+
+// Pojedyncze słowo może paść w zwykłym zapytaniu, dlatego odrzucamy dopiero kilka różnych trafień.
+@Injectable()
+export class KeywordCheck implements SpamCheck {
+  private readonly keywords: string[];
+  private readonly threshold: number;
+
+  constructor(private readonly config: ConfigService) {
+    const extra = (this.config.get<string>('CONTACT_SPAM_KEYWORDS') ?? '')
+      .split(',')
+      .map((keyword) => keyword.trim().toLowerCase())
+      .filter(Boolean);
+    this.keywords = [...new Set([...DEFAULT_SPAM_KEYWORDS, ...extra])];
+    this.threshold = this.config.get<number>('CONTACT_SPAM_KEYWORD_THRESHOLD', 2);
+  }
+
+  check({ submission }: SpamCheckInput): string | null {
+    const text = [submission.name, submission.company, submission.subject, submission.message]
+      .join('\n')
+      .toLowerCase();
+    const hits = this.keywords.filter((keyword) => text.includes(keyword)).length;
+    return hits >= this.threshold ? 'spam-keywords' : null;
+  }
+}
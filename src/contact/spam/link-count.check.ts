@@ -0,0 +1,20 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SpamCheck, SpamCheckInput } from './spam-check.interface';
+
+const LINK_PATTERN = /(https?:\/\/|www\.|\[url=)/gi;
+
+@Injectable()
+export class LinkCountCheck implements SpamCheck {
+  private readonly maxLinks: number;
+
+  constructor(private readonly config: ConfigService) {
+    this.maxLinks = this.config.get<number>('CONTACT_SPAM_MAX_LINKS', 2);
+  }
+
+  check({ submission }: SpamCheckInput): string | null {
+    const text = [submission.subject, submission.message, submission.company].join('\n');
+    const links = text.match(LINK_PATTERN)?.length ?? 0;
+    return links > this.maxLinks ? 'too-many-links' : null;
+  }
+}
@@ -0,0 +1,14 @@
+import { ContactRequestContext } from '../contact.service';
+import { SubmitContactDto } from '../dto/submit-contact.dto';
+
+export const CONTACT_SPAM_CHECKS = Symbol('CONTACT_SPAM_CHECKS');
+
+export interface SpamCheckInput {
+  submission: SubmitContactDto;
+  context: ContactRequestContext;
+}
+
+export interface SpamCheck {
+  // Zwraca kod powodu odrzucenia albo null, gdy zgłoszenie przeszło sprawdzenie.
+  check(input: SpamCheckInput): Promise<string | null> | string | null;
+}
@@ -2,14 +2,45 @@ import 'dotenv/config'
 import { DataSource } from 'typeorm'
 import { join } from 'path'
 import { User } from '../users/entities/user.entity'
+import { LoginLockout } from '../auth/entities/login-lockout.entity'
 import { LoginToken } from '../auth/entities/login-token.entity'
+import { RevokedAccessToken } from '../auth/entities/revoked-access-token.entity'
+import { Session } from '../auth/entities/session.entity'
+import { TotpRecoveryCode } from '../auth/entities/totp-recovery-code.entity'
+import { ConsentRecord } from '../consent/entities/consent-record.entity'
+import { ContactHistoryEntry } from '../contact/entities/contact-history-entry.entity'
+import { ContactAttachment } from '../contact/entities/contact-attachment.entity'
+import { ContactMessage } from '../contact/entities/contact-message.entity'
+import { ContactNote } from '../contact/entities/contact-note.entity'
+import { ContactSubmission } from '../contact/entities/contact-submission.entity'
+import { EmailOutboxMessage } from '../mail/entities/email-outbox-message.entity'
+import { NewsletterCampaign } from '../newsletter/entities/newsletter-campaign.entity'
+import { NewsletterSubscriber } from '../newsletter/entities/newsletter-subscriber.entity'
+import { AccountErasureRequest } from '../privacy/entities/account-erasure-request.entity'
 
 const databasePath = process.env.DATABASE_URL ?? './data/app.db'
 
 export const AppDataSource = new DataSource({
   type: 'sqlite',
   database: databasePath,
-  entities: [User, LoginToken],
+  entities: [
+    User,
+    LoginToken,
+    Session,
+    RevokedAccessToken,
+    LoginLockout,
+    TotpRecoveryCode,
+    AccountErasureRequest,
+    ContactSubmission,
+    ContactNote,
+    ContactHistoryEntry,
+    ContactMessage,
+    ContactAttachment,
+    NewsletterSubscriber,
+    NewsletterCampaign,
+    ConsentRecord,
+    EmailOutboxMessage
+  ],
   migrations: [join(__dirname, 'migrations/*{.ts,.js}')],
   synchronize: false,
   logging: process.env.DATABASE_LOGGING === 'true'
@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class Sessions0021761310000000 implements MigrationInterface {
+  name = 'Sessions0021761310000000'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "sessions" (
+        "id" varchar PRIMARY KEY NOT NULL,
+        "refreshTokenHash" varchar NOT NULL,
+        "expiresAt" datetime NOT NULL,
+        "lastUsedAt" datetime,
+        "revokedAt" datetime,
+        "revokedReason" varchar,
+        "userAgent" varchar,
+        "ipAddress" varchar,
+        "userId" varchar NOT NULL,
+        "createdAt" datetime DEFAULT (datetime('now')) NOT NULL,
+        "updatedAt" datetime DEFAULT (datetime('now')) NOT NULL,
+        CONSTRAINT "FK_sessions_user" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION
+      )
+    `)
+
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_sessions_userId" ON "sessions" ("userId")`)
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_sessions_userId"`)
+    await queryRunner.query(`DROP TABLE IF EXISTS "sessions"`)
+  }
+}
@@ -0,0 +1,26 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class RevokedAccessTokens0031761320000000 implements MigrationInterface {
+  name = 'RevokedAccessTokens0031761320000000'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "revoked_access_tokens" (
+        "jti" varchar PRIMARY KEY NOT NULL,
+        "userId" varchar,
+        "reason" varchar,
+        "expiresAt" datetime NOT NULL,
+        "createdAt" datetime DEFAULT (datetime('now')) NOT NULL
+      )
+    `)
+
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_revoked_access_tokens_expiresAt" ON "revoked_access_tokens" ("expiresAt")`
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_revoked_access_tokens_expiresAt"`)
+    await queryRunner.query(`DROP TABLE IF EXISTS "revoked_access_tokens"`)
+  }
+}
@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class LoginAttempts0041761330000000 implements MigrationInterface {
+  name = 'LoginAttempts0041761330000000'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "login_tokens" ADD COLUMN "failedAttempts" integer NOT NULL DEFAULT 0`
+    )
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "login_lockouts" (
+        "email" varchar PRIMARY KEY NOT NULL,
+        "failedAttempts" integer NOT NULL DEFAULT 0,
+        "lockoutCount" integer NOT NULL DEFAULT 0,
+        "lockedUntil" datetime,
+        "lastFailedAt" datetime,
+        "updatedAt" datetime DEFAULT (datetime('now')) NOT NULL
+      )
+    `)
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "login_lockouts"`)
+    await queryRunner.query(`ALTER TABLE "login_tokens" DROP COLUMN "failedAttempts"`)
+  }
+}
@@ -0,0 +1,70 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class HashedLoginCodes0051761340000000 implements MigrationInterface {
+  name = 'HashedLoginCodes0051761340000000'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // SQLite nie usuwa ograniczenia UNIQUE przez ALTER TABLE, więc przebudowujemy tabelę.
+    // Kody zapisane dotąd otwartym tekstem zostają unieważnione - "invalidated" nie jest poprawnym hashem HMAC.
+    await queryRunner.query(`
+      CREATE TABLE "login_tokens_new" (
+        "id" varchar PRIMARY KEY NOT NULL,
+        "codeHash" varchar NOT NULL,
+        "expiresAt" datetime NOT NULL,
+        "consumedAt" datetime,
+        "revoked" boolean NOT NULL DEFAULT 0,
+        "failedAttempts" integer NOT NULL DEFAULT 0,
+        "userId" varchar NOT NULL,
+        "createdAt" datetime DEFAULT (datetime('now')) NOT NULL,
+        "updatedAt" datetime DEFAULT (datetime('now')) NOT NULL,
+        CONSTRAINT "FK_login_tokens_user" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION
+      )
+    `)
+
+    await queryRunner.query(`
+      INSERT INTO "login_tokens_new" ("id", "codeHash", "expiresAt", "consumedAt", "revoked", "failedAttempts", "userId", "createdAt", "updatedAt")
+      SELECT "id", 'invalidated', "expiresAt", "consumedAt", 1, "failedAttempts", "userId", "createdAt", "updatedAt"
+      FROM "login_tokens"
+    `)
+
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_login_tokens_code"`)
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_login_tokens_userId"`)
+    await queryRunner.query(`DROP TABLE "login_tokens"`)
+    await queryRunner.query(`ALTER TABLE "login_tokens_new" RENAME TO "login_tokens"`)
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_login_tokens_userId" ON "login_tokens" ("userId")`)
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_login_tokens_userId_codeHash" ON "login_tokens" ("userId", "codeHash")`
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Hashy nie da się odwrócić - przywrócone wiersze dostają unikalny, nieużywalny kod.
+    await queryRunner.query(`
+      CREATE TABLE "login_tokens_old" (
+        "id" varchar PRIMARY KEY NOT NULL,
+        "code" varchar NOT NULL UNIQUE,
+        "expiresAt" datetime NOT NULL,
+        "consumedAt" datetime,
+        "revoked" boolean NOT NULL DEFAULT 0,
+        "failedAttempts" integer NOT NULL DEFAULT 0,
+        "userId" varchar NOT NULL,
+        "createdAt" datetime DEFAULT (datetime('now')) NOT NULL,
+        "updatedAt" datetime DEFAULT (datetime('now')) NOT NULL,
+        CONSTRAINT "FK_login_tokens_user" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION
+      )
+    `)
+
+    await queryRunner.query(`
+      INSERT INTO "login_tokens_old" ("id", "code", "expiresAt", "consumedAt", "revoked", "failedAttempts", "userId", "createdAt", "updatedAt")
+      SELECT "id", 'invalidated-' || "id", "expiresAt", "consumedAt", 1, "failedAttempts", "userId", "createdAt", "updatedAt"
+      FROM "login_tokens"
+    `)
+
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_login_tokens_userId_codeHash"`)
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_login_tokens_userId"`)
+    await queryRunner.query(`DROP TABLE "login_tokens"`)
+    await queryRunner.query(`ALTER TABLE "login_tokens_old" RENAME TO "login_tokens"`)
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_login_tokens_code" ON "login_tokens" ("code")`)
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_login_tokens_userId" ON "login_tokens" ("userId")`)
+  }
+}
@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class MagicLinks0061761350000000 implements MigrationInterface {
+  name = 'MagicLinks0061761350000000'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "login_tokens" ADD COLUMN "magicLinkHash" varchar`)
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_login_tokens_userId_magicLinkHash" ON "login_tokens" ("userId", "magicLinkHash")`
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_login_tokens_userId_magicLinkHash"`)
+    await queryRunner.query(`ALTER TABLE "login_tokens" DROP COLUMN "magicLinkHash"`)
+  }
+}
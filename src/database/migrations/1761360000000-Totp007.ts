@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class Totp0071761360000000 implements MigrationInterface {
+  name = 'Totp0071761360000000'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "users" ADD COLUMN "totpSecret" varchar`)
+    await queryRunner.query(`ALTER TABLE "users" ADD COLUMN "totpEnabledAt" datetime`)
+    await queryRunner.query(`ALTER TABLE "users" ADD COLUMN "totpLastUsedStep" integer`)
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "totp_recovery_codes" (
+        "id" varchar PRIMARY KEY NOT NULL,
+        "codeHash" varchar NOT NULL,
+        "usedAt" datetime,
+        "userId" varchar NOT NULL,
+        "createdAt" datetime DEFAULT (datetime('now')) NOT NULL,
+        CONSTRAINT "FK_totp_recovery_codes_user" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION
+      )
+    `)
+
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_totp_recovery_codes_userId" ON "totp_recovery_codes" ("userId")`
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_totp_recovery_codes_userId"`)
+    await queryRunner.query(`DROP TABLE IF EXISTS "totp_recovery_codes"`)
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "totpLastUsedStep"`)
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "totpEnabledAt"`)
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "totpSecret"`)
+  }
+}
@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class UserAdministration0091761380000000 implements MigrationInterface {
+  name = 'UserAdministration0091761380000000'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "users" ADD COLUMN "phone" varchar`)
+    await queryRunner.query(`ALTER TABLE "users" ADD COLUMN "company" varchar`)
+    await queryRunner.query(`ALTER TABLE "users" ADD COLUMN "blockedAt" datetime`)
+    await queryRunner.query(`ALTER TABLE "users" ADD COLUMN "blockedReason" varchar`)
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_users_createdAt" ON "users" ("createdAt")`)
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_users_createdAt"`)
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "blockedReason"`)
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "blockedAt"`)
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "company"`)
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "phone"`)
+  }
+}
@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class AccountErasure0101761390000000 implements MigrationInterface {
+  name = 'AccountErasure0101761390000000'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "account_erasure_requests" (
+        "id" varchar PRIMARY KEY NOT NULL,
+        "codeHash" varchar NOT NULL,
+        "expiresAt" datetime NOT NULL,
+        "failedAttempts" integer NOT NULL DEFAULT (0),
+        "userId" varchar NOT NULL,
+        "createdAt" datetime DEFAULT (datetime('now')) NOT NULL,
+        CONSTRAINT "FK_account_erasure_requests_user" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION
+      )
+    `)
+
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_account_erasure_requests_userId" ON "account_erasure_requests" ("userId")`
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_account_erasure_requests_userId"`)
+    await queryRunner.query(`DROP TABLE IF EXISTS "account_erasure_requests"`)
+  }
+}
@@ -0,0 +1,48 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class ContactSubmissions0111761400000000 implements MigrationInterface {
+  name = 'ContactSubmissions0111761400000000'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "contact_submissions" (
+        "id" varchar PRIMARY KEY NOT NULL,
+        "name" varchar NOT NULL,
+        "email" varchar NOT NULL,
+        "phone" varchar,
+        "company" varchar,
+        "subject" varchar NOT NULL,
+        "message" text NOT NULL,
+        "category" varchar NOT NULL,
+        "priority" varchar NOT NULL,
+        "preferredContact" varchar NOT NULL,
+        "budget" varchar,
+        "timeline" varchar,
+        "gdprConsent" boolean NOT NULL,
+        "marketingConsent" boolean NOT NULL DEFAULT 0,
+        "ipAddress" varchar,
+        "userAgent" varchar,
+        "notificationStatus" varchar NOT NULL DEFAULT 'pending',
+        "notifiedAt" datetime,
+        "acknowledgementStatus" varchar NOT NULL DEFAULT 'pending',
+        "acknowledgedAt" datetime,
+        "deliveryError" varchar,
+        "createdAt" datetime DEFAULT (datetime('now')) NOT NULL,
+        "updatedAt" datetime DEFAULT (datetime('now')) NOT NULL
+      )
+    `)
+
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_contact_submissions_email" ON "contact_submissions" ("email")`
+    )
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_contact_submissions_createdAt" ON "contact_submissions" ("createdAt")`
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_contact_submissions_createdAt"`)
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_contact_submissions_email"`)
+    await queryRunner.query(`DROP TABLE IF EXISTS "contact_submissions"`)
+  }
+}
@@ -0,0 +1,65 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class ContactInbox0121761410000000 implements MigrationInterface {
+  name = 'ContactInbox0121761410000000'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "contact_submissions" ADD COLUMN "status" varchar NOT NULL DEFAULT 'new'`
+    )
+    await queryRunner.query(
+      `ALTER TABLE "contact_submissions" ADD COLUMN "assigneeId" varchar REFERENCES "users" ("id") ON DELETE SET NULL`
+    )
+    await queryRunner.query(`ALTER TABLE "contact_submissions" ADD COLUMN "tags" text NOT NULL DEFAULT ''`)
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_contact_submissions_status" ON "contact_submissions" ("status")`
+    )
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_contact_submissions_assigneeId" ON "contact_submissions" ("assigneeId")`
+    )
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "contact_notes" (
+        "id" varchar PRIMARY KEY NOT NULL,
+        "body" text NOT NULL,
+        "submissionId" varchar NOT NULL,
+        "authorId" varchar,
+        "createdAt" datetime DEFAULT (datetime('now')) NOT NULL,
+        CONSTRAINT "FK_contact_notes_submission" FOREIGN KEY ("submissionId") REFERENCES "contact_submissions" ("id") ON DELETE CASCADE ON UPDATE NO ACTION,
+        CONSTRAINT "FK_contact_notes_author" FOREIGN KEY ("authorId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE NO ACTION
+      )
+    `)
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_contact_notes_submissionId" ON "contact_notes" ("submissionId")`
+    )
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "contact_history" (
+        "id" varchar PRIMARY KEY NOT NULL,
+        "action" varchar NOT NULL,
+        "fromValue" varchar,
+        "toValue" varchar,
+        "submissionId" varchar NOT NULL,
+        "actorId" varchar,
+        "createdAt" datetime DEFAULT (datetime('now')) NOT NULL,
+        CONSTRAINT "FK_contact_history_submission" FOREIGN KEY ("submissionId") REFERENCES "contact_submissions" ("id") ON DELETE CASCADE ON UPDATE NO ACTION,
+        CONSTRAINT "FK_contact_history_actor" FOREIGN KEY ("actorId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE NO ACTION
+      )
+    `)
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_contact_history_submissionId" ON "contact_history" ("submissionId")`
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_contact_history_submissionId"`)
+    await queryRunner.query(`DROP TABLE IF EXISTS "contact_history"`)
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_contact_notes_submissionId"`)
+    await queryRunner.query(`DROP TABLE IF EXISTS "contact_notes"`)
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_contact_submissions_assigneeId"`)
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_contact_submissions_status"`)
+    await queryRunner.query(`ALTER TABLE "contact_submissions" DROP COLUMN "tags"`)
+    await queryRunner.query(`ALTER TABLE "contact_submissions" DROP COLUMN "assigneeId"`)
+    await queryRunner.query(`ALTER TABLE "contact_submissions" DROP COLUMN "status"`)
+  }
+}
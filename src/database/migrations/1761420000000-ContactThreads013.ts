@@ -0,0 +1,44 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class ContactThreads0131761420000000 implements MigrationInterface {
+  name = 'ContactThreads0131761420000000'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "contact_submissions" ADD COLUMN "language" varchar`)
+    await queryRunner.query(`ALTER TABLE "contact_submissions" ADD COLUMN "threadToken" varchar`)
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "IDX_contact_submissions_threadToken" ON "contact_submissions" ("threadToken")`
+    )
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "contact_messages" (
+        "id" varchar PRIMARY KEY NOT NULL,
+        "direction" varchar NOT NULL,
+        "messageId" varchar NOT NULL UNIQUE,
+        "inReplyTo" varchar,
+        "references" text,
+        "fromEmail" varchar NOT NULL,
+        "toEmail" varchar NOT NULL,
+        "subject" varchar NOT NULL,
+        "body" text NOT NULL,
+        "deliveryStatus" varchar NOT NULL DEFAULT 'pending',
+        "submissionId" varchar NOT NULL,
+        "authorId" varchar,
+        "createdAt" datetime DEFAULT (datetime('now')) NOT NULL,
+        CONSTRAINT "FK_contact_messages_submission" FOREIGN KEY ("submissionId") REFERENCES "contact_submissions" ("id") ON DELETE CASCADE ON UPDATE NO ACTION,
+        CONSTRAINT "FK_contact_messages_author" FOREIGN KEY ("authorId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE NO ACTION
+      )
+    `)
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_contact_messages_submissionId" ON "contact_messages" ("submissionId")`
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_contact_messages_submissionId"`)
+    await queryRunner.query(`DROP TABLE IF EXISTS "contact_messages"`)
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_contact_submissions_threadToken"`)
+    await queryRunner.query(`ALTER TABLE "contact_submissions" DROP COLUMN "threadToken"`)
+    await queryRunner.query(`ALTER TABLE "contact_submissions" DROP COLUMN "language"`)
+  }
+}
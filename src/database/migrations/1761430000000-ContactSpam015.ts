@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class ContactSpam0151761430000000 implements MigrationInterface {
+  name = 'ContactSpam0151761430000000'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "contact_submissions" ADD COLUMN "spamReasons" text NOT NULL DEFAULT ''`
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "contact_submissions" DROP COLUMN "spamReasons"`)
+  }
+}
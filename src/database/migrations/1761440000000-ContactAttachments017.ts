@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class ContactAttachments0171761440000000 implements MigrationInterface {
+  name = 'ContactAttachments0171761440000000'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "contact_attachments" (
+        "id" varchar PRIMARY KEY NOT NULL,
+        "filename" varchar NOT NULL,
+        "mimeType" varchar NOT NULL,
+        "size" integer NOT NULL,
+        "storageKey" varchar NOT NULL,
+        "submissionId" varchar NOT NULL,
+        "createdAt" datetime DEFAULT (datetime('now')) NOT NULL,
+        CONSTRAINT "FK_contact_attachments_submission" FOREIGN KEY ("submissionId") REFERENCES "contact_submissions" ("id") ON DELETE CASCADE ON UPDATE NO ACTION
+      )
+    `)
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_contact_attachments_submissionId" ON "contact_attachments" ("submissionId")`
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_contact_attachments_submissionId"`)
+    await queryRunner.query(`DROP TABLE IF EXISTS "contact_attachments"`)
+  }
+}
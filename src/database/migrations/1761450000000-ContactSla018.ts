@@ -0,0 +1,44 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class ContactSla0181761450000000 implements MigrationInterface {
+  name = 'ContactSla0181761450000000'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "contact_submissions" ADD COLUMN "slaDueAt" datetime`)
+    await queryRunner.query(`ALTER TABLE "contact_submissions" ADD COLUMN "firstResponseAt" datetime`)
+    await queryRunner.query(`ALTER TABLE "contact_submissions" ADD COLUMN "slaWarningSentAt" datetime`)
+    await queryRunner.query(`ALTER TABLE "contact_submissions" ADD COLUMN "slaBreachedAt" datetime`)
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_contact_submissions_slaDueAt" ON "contact_submissions" ("slaDueAt")`
+    )
+
+    // Istniejące zgłoszenia dostają termin według domyślnych celów (high 4 h, medium 24 h, low 72 h).
+    await queryRunner.query(`
+      UPDATE "contact_submissions"
+      SET "slaDueAt" = datetime("createdAt", CASE "priority"
+        WHEN 'high' THEN '+4 hours'
+        WHEN 'low' THEN '+72 hours'
+        ELSE '+24 hours'
+      END)
+      WHERE "status" != 'spam'
+    `)
+    // Za pierwszą odpowiedź uznajemy najstarszą wysłaną odpowiedź z panelu.
+    await queryRunner.query(`
+      UPDATE "contact_submissions"
+      SET "firstResponseAt" = (
+        SELECT MIN("message"."createdAt") FROM "contact_messages" "message"
+        WHERE "message"."submissionId" = "contact_submissions"."id"
+          AND "message"."direction" = 'outbound'
+          AND "message"."deliveryStatus" = 'sent'
+      )
+    `)
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_contact_submissions_slaDueAt"`)
+    await queryRunner.query(`ALTER TABLE "contact_submissions" DROP COLUMN "slaBreachedAt"`)
+    await queryRunner.query(`ALTER TABLE "contact_submissions" DROP COLUMN "slaWarningSentAt"`)
+    await queryRunner.query(`ALTER TABLE "contact_submissions" DROP COLUMN "firstResponseAt"`)
+    await queryRunner.query(`ALTER TABLE "contact_submissions" DROP COLUMN "slaDueAt"`)
+  }
+}
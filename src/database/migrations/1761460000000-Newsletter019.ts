@@ -0,0 +1,51 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class Newsletter0191761460000000 implements MigrationInterface {
+  name = 'Newsletter0191761460000000'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "newsletter_subscribers" (
+        "id" varchar PRIMARY KEY NOT NULL,
+        "email" varchar NOT NULL UNIQUE,
+        "name" varchar,
+        "language" varchar NOT NULL DEFAULT 'pl',
+        "status" varchar NOT NULL DEFAULT 'pending',
+        "source" varchar NOT NULL,
+        "consentRequestedAt" datetime NOT NULL,
+        "consentIpAddress" varchar,
+        "consentUserAgent" varchar,
+        "confirmedAt" datetime,
+        "unsubscribedAt" datetime,
+        "confirmationTokenHash" varchar UNIQUE,
+        "confirmationExpiresAt" datetime,
+        "createdAt" datetime DEFAULT (datetime('now')) NOT NULL,
+        "updatedAt" datetime DEFAULT (datetime('now')) NOT NULL
+      )
+    `)
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_newsletter_subscribers_status" ON "newsletter_subscribers" ("status")`
+    )
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "newsletter_campaigns" (
+        "id" varchar PRIMARY KEY NOT NULL,
+        "translations" text NOT NULL,
+        "status" varchar NOT NULL DEFAULT 'draft',
+        "createdById" varchar,
+        "sentAt" datetime,
+        "recipientCount" integer NOT NULL DEFAULT 0,
+        "failedCount" integer NOT NULL DEFAULT 0,
+        "createdAt" datetime DEFAULT (datetime('now')) NOT NULL,
+        "updatedAt" datetime DEFAULT (datetime('now')) NOT NULL,
+        CONSTRAINT "FK_newsletter_campaigns_createdBy" FOREIGN KEY ("createdById") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE NO ACTION
+      )
+    `)
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "newsletter_campaigns"`)
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_newsletter_subscribers_status"`)
+    await queryRunner.query(`DROP TABLE IF EXISTS "newsletter_subscribers"`)
+  }
+}
@@ -0,0 +1,43 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class ConsentLedger0201761470000000 implements MigrationInterface {
+  name = 'ConsentLedger0201761470000000'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "consent_records" (
+        "id" varchar PRIMARY KEY NOT NULL,
+        "subjectEmail" varchar,
+        "subjectHash" varchar NOT NULL,
+        "userId" varchar,
+        "type" varchar NOT NULL,
+        "action" varchar NOT NULL,
+        "policyVersion" varchar NOT NULL,
+        "policyHash" varchar NOT NULL,
+        "language" varchar NOT NULL DEFAULT 'pl',
+        "source" varchar NOT NULL,
+        "referenceId" varchar,
+        "ipAddress" varchar,
+        "userAgent" varchar,
+        "recordedAt" datetime NOT NULL,
+        CONSTRAINT "FK_consent_records_user" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE NO ACTION
+      )
+    `)
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_consent_records_subjectEmail" ON "consent_records" ("subjectEmail")`
+    )
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_consent_records_subjectHash" ON "consent_records" ("subjectHash")`
+    )
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_consent_records_recordedAt" ON "consent_records" ("recordedAt")`
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_consent_records_recordedAt"`)
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_consent_records_subjectHash"`)
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_consent_records_subjectEmail"`)
+    await queryRunner.query(`DROP TABLE IF EXISTS "consent_records"`)
+  }
+}
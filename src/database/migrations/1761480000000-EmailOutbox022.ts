@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class EmailOutbox0221761480000000 implements MigrationInterface {
+  name = 'EmailOutbox0221761480000000'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "email_outbox" (
+        "id" varchar PRIMARY KEY NOT NULL,
+        "idempotencyKey" varchar NOT NULL UNIQUE,
+        "kind" varchar NOT NULL,
+        "recipient" varchar NOT NULL,
+        "subject" varchar NOT NULL,
+        "payload" text,
+        "status" varchar NOT NULL DEFAULT 'pending',
+        "attempts" integer NOT NULL DEFAULT 0,
+        "nextAttemptAt" datetime NOT NULL,
+        "lastError" varchar,
+        "sentAt" datetime,
+        "createdAt" datetime DEFAULT (datetime('now')) NOT NULL,
+        "updatedAt" datetime DEFAULT (datetime('now')) NOT NULL
+      )
+    `)
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_email_outbox_status_nextAttemptAt" ON "email_outbox" ("status", "nextAttemptAt")`
+    )
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_email_outbox_recipient" ON "email_outbox" ("recipient")`
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_email_outbox_recipient"`)
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_email_outbox_status_nextAttemptAt"`)
+    await queryRunner.query(`DROP TABLE IF EXISTS "email_outbox"`)
+  }
+}
@@ -0,0 +1,64 @@
+import { Controller, Get, Param, ParseUUIDPipe, Post, Query, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { UserRole } from '../users/enums/user-role.enum';
+import { ListEmailOutboxQueryDto } from './dto/list-email-outbox-query.dto';
+import { EmailOutboxService } from './email-outbox.service';
+import { EmailOutboxMessage } from './entities/email-outbox-message.entity';
+
+// Treść wiadomości (np. kody logowania) nie wychodzi poza kolejkę.
+const serializeOutboxMessage = (entry: EmailOutboxMessage) => ({
+  id: entry.id,
+  idempotencyKey: entry.idempotencyKey,
+  kind: entry.kind,
+  recipient: entry.recipient,
+  subject: entry.subject,
+  status: entry.status,
+  attempts: entry.attempts,
+  nextAttemptAt: entry.nextAttemptAt,
+  lastError: entry.lastError,
+  sentAt: entry.sentAt,
+  createdAt: entry.createdAt,
+});
+
+@ApiTags('admin / email outbox')
+@ApiBearerAuth('bearer')
+@ApiForbiddenResponse({ description: 'Wymagana rola administratora.' })
+@Controller('admin/email-outbox')
+@UseGuards(AuthGuard('jwt'), RolesGuard)
+@Roles(UserRole.ADMIN)
+export class AdminEmailOutboxController {
+  constructor(private readonly outboxService: EmailOutboxService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Kolejka wysyłki e-maili z liczbą prób i ostatnim błędem' })
+  @ApiOkResponse({ description: 'Strona wiadomości wraz z łączną liczbą wyników.' })
+  async list(@Query() query: ListEmailOutboxQueryDto) {
+    const result = await this.outboxService.findAll(query);
+    return {
+      ...result,
+      items: result.items.map(serializeOutboxMessage),
+    };
+  }
+
+  @Post(':id/requeue')
+  @ApiOperation({
+    summary: 'Ponowienie wysyłki wiadomości odłożonej po wyczerpaniu prób',
+    description: 'Licznik prób zaczyna się od zera, a wiadomość trafia do najbliższego przebiegu.',
+  })
+  @ApiBadRequestResponse({ description: 'Wiadomość nie jest odłożona.' })
+  @ApiNotFoundResponse({ description: 'Wiadomość nie istnieje.' })
+  async requeue(@Param('id', ParseUUIDPipe) id: string) {
+    return serializeOutboxMessage(await this.outboxService.requeue(id));
+  }
+}
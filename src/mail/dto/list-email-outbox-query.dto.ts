@@ -0,0 +1,35 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsInt, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+import { EmailOutboxStatus } from '../enums/email-outbox-status.enum';
+
+export class ListEmailOutboxQueryDto {
+  @ApiPropertyOptional({ default: 1, minimum: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ default: 20, minimum: 1, maximum: 100 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @ApiPropertyOptional({ enum: EmailOutboxStatus })
+  @IsOptional()
+  @IsEnum(EmailOutboxStatus)
+  status?: EmailOutboxStatus;
+
+  @ApiPropertyOptional({ description: 'Rodzaj wiadomości, np. contact-notification.' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  kind?: string;
+
+  @ApiPropertyOptional({ description: 'Fragment adresu odbiorcy.' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(190)
+  recipient?: string;
+}
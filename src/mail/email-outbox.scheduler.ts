@@ -0,0 +1,45 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IntervalJob } from '../common/scheduling/interval-job';
+import { EmailOutboxService } from './email-outbox.service';
+
+@Injectable()
+export class EmailOutboxScheduler extends IntervalJob implements OnApplicationBootstrap {
+  private readonly logger = new Logger(EmailOutboxScheduler.name);
+
+  constructor(
+    private readonly outboxService: EmailOutboxService,
+    private readonly config: ConfigService,
+  ) {
+    super();
+  }
+
+  async onApplicationBootstrap(): Promise<void> {
+    const intervalSeconds = Number(this.config.get<number>('MAIL_OUTBOX_POLL_SECONDS', 10));
+    if (intervalSeconds <= 0) {
+      this.logger.warn('Email outbox worker is disabled (MAIL_OUTBOX_POLL_SECONDS=0).');
+      return;
+    }
+
+    const released = await this.outboxService.releaseInterrupted();
+    if (released) {
+      this.logger.warn(`Returned ${released} interrupted email(s) to the outbox.`);
+    }
+
+    this.schedule(intervalSeconds * 1000);
+  }
+
+  protected async execute(): Promise<void> {
+    try {
+      const { sent, retried, dead } = await this.outboxService.processDue();
+      if (retried || dead) {
+        this.logger.warn(
+          `Email outbox run: ${sent} sent, ${retried} to retry, ${dead} dead-lettered.`,
+        );
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Email outbox run failed: ${reason}`);
+    }
+  }
+}
@@ -0,0 +1,199 @@
+import { BadRequestException } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { Repository } from 'typeorm'
+import { Clock } from '../common/clock/clock'
+import { decryptValue, deriveEncryptionKey, encryptValue } from '../common/utils/encryption.utils'
+import { EmailOutboxService } from './email-outbox.service'
+import { EmailOutboxMessage } from './entities/email-outbox-message.entity'
+import { EmailOutboxStatus } from './enums/email-outbox-status.enum'
+import { MailDeliveryService } from './mail-delivery.service'
+import { TransportMessage } from './transports/mail-transport.interface'
+
+describe('EmailOutboxService', () => {
+  const now = new Date('2025-05-01T09:00:00Z')
+  const payloadKey = deriveEncryptionKey('change-me:mail-outbox')
+
+  const composed: TransportMessage = {
+    from: { email: 'no-reply@example.com', name: 'Mariusz Sokołowski' },
+    replyTo: { email: 'no-reply@example.com', name: 'Mariusz Sokołowski' },
+    to: { email: 'anna@example.com', name: 'anna' },
+    subject: 'Nowa wiadomość',
+    html: '<p>Treść</p>',
+    text: 'Treść',
+    attachments: [
+      { filename: 'cv.pdf', contentType: 'application/pdf', content: Buffer.from('%PDF-1.4') }
+    ]
+  }
+
+  const createService = (entries: EmailOutboxMessage[] = []) => {
+    const configService = {
+      get: jest
+        .fn()
+        .mockImplementation((key: string, defaultValue: unknown) =>
+          key === 'MAIL_OUTBOX_MAX_ATTEMPTS' ? '3' : defaultValue
+        )
+    } as unknown as ConfigService
+
+    const outboxRepository = {
+      findOne: jest
+        .fn()
+        .mockImplementation(({ where }: { where: Partial<EmailOutboxMessage> }) =>
+          Promise.resolve(
+            entries.find(
+              (entry) => entry.id === where.id || entry.idempotencyKey === where.idempotencyKey
+            ) ?? null
+          )
+        ),
+      find: jest.fn().mockResolvedValue(entries),
+      create: jest.fn().mockImplementation((data: Partial<EmailOutboxMessage>) => ({ ...data })),
+      save: jest
+        .fn()
+        .mockImplementation((entry: EmailOutboxMessage) =>
+          Promise.resolve({ ...entry, id: 'outbox-1' })
+        ),
+      update: jest.fn().mockResolvedValue({ affected: 1 })
+    } as unknown as jest.Mocked<Repository<EmailOutboxMessage>>
+
+    const deliveryService = {
+      compose: jest.fn().mockReturnValue(composed),
+      deliver: jest.fn().mockResolvedValue(undefined)
+    } as unknown as jest.Mocked<MailDeliveryService>
+
+    const clock: Clock = { now: () => now }
+
+    const service = new EmailOutboxService(outboxRepository, deliveryService, configService, clock)
+    return { service, outboxRepository, deliveryService }
+  }
+
+  const queuedEntry = (overrides: Partial<EmailOutboxMessage> = {}) =>
+    ({
+      id: 'outbox-1',
+      idempotencyKey: 'contact-notification:submission-1',
+      kind: 'contact-notification',
+      recipient: 'anna@example.com',
+      subject: composed.subject,
+      payload: encryptValue(
+        payloadKey,
+        Buffer.from(
+          JSON.stringify({
+            ...composed,
+            attachments: [
+              { filename: 'cv.pdf', contentType: 'application/pdf', content: 'JVBERi0xLjQ=' }
+            ]
+          })
+        )
+      ),
+      status: EmailOutboxStatus.PENDING,
+      attempts: 0,
+      nextAttemptAt: now,
+      ...overrides
+    }) as EmailOutboxMessage
+
+  it('stores the composed message encrypted once per idempotency key', async () => {
+    const existing = queuedEntry()
+    const { service, outboxRepository } = createService([existing])
+
+    await expect(
+      service.enqueue(
+        { to: 'anna@example.com', subject: 'Nowa wiadomość', htmlContent: '<p>Treść</p>' },
+        { kind: 'contact-notification', idempotencyKey: 'contact-notification:submission-1' }
+      )
+    ).resolves.toBe(existing)
+    expect(outboxRepository.save).not.toHaveBeenCalled()
+
+    const created = await service.enqueue(
+      { to: 'anna@example.com', subject: 'Nowa wiadomość', htmlContent: '<p>Treść</p>' },
+      { kind: 'contact-notification', idempotencyKey: 'contact-notification:submission-2' }
+    )
+    expect(created).toMatchObject({
+      recipient: 'anna@example.com',
+      status: EmailOutboxStatus.PENDING,
+      nextAttemptAt: now
+    })
+    expect(created.payload).not.toContain('JVBERi0xLjQ=')
+    expect(
+      JSON.parse(decryptValue(payloadKey, created.payload as string).toString())
+    ).toMatchObject({
+      attachments: [{ filename: 'cv.pdf', content: 'JVBERi0xLjQ=' }]
+    })
+  })
+
+  it('supersedes pending messages of the same kind to the same recipient when asked', async () => {
+    const { service, outboxRepository } = createService()
+
+    await service.enqueue(
+      { to: 'anna@example.com', subject: 'Kod logowania', htmlContent: '<p>123456</p>' },
+      { kind: 'login-token', idempotencyKey: 'login-token:token-1' }
+    )
+    expect(outboxRepository.update).not.toHaveBeenCalled()
+
+    await service.enqueue(
+      { to: 'anna@example.com', subject: 'Kod logowania', htmlContent: '<p>654321</p>' },
+      { kind: 'login-token', supersedePending: true }
+    )
+    expect(outboxRepository.update).toHaveBeenCalledWith(
+      { kind: 'login-token', recipient: 'anna@example.com', status: EmailOutboxStatus.PENDING },
+      { status: EmailOutboxStatus.SUPERSEDED, payload: expect.any(Function) }
+    )
+  })
+
+  it('delivers due messages and drops their content once sent', async () => {
+    const { service, outboxRepository, deliveryService } = createService([queuedEntry()])
+
+    await expect(service.processDue()).resolves.toEqual({ sent: 1, retried: 0, dead: 0 })
+
+    expect(deliveryService.deliver).toHaveBeenCalledWith(composed)
+    expect(outboxRepository.update).toHaveBeenCalledWith(
+      'outbox-1',
+      expect.objectContaining({ status: EmailOutboxStatus.SENT, attempts: 1, sentAt: now })
+    )
+  })
+
+  it('backs off exponentially and dead-letters after the last attempt', async () => {
+    const { service, outboxRepository, deliveryService } = createService([
+      queuedEntry({ attempts: 1 }),
+      queuedEntry({ id: 'outbox-2', idempotencyKey: 'login-token:token-1', attempts: 2 })
+    ])
+    deliveryService.deliver.mockRejectedValue(new Error('connection refused'))
+
+    await expect(service.processDue()).resolves.toEqual({ sent: 0, retried: 1, dead: 1 })
+
+    expect(outboxRepository.update).toHaveBeenCalledWith('outbox-1', {
+      status: EmailOutboxStatus.PENDING,
+      attempts: 2,
+      lastError: 'connection refused',
+      nextAttemptAt: new Date(now.getTime() + 60 * 1000)
+    })
+    expect(outboxRepository.update).toHaveBeenCalledWith('outbox-2', {
+      status: EmailOutboxStatus.DEAD,
+      attempts: 3,
+      lastError: 'connection refused'
+    })
+  })
+
+  it('skips messages another run has already claimed', async () => {
+    const { service, outboxRepository, deliveryService } = createService([queuedEntry()])
+    outboxRepository.update.mockResolvedValueOnce({ affected: 0, raw: [], generatedMaps: [] })
+
+    await expect(service.processDue()).resolves.toEqual({ sent: 0, retried: 0, dead: 0 })
+    expect(deliveryService.deliver).not.toHaveBeenCalled()
+  })
+
+  it('requeues only dead-lettered messages', async () => {
+    const { service } = createService([
+      queuedEntry({ status: EmailOutboxStatus.DEAD, attempts: 8 }),
+      queuedEntry({
+        id: 'outbox-2',
+        idempotencyKey: 'login-token:token-1',
+        status: EmailOutboxStatus.SENT
+      })
+    ])
+
+    await expect(service.requeue('outbox-1')).resolves.toMatchObject({
+      status: EmailOutboxStatus.PENDING,
+      attempts: 0,
+      nextAttemptAt: now
+    })
+    await expect(service.requeue('outbox-2')).rejects.toBeInstanceOf(BadRequestException)
+  })
+})
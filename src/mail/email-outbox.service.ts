@@ -0,0 +1,259 @@
+import { BadRequestException, Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { randomUUID } from 'crypto';
+import { LessThanOrEqual, Repository } from 'typeorm';
+import { CLOCK, Clock } from '../common/clock/clock';
+import { ErrorCode } from '../common/enums/error-code.enum';
+import { apiError } from '../common/i18n/api-messages';
+import { decryptValue, deriveEncryptionKey, encryptValue } from '../common/utils/encryption.utils';
+import { ListEmailOutboxQueryDto } from './dto/list-email-outbox-query.dto';
+import { EmailOutboxMessage } from './entities/email-outbox-message.entity';
+import { EmailOutboxStatus } from './enums/email-outbox-status.enum';
+import { MailDeliveryService, MailMessage } from './mail-delivery.service';
+import { TransportMessage } from './transports/mail-transport.interface';
+
+export interface EnqueueEmailOptions {
+  kind: string;
+  // Bez klucza każde wywołanie to osobna wiadomość.
+  idempotencyKey?: string;
+  // Oczekujące wiadomości tego rodzaju do tego odbiorcy tracą aktualność (np. poprzedni kod logowania).
+  supersedePending?: boolean;
+}
+
+export interface EmailOutboxRunResult {
+  sent: number;
+  retried: number;
+  dead: number;
+}
+
+export interface PaginatedEmailOutbox {
+  items: EmailOutboxMessage[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+type StoredAttachment = { filename: string; contentType: string; content: string };
+type StoredMessage = Omit<TransportMessage, 'attachments'> & { attachments?: StoredAttachment[] };
+
+@Injectable()
+export class EmailOutboxService {
+  private readonly logger = new Logger(EmailOutboxService.name);
+  private readonly batchSize: number;
+  private readonly maxAttempts: number;
+  private readonly retryBaseMs: number;
+  private readonly retryMaxMs: number;
+  private readonly payloadKey: Buffer;
+
+  constructor(
+    @InjectRepository(EmailOutboxMessage)
+    private readonly outboxRepository: Repository<EmailOutboxMessage>,
+    private readonly deliveryService: MailDeliveryService,
+    private readonly config: ConfigService,
+    @Inject(CLOCK) private readonly clock: Clock,
+  ) {
+    this.batchSize = Number(this.config.get<number>('MAIL_OUTBOX_BATCH_SIZE', 20));
+    this.maxAttempts = Number(this.config.get<number>('MAIL_OUTBOX_MAX_ATTEMPTS', 8));
+    this.retryBaseMs = Number(this.config.get<number>('MAIL_OUTBOX_RETRY_BASE_SECONDS', 30)) * 1000;
+    this.retryMaxMs = Number(this.config.get<number>('MAIL_OUTBOX_RETRY_MAX_SECONDS', 3600)) * 1000;
+    this.payloadKey = deriveEncryptionKey(
+      this.config.get<string>('MAIL_OUTBOX_ENCRYPTION_KEY') ||
+        `${this.config.get<string>('JWT_SECRET', 'change-me')}:mail-outbox`,
+    );
+  }
+
+  async enqueue(message: MailMessage, options: EnqueueEmailOptions): Promise<EmailOutboxMessage> {
+    const idempotencyKey = options.idempotencyKey ?? `${options.kind}:${randomUUID()}`;
+    const existing = await this.outboxRepository.findOne({ where: { idempotencyKey } });
+    if (existing) {
+      this.logger.log(`Email ${idempotencyKey} is already in the outbox (${existing.status}).`);
+      return existing;
+    }
+
+    const composed = this.deliveryService.compose(message);
+    if (options.supersedePending) {
+      await this.supersedePending(options.kind, composed.to.email);
+    }
+
+    try {
+      return await this.outboxRepository.save(
+        this.outboxRepository.create({
+          idempotencyKey,
+          kind: options.kind,
+          recipient: composed.to.email,
+          subject: composed.subject,
+          payload: encryptValue(this.payloadKey, Buffer.from(serializeMessage(composed))),
+          status: EmailOutboxStatus.PENDING,
+          attempts: 0,
+          nextAttemptAt: this.clock.now(),
+        }),
+      );
+    } catch (error) {
+      // Równoległe dodanie tej samej wiadomości kończy się na unikalnym kluczu - zwracamy zwycięzcę.
+      const winner = await this.outboxRepository.findOne({ where: { idempotencyKey } });
+      if (winner) {
+        return winner;
+      }
+      throw error;
+    }
+  }
+
+  async processDue(): Promise<EmailOutboxRunResult> {
+    const result: EmailOutboxRunResult = { sent: 0, retried: 0, dead: 0 };
+    const due = await this.outboxRepository.find({
+      where: {
+        status: EmailOutboxStatus.PENDING,
+        nextAttemptAt: LessThanOrEqual(this.clock.now()),
+      },
+      order: { nextAttemptAt: 'ASC' },
+      take: this.batchSize,
+    });
+
+    for (const entry of due) {
+      const claimed = await this.outboxRepository.update(
+        { id: entry.id, status: EmailOutboxStatus.PENDING },
+        { status: EmailOutboxStatus.SENDING },
+      );
+      if (!claimed.affected) {
+        continue;
+      }
+
+      const outcome = await this.attempt(entry);
+      result[outcome] += 1;
+    }
+
+    return result;
+  }
+
+  // Wiadomości przerwane w trakcie wysyłki (np. restart procesu) wracają do kolejki.
+  async releaseInterrupted(): Promise<number> {
+    const released = await this.outboxRepository.update(
+      { status: EmailOutboxStatus.SENDING },
+      { status: EmailOutboxStatus.PENDING },
+    );
+    return released.affected ?? 0;
+  }
+
+  async findAll(query: ListEmailOutboxQueryDto): Promise<PaginatedEmailOutbox> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 20;
+    const qb = this.outboxRepository.createQueryBuilder('entry');
+
+    if (query.status) {
+      qb.andWhere('entry.status = :status', { status: query.status });
+    }
+    if (query.kind) {
+      qb.andWhere('entry.kind = :kind', { kind: query.kind });
+    }
+    const recipient = query.recipient?.trim().toLowerCase();
+    if (recipient) {
+      qb.andWhere('LOWER(entry.recipient) LIKE :recipient', { recipient: `%${recipient}%` });
+    }
+
+    const [items, total] = await qb
+      .orderBy('entry.createdAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return { items, total, page, limit };
+  }
+
+  async requeue(id: string): Promise<EmailOutboxMessage> {
+    const entry = await this.outboxRepository.findOne({ where: { id } });
+    if (!entry) {
+      throw new NotFoundException(apiError(ErrorCode.EMAIL_NOT_FOUND));
+    }
+    if (entry.status !== EmailOutboxStatus.DEAD) {
+      throw new BadRequestException(apiError(ErrorCode.EMAIL_NOT_DEAD));
+    }
+
+    const updates = {
+      status: EmailOutboxStatus.PENDING,
+      attempts: 0,
+      nextAttemptAt: this.clock.now(),
+    };
+    await this.outboxRepository.update(entry.id, updates);
+    this.logger.log(
+      `Email ${entry.idempotencyKey} requeued after ${entry.attempts} failed attempt(s).`,
+    );
+    return { ...entry, ...updates };
+  }
+
+  private async supersedePending(kind: string, recipient: string): Promise<void> {
+    const superseded = await this.outboxRepository.update(
+      { kind, recipient, status: EmailOutboxStatus.PENDING },
+      { status: EmailOutboxStatus.SUPERSEDED, payload: () => 'NULL' },
+    );
+    if (superseded.affected) {
+      this.logger.log(
+        `Superseded ${superseded.affected} pending ${kind} email(s) to ${recipient}.`,
+      );
+    }
+  }
+
+  private async attempt(entry: EmailOutboxMessage): Promise<keyof EmailOutboxRunResult> {
+    const attempts = entry.attempts + 1;
+    try {
+      const payload = decryptValue(this.payloadKey, entry.payload ?? '').toString();
+      await this.deliveryService.deliver(deserializeMessage(payload));
+      // Treść (m.in. kody logowania) nie jest potrzebna po wysyłce.
+      await this.outboxRepository.update(entry.id, {
+        status: EmailOutboxStatus.SENT,
+        attempts,
+        sentAt: this.clock.now(),
+        payload: () => 'NULL',
+        lastError: () => 'NULL',
+      });
+      return 'sent';
+    } catch (error) {
+      const reason = (error instanceof Error ? error.message : String(error)).slice(0, 500);
+      if (attempts >= this.maxAttempts) {
+        await this.outboxRepository.update(entry.id, {
+          status: EmailOutboxStatus.DEAD,
+          attempts,
+          lastError: reason,
+        });
+        this.logger.error(
+          `Email ${entry.idempotencyKey} moved to dead letters after ${attempts} attempt(s): ${reason}`,
+        );
+        return 'dead';
+      }
+
+      const delayMs = Math.min(this.retryBaseMs * 2 ** (attempts - 1), this.retryMaxMs);
+      await this.outboxRepository.update(entry.id, {
+        status: EmailOutboxStatus.PENDING,
+        attempts,
+        lastError: reason,
+        nextAttemptAt: new Date(this.clock.now().getTime() + delayMs),
+      });
+      this.logger.warn(
+        `Email ${entry.idempotencyKey} failed (attempt ${attempts}), retrying in ${Math.round(delayMs / 1000)}s.`,
+      );
+      return 'retried';
+    }
+  }
+}
+
+function serializeMessage(message: TransportMessage): string {
+  const stored: StoredMessage = {
+    ...message,
+    attachments: message.attachments?.map((attachment) => ({
+      ...attachment,
+      content: attachment.content.toString('base64'),
+    })),
+  };
+  return JSON.stringify(stored);
+}
+
+function deserializeMessage(payload: string): TransportMessage {
+  const stored = JSON.parse(payload) as StoredMessage;
+  return {
+    ...stored,
+    attachments: stored.attachments?.map((attachment) => ({
+      ...attachment,
+      content: Buffer.from(attachment.content, 'base64'),
+    })),
+  };
+}
@@ -0,0 +1,56 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { EmailOutboxStatus } from '../enums/email-outbox-status.enum';
+
+@Entity({ name: 'email_outbox' })
+@Index(['status', 'nextAttemptAt'])
+export class EmailOutboxMessage {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  // Klucz logicznej wiadomości (np. "contact-notification:<id>") - ponowne dodanie tej samej nic nie wysyła.
+  @Column({ unique: true })
+  idempotencyKey!: string;
+
+  @Column()
+  kind!: string;
+
+  @Column()
+  @Index()
+  recipient!: string;
+
+  @Column()
+  subject!: string;
+
+  // Gotowa wiadomość w JSON (załączniki w base64), zaszyfrowana - zawiera m.in. kody logowania.
+  // Po wysyłce treść jest usuwana.
+  @Column({ type: 'text', nullable: true })
+  payload?: string | null;
+
+  @Column({ type: 'varchar', default: EmailOutboxStatus.PENDING })
+  status!: EmailOutboxStatus;
+
+  @Column({ default: 0 })
+  attempts!: number;
+
+  @Column()
+  nextAttemptAt!: Date;
+
+  @Column({ nullable: true })
+  lastError?: string;
+
+  @Column({ nullable: true })
+  sentAt?: Date;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
@@ -0,0 +1,7 @@
+export enum EmailOutboxStatus {
+  PENDING = 'pending',
+  SENDING = 'sending',
+  SENT = 'sent',
+  DEAD = 'dead',
+  SUPERSEDED = 'superseded',
+}
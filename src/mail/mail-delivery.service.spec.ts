@@ -0,0 +1,57 @@
+import { ConfigService } from '@nestjs/config'
+import { MailDeliveryService } from './mail-delivery.service'
+import { InMemoryMailTransport } from './transports/in-memory-mail.transport'
+import { MailTransport } from './transports/mail-transport.interface'
+
+describe('MailDeliveryService', () => {
+  const createService = (transport: MailTransport, env: Record<string, string> = {}) => {
+    const configService = {
+      get: jest
+        .fn()
+        .mockImplementation((key: string, defaultValue: unknown) => env[key] ?? defaultValue)
+    } as unknown as ConfigService
+
+    return new MailDeliveryService(configService, transport)
+  }
+
+  it('hands the message to the configured transport with a resolved sender and text part', async () => {
+    const transport = new InMemoryMailTransport()
+    const service = createService(transport, { MAILJET_FROM_EMAIL: 'Biuro <biuro@example.com>' })
+
+    await service.deliver(
+      service.compose({
+        to: 'anna@example.com',
+        subject: 'Test',
+        htmlContent: '<p>Dzień dobry</p>',
+        replyToEmail: 'not-an-address',
+        headers: { 'Message-ID': '<thread@example.com>' }
+      })
+    )
+
+    expect(transport.messages).toEqual([
+      {
+        from: { email: 'biuro@example.com', name: 'Biuro' },
+        replyTo: { email: 'biuro@example.com', name: 'Biuro' },
+        to: { email: 'anna@example.com', name: 'anna' },
+        subject: 'Test',
+        html: '<p>Dzień dobry</p>',
+        text: 'Dzień dobry',
+        headers: { 'Message-ID': '<thread@example.com>' },
+        attachments: undefined
+      }
+    ])
+  })
+
+  it('passes transport failures on so the outbox can retry', async () => {
+    const service = createService({
+      name: 'smtp',
+      send: jest.fn().mockRejectedValue(new Error('connection refused'))
+    })
+
+    await expect(
+      service.deliver(
+        service.compose({ to: 'anna@example.com', subject: 'Test', htmlContent: '<p>Test</p>' })
+      )
+    ).rejects.toThrow('connection refused')
+  })
+})
@@ -0,0 +1,181 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  MAIL_TRANSPORT,
+  MailAttachment,
+  MailTransport,
+  TransportMessage,
+} from './transports/mail-transport.interface';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  htmlContent: string;
+  textContent?: string;
+  fromName?: string;
+  fromEmail?: string;
+  replyToEmail?: string;
+  replyToName?: string;
+  headers?: Record<string, string>;
+  attachments?: MailAttachment[];
+}
+
+@Injectable()
+export class MailDeliveryService {
+  private readonly logger = new Logger(MailDeliveryService.name);
+  private readonly fromEmail: string;
+  private readonly fromName: string;
+
+  constructor(
+    private readonly config: ConfigService,
+    @Inject(MAIL_TRANSPORT) private readonly transport: MailTransport,
+  ) {
+    const defaultEmail = 'info@mariusz-sokolowski.ch';
+    const defaultName = 'Mariusz Sokołowski';
+    const configuredFrom = this.parseAddress(
+      this.config.get<string>('MAILJET_FROM_EMAIL') ?? this.config.get<string>('MAIL_FROM'),
+    );
+    const configuredName = this.config.get<string>('MAILJET_FROM_NAME')?.trim();
+
+    if (configuredFrom?.raw && configuredFrom.warn) {
+      this.logger.warn(
+        `MAILJET_FROM_EMAIL value "${configuredFrom.raw}" is not a valid email address. Falling back to ${defaultEmail}.`,
+      );
+    } else if (configuredFrom?.raw && configuredFrom.nameExtracted) {
+      this.logger.log(
+        `Extracted sender name "${configuredFrom.nameExtracted}" and email "${configuredFrom.email}" from MAILJET_FROM_EMAIL value.`,
+      );
+    }
+
+    this.fromEmail = configuredFrom?.email ?? defaultEmail;
+    this.fromName = configuredName?.length ? configuredName : (configuredFrom?.name ?? defaultName);
+
+    this.logger.log(`Mail delivery initialized with the ${this.transport.name} transport`);
+  }
+
+  get transportName(): string {
+    return this.transport.name;
+  }
+
+  // Ustala nadawcę, Reply-To i wersję tekstową - wynik trafia do kolejki wysyłki bez zmian.
+  compose(data: MailMessage): TransportMessage {
+    const fromEmail = this.resolveEmail(data.fromEmail, this.fromEmail, 'From');
+    const fromName = data.fromName?.trim().length ? data.fromName.trim() : this.fromName;
+    const replyToEmail = this.resolveEmail(data.replyToEmail, fromEmail, 'Reply-To');
+    const replyToName = data.replyToName?.trim().length ? data.replyToName.trim() : fromName;
+
+    return {
+      from: { email: fromEmail, name: fromName },
+      replyTo: { email: replyToEmail, name: replyToName },
+      to: { email: data.to, name: data.to.split('@')[0] }, // Use email prefix as name
+      subject: data.subject,
+      html: data.htmlContent,
+      text: data.textContent || data.htmlContent.replace(/<[^>]*>/g, ''), // Strip HTML for text version
+      headers: data.headers,
+      attachments: data.attachments,
+    };
+  }
+
+  async deliver(message: TransportMessage): Promise<void> {
+    try {
+      await this.transport.send(message);
+      this.logger.log(`Email sent successfully to ${message.to.email} via ${this.transport.name}`);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      this.logger.error(
+        `${this.transport.name} error sending email to ${message.to.email}: ${reason}`,
+      );
+      throw error;
+    }
+  }
+
+  private resolveEmail(candidate: string | undefined, fallback: string, label: string): string {
+    if (!candidate) {
+      return fallback;
+    }
+
+    const parsed = this.parseAddress(candidate);
+    if (!parsed?.email) {
+      this.logger.warn(
+        `${label} email "${candidate}" is invalid. Using fallback address ${fallback}.`,
+      );
+      return fallback;
+    }
+
+    return parsed.email;
+  }
+
+  private parseAddress(
+    value: string | undefined | null,
+  ): { email?: string; name?: string; raw: string; warn?: boolean; nameExtracted?: string } | null {
+    if (!value) {
+      return null;
+    }
+
+    const raw = value.trim();
+    if (!raw) {
+      return null;
+    }
+
+    const angleMatch = raw.match(/^([^<]+)?<([^>]+)>$/);
+    if (angleMatch) {
+      const nameCandidate = this.sanitizeName(angleMatch[1]);
+      const emailCandidate = angleMatch[2].trim();
+      if (!this.isValidEmail(emailCandidate)) {
+        return { raw, warn: true };
+      }
+      return {
+        raw,
+        email: emailCandidate,
+        name: nameCandidate ?? undefined,
+        nameExtracted: nameCandidate ?? undefined,
+      };
+    }
+
+    const simpleEmail = raw.replace(/^"(.*)"$/, '$1').trim();
+    if (this.isValidEmail(simpleEmail)) {
+      return { raw, email: simpleEmail };
+    }
+
+    const emailPattern = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/i;
+    const emailMatch = raw.match(emailPattern);
+    if (emailMatch) {
+      const emailCandidate = emailMatch[0].trim();
+      if (!this.isValidEmail(emailCandidate)) {
+        return { raw, warn: true };
+      }
+
+      const before = raw.slice(0, emailMatch.index ?? 0).trim();
+      const afterIndex = (emailMatch.index ?? 0) + emailMatch[0].length;
+      const after = raw.slice(afterIndex).trim();
+      const nameCandidate = this.sanitizeName([before, after].filter(Boolean).join(' '));
+
+      return {
+        raw,
+        email: emailCandidate,
+        name: nameCandidate ?? undefined,
+        nameExtracted: nameCandidate ?? undefined,
+      };
+    }
+
+    return { raw, warn: true };
+  }
+
+  private sanitizeName(value: string | undefined | null): string | null {
+    if (!value) {
+      return null;
+    }
+
+    const trimmed = value.trim();
+    if (!trimmed) {
+      return null;
+    }
+
+    const withoutQuotes = trimmed.replace(/^"(.*)"$/, '$1').trim();
+    return withoutQuotes.length ? withoutQuotes : null;
+  }
+
+  private isValidEmail(value: string): boolean {
+    return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+  }
+}
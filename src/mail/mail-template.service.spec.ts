@@ -0,0 +1,84 @@
+import { ConfigService } from '@nestjs/config'
+import { MailTemplateService } from './mail-template.service'
+
+describe('MailTemplateService', () => {
+  const createService = (fallbacks?: string) => {
+    const configService = {
+      get: jest
+        .fn()
+        .mockImplementation((key: string) => (key === 'LANGUAGE_FALLBACKS' ? fallbacks : undefined))
+    } as unknown as ConfigService
+
+    return new MailTemplateService(configService)
+  }
+
+  const submission = {
+    name: 'Anna <script>',
+    subject: 'Termin & Angebot',
+    category: 'general',
+    priority: 'high',
+    message: 'Erste Zeile\nZweite Zeile'
+  }
+
+  it('renders the recipient language and escapes submitted values', () => {
+    const service = createService()
+
+    const email = service.render('contact-acknowledgement', 'de-CH', submission)
+
+    expect(email.subject).toEqual('Bestätigung Ihrer Nachricht - Mariusz Sokołowski')
+    expect(email.htmlContent).toContain('Hallo Anna &lt;script&gt;!')
+    expect(email.htmlContent).toContain('Termin &amp; Angebot')
+    expect(email.htmlContent).toContain('Erste Zeile\nZweite Zeile')
+    expect(email.textContent).toBeUndefined()
+  })
+
+  it('falls back to Polish for unknown languages', () => {
+    const service = createService()
+
+    expect(service.resolveLanguage('es')).toEqual('pl')
+    expect(service.render('contact-acknowledgement', 'es', submission).subject).toEqual(
+      'Potwierdzenie otrzymania wiadomości - Mariusz Sokołowski'
+    )
+  })
+
+  it('follows the configured fallback chain for unknown languages and missing texts', () => {
+    const service = createService('de, en')
+
+    expect(service.resolveLanguage('es-ES')).toEqual('de')
+    expect(
+      service.render('login-token', 'es-ES', { code: '123456', loginUrl: 'https://example.com' })
+        .subject
+    ).toEqual('Ihr Login-Code - Mariusz Sokołowski')
+    // Teksty dla administratora istnieją tylko po polsku.
+    expect(
+      service.render('contact-notification', 'fr', { ...submission, attachments: [] }).subject
+    ).toEqual('Nowa wiadomość: Termin & Angebot')
+  })
+
+  it('renders French and Italian login emails', () => {
+    const service = createService()
+    const context = { code: '123456', loginUrl: 'https://example.com/login' }
+
+    expect(service.render('login-token', 'fr-CH', context).subject).toEqual(
+      'Votre code de connexion - Mariusz Sokołowski'
+    )
+    expect(service.render('login-token', 'it', context).htmlContent).toContain(
+      'Ecco il Suo codice di accesso personale:'
+    )
+  })
+
+  it('renders the plain-text part without HTML escaping', () => {
+    const service = createService()
+
+    const email = service.render('newsletter-campaign', 'pl', {
+      subject: 'Nowości & zmiany',
+      body: 'Pierwszy akapit\n\nDrugi <akapit>',
+      unsubscribeUrl: 'https://example.com/newsletter/unsubscribe?token=abc'
+    })
+
+    expect(email.subject).toEqual('Nowości & zmiany')
+    expect(email.htmlContent).toContain('<p>Pierwszy akapit</p>\n<p>Drugi &lt;akapit&gt;</p>')
+    expect(email.textContent).toContain('Drugi <akapit>')
+    expect(email.textContent).toContain('https://example.com/newsletter/unsubscribe?token=abc')
+  })
+})
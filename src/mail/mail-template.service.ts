@@ -0,0 +1,187 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readdirSync, readFileSync } from 'fs';
+import Handlebars from 'handlebars';
+import { basename, join } from 'path';
+import {
+  DEFAULT_LANGUAGE,
+  SupportedLanguage,
+  languageChain,
+  parseLanguageFallbacks,
+  resolveLanguage,
+} from '../common/i18n/languages';
+
+// Pola zgodne z MailMessage, więc wynik można wprost rozwinąć w wiadomość do kolejki.
+export interface RenderedEmail {
+  subject: string;
+  htmlContent: string;
+  textContent?: string;
+}
+
+type TemplateContext = Record<string, unknown> & { language: string };
+
+interface TemplateData {
+  root: TemplateContext;
+  plainText?: boolean;
+}
+
+// Szablony e-maili leżą w plikach (templates/): układy, fragmenty, treści i katalogi tekstów dla
+// każdego języka. Wszystko jest kompilowane przy starcie, więc błąd w szablonie zatrzymuje aplikację
+// od razu, a nie przy pierwszej wysyłce.
+@Injectable()
+export class MailTemplateService {
+  private readonly logger = new Logger(MailTemplateService.name);
+  private readonly handlebars = Handlebars.create();
+  private readonly templates = new Map<string, Handlebars.TemplateDelegate>();
+  private readonly catalogs = new Map<string, Record<string, string>>();
+  private readonly messages = new Map<string, Handlebars.TemplateDelegate>();
+  private readonly fallbacks: SupportedLanguage[];
+
+  constructor(private readonly config: ConfigService) {
+    this.fallbacks = parseLanguageFallbacks(this.config.get<string>('LANGUAGE_FALLBACKS'));
+    const directory = this.config.get<string>('MAIL_TEMPLATES_DIR') || join(__dirname, 'templates');
+    this.registerHelpers();
+    this.load(directory);
+    this.logger.log(
+      `Compiled ${this.templates.size} email template(s) for languages: ${[...this.catalogs.keys()].join(', ')}`,
+    );
+  }
+
+  render(name: string, language: string | undefined, context: object): RenderedEmail {
+    const html = this.templates.get(name);
+    if (!html) {
+      throw new Error(`Unknown email template "${name}"`);
+    }
+
+    const root: TemplateContext = { ...context, language: this.resolveLanguage(language) };
+    const text = this.templates.get(`${name}.text`);
+    return {
+      subject: this.translate(`${name}.subject`, root, { root, plainText: true }).trim(),
+      htmlContent: html(root, { data: { root } }),
+      textContent: text?.(root, { data: { root, plainText: true } }).trim(),
+    };
+  }
+
+  resolveLanguage(language?: string): string {
+    return resolveLanguage(language, this.fallbacks);
+  }
+
+  private registerHelpers(): void {
+    // {{t "klucz" parametr=wartość}} - tekst z katalogu języka odbiorcy albo z łańcucha zapasowego.
+    this.handlebars.registerHelper('t', (key: string, options: Handlebars.HelperOptions) => {
+      const data = options.data as TemplateData;
+      const text = this.translate(key, { ...data.root, ...options.hash }, data);
+      return new this.handlebars.SafeString(text);
+    });
+
+    this.handlebars.registerHelper(
+      'formatDate',
+      (value: unknown, options: Handlebars.HelperOptions) => {
+        if (!(value instanceof Date)) {
+          return '';
+        }
+        const data = options.data as TemplateData;
+        const locale = this.translate('common.locale', data.root, data);
+        try {
+          return new Intl.DateTimeFormat(locale, {
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+            second: '2-digit',
+          }).format(value);
+        } catch {
+          return value.toLocaleString();
+        }
+      },
+    );
+
+    // Zwykły tekst (np. treść newslettera) jako akapity HTML; puste linie rozdzielają akapity.
+    this.handlebars.registerHelper('paragraphs', (value: string) => {
+      const html = value
+        .trim()
+        .split(/\r?\n\s*\r?\n/)
+        .map(
+          (paragraph) =>
+            `<p>${this.handlebars.escapeExpression(paragraph.trim()).replace(/\r?\n/g, '<br/>')}</p>`,
+        )
+        .join('\n');
+      return new this.handlebars.SafeString(html);
+    });
+  }
+
+  private translate(key: string, context: object, data: TemplateData): string {
+    const language = languageChain(data.root.language, this.fallbacks).find(
+      (candidate) => this.catalogs.get(candidate)?.[key] !== undefined,
+    );
+    const source = language ? this.catalogs.get(language)?.[key] : undefined;
+    if (!language || source === undefined) {
+      throw new Error(`Missing email text "${key}" for language "${data.root.language}"`);
+    }
+
+    // Teksty z katalogu to też szablony - parametry są w nich escapowane tak samo jak w HTML.
+    const cacheKey = `${data.plainText ? 'text' : 'html'}:${language}:${key}`;
+    let message = this.messages.get(cacheKey);
+    if (!message) {
+      message = this.compile(source, key, data.plainText);
+      this.messages.set(cacheKey, message);
+    }
+    return message(context, { data });
+  }
+
+  private load(directory: string): void {
+    const files = (folder: string, extension: string) =>
+      readdirSync(join(directory, folder))
+        .filter((file) => file.endsWith(extension))
+        .map((file) => ({
+          name: basename(file, extension),
+          source: readFileSync(join(directory, folder, file), 'utf8'),
+        }));
+
+    for (const { name, source } of files('layouts', '.hbs')) {
+      this.handlebars.registerPartial(`layouts/${name}`, this.compile(source, `layouts/${name}`));
+    }
+    for (const { name, source } of files('partials', '.hbs')) {
+      this.handlebars.registerPartial(name, this.compile(source, `partials/${name}`));
+    }
+    for (const { name, source } of files('emails', '.hbs')) {
+      this.templates.set(name, this.compile(source, `emails/${name}`, name.endsWith('.text')));
+    }
+    for (const { name, source } of files('locales', '.json')) {
+      this.catalogs.set(name, flattenCatalog(JSON.parse(source) as object));
+    }
+
+    if (!this.catalogs.has(DEFAULT_LANGUAGE)) {
+      throw new Error(`Email templates in ${directory} have no "${DEFAULT_LANGUAGE}" catalog`);
+    }
+    // Teksty z katalogów sprawdzamy od razu, żeby literówka w składni nie czekała na pierwszą wysyłkę.
+    for (const [language, catalog] of this.catalogs) {
+      for (const [key, source] of Object.entries(catalog)) {
+        this.messages.set(`html:${language}:${key}`, this.compile(source, `${language}:${key}`));
+      }
+    }
+  }
+
+  private compile(source: string, label: string, plainText = false): Handlebars.TemplateDelegate {
+    try {
+      this.handlebars.parse(source);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid email template ${label}: ${reason}`);
+    }
+    // Wcięcie fragmentu nie może trafiać do wielolinijkowych wartości (white-space: pre-wrap).
+    return this.handlebars.compile(source, { noEscape: plainText, preventIndent: true });
+  }
+}
+
+function flattenCatalog(value: object, prefix = ''): Record<string, string> {
+  return Object.entries(value).reduce<Record<string, string>>((catalog, [key, entry]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (entry !== null && typeof entry === 'object') {
+      return { ...catalog, ...flattenCatalog(entry as object, path) };
+    }
+    catalog[path] = String(entry);
+    return catalog;
+  }, {});
+}
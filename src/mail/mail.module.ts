@@ -1,9 +1,29 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CLOCK, systemClock } from '../common/clock/clock';
+import { AdminEmailOutboxController } from './admin-email-outbox.controller';
+import { EmailOutboxScheduler } from './email-outbox.scheduler';
+import { EmailOutboxService } from './email-outbox.service';
+import { EmailOutboxMessage } from './entities/email-outbox-message.entity';
+import { MailDeliveryService } from './mail-delivery.service';
+import { MailTemplateService } from './mail-template.service';
 import { MailService } from './mail.service';
-import { MailjetService } from './mailjet.service';
+import { createMailTransport } from './transports/create-mail-transport';
+import { MAIL_TRANSPORT } from './transports/mail-transport.interface';
 
 @Module({
-  providers: [MailService, MailjetService],
-  exports: [MailService, MailjetService],
+  imports: [TypeOrmModule.forFeature([EmailOutboxMessage])],
+  controllers: [AdminEmailOutboxController],
+  providers: [
+    MailService,
+    MailDeliveryService,
+    MailTemplateService,
+    EmailOutboxService,
+    EmailOutboxScheduler,
+    { provide: MAIL_TRANSPORT, inject: [ConfigService], useFactory: createMailTransport },
+    { provide: CLOCK, useValue: systemClock },
+  ],
+  exports: [MailService, MailDeliveryService, EmailOutboxService, MAIL_TRANSPORT],
 })
 export class MailModule {}
@@ -1,16 +1,21 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { MailjetService } from './mailjet.service';
+import { EmailOutboxService } from './email-outbox.service';
+import { MailDeliveryService, MailMessage } from './mail-delivery.service';
+import { MailTemplateService } from './mail-template.service';
+import { MailAttachment } from './transports/mail-transport.interface';
 
 interface SendLoginTokenOptions {
   to: string;
   code: string;
+  magicToken?: string;
   expiresAt: Date;
   refreshUrl?: string;
   language?: string;
   isReminder?: boolean;
   issuedAt?: Date;
   metadata?: TokenRequestMetadata;
+  idempotencyKey?: string;
 }
 
 interface SendAccessRequestNotificationOptions {
@@ -20,6 +25,24 @@ interface SendAccessRequestNotificationOptions {
   tokenExpiresAt?: Date;
   tokenIssuedAt?: Date;
   metadata?: TokenRequestMetadata;
+  idempotencyKey?: string;
+}
+
+interface SendLoginLockoutNotificationOptions {
+  email: string;
+  lockedUntil: Date;
+  lockoutCount: number;
+  ipAddress?: string;
+  userAgent?: string;
+  idempotencyKey?: string;
+}
+
+interface SendAccountErasureCodeOptions {
+  to: string;
+  code: string;
+  expiresAt: Date;
+  language?: string;
+  idempotencyKey?: string;
 }
 
 interface TokenRequestMetadata {
@@ -53,6 +76,63 @@ interface ContactFormSubmission {
   gdprConsent: boolean;
   marketingConsent?: boolean;
   submittedAt: Date;
+  language?: string;
+  submissionId?: string;
+  messageId?: string;
+  attachments?: MailAttachment[];
+}
+
+interface SendContactReplyOptions {
+  to: string;
+  name: string;
+  subject: string;
+  body: string;
+  language?: string;
+  messageId: string;
+  inReplyTo: string;
+  references: string[];
+  replyTo?: string;
+  quoted?: {
+    sentAt: Date;
+    author: string;
+    body: string;
+  };
+  idempotencyKey?: string;
+}
+
+interface SendContactSlaEscalationOptions {
+  stage: 'warning' | 'breach';
+  submissionId: string;
+  name: string;
+  email: string;
+  subject: string;
+  category: string;
+  priority: string;
+  status: string;
+  createdAt: Date;
+  dueAt: Date;
+  assigneeEmail?: string;
+  idempotencyKey?: string;
+}
+
+interface SendNewsletterConfirmationOptions {
+  to: string;
+  name?: string;
+  language?: string;
+  confirmUrl: string;
+  expiresAt: Date;
+  idempotencyKey?: string;
+}
+
+interface SendNewsletterCampaignOptions {
+  to: string;
+  language?: string;
+  subject: string;
+  body: string;
+  // Strona wypisu (link w treści) i adres jednego kliknięcia dla klientów poczty (RFC 8058).
+  unsubscribeUrl: string;
+  oneClickUnsubscribeUrl: string;
+  idempotencyKey?: string;
 }
 
 @Injectable()
@@ -64,7 +144,9 @@ export class MailService {
 
   constructor(
     private readonly config: ConfigService,
-    private readonly mailjetService: MailjetService,
+    private readonly deliveryService: MailDeliveryService,
+    private readonly outbox: EmailOutboxService,
+    private readonly templates: MailTemplateService,
   ) {
     const adminRecipientConfig = this.config
       .get<string>('SECURE_ACCESS_NOTIFICATION_EMAIL', 'info@mariusz-sokolowski.ch')
@@ -85,19 +167,35 @@ export class MailService {
     this.contactAcknowledgementEnabled =
       this.config.get<string>('CONTACT_FORM_SEND_ACK', 'true') !== 'false';
 
-    this.logger.log('MailService initialized - using Mailjet for all email sending');
+    this.logger.log(
+      `MailService initialized - queueing for the ${this.deliveryService.transportName} transport`,
+    );
   }
 
   async sendLoginTokenEmail(options: SendLoginTokenOptions): Promise<void> {
     try {
-      const language = this.normalizeLanguage(options.language);
-      const success = await this.mailjetService.sendLoginTokenEmail(options.to, options.code, language);
-      if (!success) {
-        throw new Error('Failed to send email via Mailjet');
-      }
-      this.logger.log(`Login token email sent successfully to ${options.to}`);
+      // Link prowadzi do strony potwierdzenia we frontendzie - samo otwarcie
+      // (np. przez skaner linków) nie loguje.
+      const magicParam = options.magicToken
+        ? `&magic=${encodeURIComponent(options.magicToken)}`
+        : '';
+      await this.queue(
+        'login-token',
+        {
+          to: options.to,
+          ...this.templates.render('login-token', options.language, {
+            code: options.code,
+            loginUrl: `${this.config.get<string>('LOGIN_REFRESH_URL')}?token=${options.code}${magicParam}`,
+          }),
+        },
+        options.idempotencyKey,
+        true,
+      );
+      this.logger.log(`Login token email queued for ${options.to}`);
     } catch (error) {
-      this.logger.error(`Failed to send login token email via Mailjet to ${options.to}: ${this.describeMailerError(error)}`);
+      this.logger.error(
+        `Failed to queue login token email to ${options.to}: ${this.describeMailerError(error)}`,
+      );
       throw error;
     }
   }
@@ -107,76 +205,97 @@ export class MailService {
   ): Promise<void> {
     try {
       const metadata = options.metadata ?? {};
-      const subject =
-        options.action === 'token-reminder'
-          ? 'Przypomnienie tokenu logowania'
-          : 'Nowy token logowania';
-      
-      const actionDescription =
-        options.action === 'token-reminder'
-          ? 'Użytkownik poprosił o ponowne przesłanie aktywnego tokenu logowania.'
-          : 'Użytkownik otrzymał nowo wygenerowany token logowania.';
-
-      const html = `
-        <p>Witaj,</p>
-        <p>${actionDescription}</p>
-        <ul>
-          <li><strong>Email:</strong> ${this.escapeHtml(options.requesterEmail)}</li>
-          <li><strong>Status konta:</strong> ${
-            options.userExists ? 'użytkownik istnieje' : 'brak konta'
-          }</li>
-          <li><strong>Imię:</strong> ${this.escapeHtml(metadata.firstName ?? 'Nie podano')}</li>
-          <li><strong>Nazwisko:</strong> ${this.escapeHtml(metadata.lastName ?? 'Nie podano')}</li>
-          <li><strong>Telefon:</strong> ${this.escapeHtml(metadata.phone ?? 'Nie podano')}</li>
-          <li><strong>Firma:</strong> ${this.escapeHtml(metadata.company ?? 'Nie podano')}</li>
-          <li><strong>Język interfejsu:</strong> ${this.escapeHtml(metadata.language ?? 'Nie podano')}</li>
-          <li><strong>Kraj:</strong> ${this.escapeHtml(metadata.country ?? 'Nie ustalono')}</li>
-          <li><strong>Typ urządzenia:</strong> ${this.escapeHtml(metadata.deviceType ?? 'Nie ustalono')}</li>
-          <li><strong>Przeglądarka:</strong> ${this.escapeHtml(
-            this.combineNameAndVersion(metadata.browserName, metadata.browserVersion) ?? 'Nie ustalono',
-          )}</li>
-          <li><strong>System:</strong> ${this.escapeHtml(
-            this.combineNameAndVersion(metadata.osName, metadata.osVersion) ?? 'Nie ustalono',
-          )}</li>
-          <li><strong>Adres IP:</strong> ${this.escapeHtml(metadata.ipAddress ?? 'Nie ustalono')}</li>
-        </ul>
-        <p>Dodatkowe informacje o tokenie:</p>
-        <ul>
-          <li><strong>Wydano:</strong> ${
-            options.tokenIssuedAt
-              ? this.formatDateForLocale(options.tokenIssuedAt, 'pl-PL')
-              : 'Nie dotyczy'
-          }</li>
-          <li><strong>Ważny do:</strong> ${
-            options.tokenExpiresAt
-              ? this.formatDateForLocale(options.tokenExpiresAt, 'pl-PL')
-              : 'Nie dotyczy'
-          }</li>
-        </ul>
-        ${
-          metadata.userAgent
-            ? `<p><strong>Pełny nagłówek User-Agent:</strong><br/>${this.escapeHtml(metadata.userAgent)}</p>`
-            : ''
-        }
-        <p>--<br/>Automatyczne powiadomienie z mariusz-sokolowski.ch</p>
-      `;
-
-      const success = await this.mailjetService.sendEmail({
-        to: this.adminRecipient,
-        subject,
-        htmlContent: html,
-        fromName: 'Mariusz Sokołowski',
-        fromEmail: 'no-reply@mariusz-sokolowski.ch'
-      });
-
-      if (!success) {
-        throw new Error('Failed to send access notification via Mailjet');
-      }
-      
-      this.logger.log(`Access request notification sent successfully to ${this.adminRecipient}`);
+      await this.queue(
+        'access-request',
+        {
+          to: this.adminRecipient,
+          ...this.templates.render('access-request', 'pl', {
+            ...options,
+            metadata,
+            reminder: options.action === 'token-reminder',
+            browser: this.combineNameAndVersion(metadata.browserName, metadata.browserVersion),
+            system: this.combineNameAndVersion(metadata.osName, metadata.osVersion),
+          }),
+          fromName: 'Mariusz Sokołowski',
+          fromEmail: 'no-reply@mariusz-sokolowski.ch',
+        },
+        options.idempotencyKey,
+      );
+
+      this.logger.log(`Access request notification queued for ${this.adminRecipient}`);
     } catch (error) {
       this.logger.error(
-        `Failed to send access notification to ${this.adminRecipient}: ${this.describeMailerError(error)}`,
+        `Failed to queue access notification to ${this.adminRecipient}: ${this.describeMailerError(error)}`,
+      );
+      throw error;
+    }
+  }
+
+  async sendLoginLockoutNotification(options: SendLoginLockoutNotificationOptions): Promise<void> {
+    try {
+      await this.queue(
+        'login-lockout',
+        {
+          to: this.adminRecipient,
+          ...this.templates.render('login-lockout', 'pl', options),
+          fromName: 'Mariusz Sokołowski',
+          fromEmail: 'no-reply@mariusz-sokolowski.ch',
+        },
+        options.idempotencyKey,
+      );
+
+      this.logger.log(`Login lockout notification queued for ${this.adminRecipient}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue login lockout notification to ${this.adminRecipient}: ${this.describeMailerError(error)}`,
+      );
+      throw error;
+    }
+  }
+
+  async sendContactReply(options: SendContactReplyOptions): Promise<void> {
+    try {
+      await this.queue(
+        'contact-reply',
+        {
+          to: options.to,
+          ...this.templates.render('contact-reply', options.language, options),
+          replyToEmail: options.replyTo,
+          headers: {
+            'Message-ID': options.messageId,
+            'In-Reply-To': options.inReplyTo,
+            References: options.references.join(' '),
+          },
+        },
+        options.idempotencyKey,
+      );
+
+      this.logger.log(`Contact reply queued for ${options.to}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue contact reply to ${options.to}: ${this.describeMailerError(error)}`,
+      );
+      throw error;
+    }
+  }
+
+  async sendAccountErasureCode(options: SendAccountErasureCodeOptions): Promise<void> {
+    try {
+      await this.queue(
+        'account-erasure',
+        {
+          to: options.to,
+          ...this.templates.render('account-erasure', options.language, options),
+          fromName: 'Mariusz Sokołowski',
+          fromEmail: 'no-reply@mariusz-sokolowski.ch',
+        },
+        options.idempotencyKey,
+      );
+
+      this.logger.log(`Account erasure code queued for ${options.to}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue account erasure code to ${options.to}: ${this.describeMailerError(error)}`,
       );
       throw error;
     }
@@ -184,63 +303,155 @@ export class MailService {
 
   async sendContactFormNotification(submission: ContactFormSubmission): Promise<void> {
     try {
-      const success = await this.mailjetService.sendContactFormNotification(submission);
-      if (!success) {
-        throw new Error('Failed to send contact form notification via Mailjet');
-      }
-      this.logger.log(`Contact form notification sent successfully to ${this.contactFormRecipient}`);
+      const attachments = submission.attachments ?? [];
+      await this.queue(
+        'contact-notification',
+        {
+          to: this.config.get<string>('CONTACT_EMAIL') || 'kontakt@mariusz-sokolowski.ch',
+          ...this.templates.render('contact-notification', 'pl', {
+            ...submission,
+            attachments: attachments.map((attachment) => ({
+              filename: attachment.filename,
+              sizeKb: Math.ceil(attachment.content.length / 1024),
+            })),
+          }),
+          attachments,
+        },
+        submission.submissionId ? `contact-notification:${submission.submissionId}` : undefined,
+      );
+      this.logger.log(`Contact form notification queued for ${this.contactFormRecipient}`);
     } catch (error) {
-      this.logger.error(`Failed to send contact form notification via Mailjet: ${this.describeMailerError(error)}`);
+      this.logger.error(
+        `Failed to queue contact form notification: ${this.describeMailerError(error)}`,
+      );
       throw error;
     }
   }
 
-  async sendContactFormAcknowledgement(submission: ContactFormSubmission): Promise<void> {
+  async sendContactFormAcknowledgement(submission: ContactFormSubmission): Promise<boolean> {
     if (!this.contactAcknowledgementEnabled) {
-      return;
+      return false;
     }
 
     try {
-      const success = await this.mailjetService.sendContactFormAcknowledgement(submission);
-      if (!success) {
-        throw new Error('Failed to send contact form acknowledgement via Mailjet');
-      }
-      this.logger.log(`Contact form acknowledgement sent successfully to ${submission.email}`);
+      await this.queue(
+        'contact-acknowledgement',
+        {
+          to: submission.email,
+          ...this.templates.render(
+            'contact-acknowledgement',
+            this.detectLanguage(submission),
+            submission,
+          ),
+          // Potwierdzenie otwiera wątek - odpowiedzi z panelu wskazują na ten Message-ID.
+          headers: submission.messageId ? { 'Message-ID': submission.messageId } : undefined,
+        },
+        submission.submissionId ? `contact-acknowledgement:${submission.submissionId}` : undefined,
+      );
+      this.logger.log(`Contact form acknowledgement queued for ${submission.email}`);
+      return true;
     } catch (error) {
-      this.logger.error(`Failed to send contact form acknowledgement via Mailjet: ${this.describeMailerError(error)}`);
+      this.logger.error(
+        `Failed to queue contact form acknowledgement: ${this.describeMailerError(error)}`,
+      );
       throw error;
     }
   }
 
-  private normalizeLanguage(language?: string): string {
-    if (!language) {
-      return 'pl';
-    }
-    const normalized = language.toLowerCase();
-    if (normalized.startsWith('de')) {
-      return 'de';
+  async sendNewsletterConfirmation(options: SendNewsletterConfirmationOptions): Promise<void> {
+    try {
+      await this.queue(
+        'newsletter-confirmation',
+        {
+          to: options.to,
+          ...this.templates.render('newsletter-confirmation', options.language, options),
+          fromName: 'Mariusz Sokołowski',
+          fromEmail: 'no-reply@mariusz-sokolowski.ch',
+        },
+        options.idempotencyKey,
+      );
+
+      this.logger.log(`Newsletter confirmation queued for ${options.to}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue newsletter confirmation to ${options.to}: ${this.describeMailerError(error)}`,
+      );
+      throw error;
     }
-    if (normalized.startsWith('pl')) {
-      return 'pl';
+  }
+
+  async sendNewsletterCampaign(options: SendNewsletterCampaignOptions): Promise<void> {
+    try {
+      await this.queue(
+        'newsletter-campaign',
+        {
+          to: options.to,
+          ...this.templates.render('newsletter-campaign', options.language, options),
+          headers: {
+            'List-Unsubscribe': `<${options.oneClickUnsubscribeUrl}>`,
+            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+          },
+        },
+        options.idempotencyKey,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue newsletter to ${options.to}: ${this.describeMailerError(error)}`,
+      );
+      throw error;
     }
-    return 'pl';
   }
 
-  private formatDateForLocale(date: Date, locale: string): string {
+  async sendContactSlaEscalation(options: SendContactSlaEscalationOptions): Promise<void> {
     try {
-      return new Intl.DateTimeFormat(locale, {
-        year: 'numeric',
-        month: '2-digit',
-        day: '2-digit',
-        hour: '2-digit',
-        minute: '2-digit',
-        second: '2-digit',
-      }).format(date);
-    } catch {
-      return date.toLocaleString();
+      await this.queue(
+        'contact-sla',
+        {
+          to: this.contactFormRecipient,
+          ...this.templates.render('contact-sla-escalation', 'pl', {
+            ...options,
+            breached: options.stage === 'breach',
+          }),
+          fromName: 'Mariusz Sokołowski',
+          fromEmail: 'no-reply@mariusz-sokolowski.ch',
+        },
+        options.idempotencyKey,
+      );
+
+      this.logger.log(
+        `Contact SLA ${options.stage} for submission ${options.submissionId} queued for ${this.contactFormRecipient}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue contact SLA escalation to ${this.contactFormRecipient}: ${this.describeMailerError(error)}`,
+      );
+      throw error;
     }
   }
 
+  // Wysyłka odbywa się w tle (EmailOutboxScheduler) - tutaj wiadomość trafia tylko do kolejki.
+  private async queue(
+    kind: string,
+    message: MailMessage,
+    idempotencyKey?: string,
+    supersedePending = false,
+  ): Promise<void> {
+    await this.outbox.enqueue(message, { kind, idempotencyKey, supersedePending });
+  }
+
+  private detectLanguage(submission: ContactFormSubmission): string | undefined {
+    if (submission.language) {
+      return submission.language;
+    }
+
+    // Bez języka z przeglądarki rozpoznajemy niemiecki po częstych słowach w treści;
+    // w pozostałych przypadkach decyduje łańcuch LANGUAGE_FALLBACKS.
+    const germanWords = ['der', 'die', 'das', 'und', 'ist', 'mit', 'für', 'von', 'auf', 'an'];
+    const message = submission.message.toLowerCase();
+    const germanCount = germanWords.filter((word) => message.includes(word)).length;
+    return germanCount >= 3 ? 'de' : undefined;
+  }
+
   private combineNameAndVersion(name?: string, version?: string): string | undefined {
     if (!name && !version) {
       return undefined;
@@ -251,29 +462,10 @@ export class MailService {
     return name ?? version ?? undefined;
   }
 
-  private escapeHtml(value: string): string {
-    return value.replace(/[&<>"']/g, (char) => {
-      switch (char) {
-        case '&':
-          return '&amp;';
-        case '<':
-          return '&lt;';
-        case '>':
-          return '&gt;';
-        case '"':
-          return '&quot;';
-        case '\'':
-          return '&#39;';
-        default:
-          return char;
-      }
-    });
-  }
-
   private describeMailerError(error: unknown): string {
     if (error instanceof Error) {
       return `${error.name}: ${error.message}`;
     }
     return 'Unknown error';
   }
-}
\ No newline at end of file
+}
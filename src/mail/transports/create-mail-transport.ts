@@ -0,0 +1,40 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { FileMailTransport } from './file-mail.transport';
+import { InMemoryMailTransport } from './in-memory-mail.transport';
+import { MailTransport } from './mail-transport.interface';
+import { MailjetTransport } from './mailjet.transport';
+import { SmtpMailTransport } from './smtp.transport';
+
+const MAIL_TRANSPORTS: Record<string, (config: ConfigService) => MailTransport> = {
+  mailjet: (config) => new MailjetTransport(config),
+  smtp: (config) => new SmtpMailTransport(config),
+  file: (config) => new FileMailTransport(config),
+  memory: () => new InMemoryMailTransport(),
+};
+
+// Bez MAIL_TRANSPORT wybór wynika z dostępnych danych; bez żadnych poczta trafia do plików .eml zamiast znikać.
+export function createMailTransport(config: ConfigService): MailTransport {
+  const configured = config.get<string>('MAIL_TRANSPORT')?.trim().toLowerCase();
+  const name =
+    configured ||
+    (config.get<string>('MAILJET_API_KEY')
+      ? 'mailjet'
+      : config.get<string>('MAIL_HOST')
+        ? 'smtp'
+        : 'file');
+
+  const factory = MAIL_TRANSPORTS[name];
+  if (!factory) {
+    throw new Error(
+      `Unknown MAIL_TRANSPORT "${name}". Use one of: ${Object.keys(MAIL_TRANSPORTS).join(', ')}.`,
+    );
+  }
+  if (!configured && name === 'file') {
+    new Logger('MailTransport').warn(
+      'Neither Mailjet nor SMTP is configured. Emails will be written to .eml files instead.',
+    );
+  }
+
+  return factory(config);
+}
@@ -0,0 +1,53 @@
+import { ConfigService } from '@nestjs/config'
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { FileMailTransport } from './file-mail.transport'
+
+describe('FileMailTransport', () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'mail-outbox-'))
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('writes every message as an .eml file that keeps threading headers and attachments', async () => {
+    const configService = {
+      get: jest
+        .fn()
+        .mockImplementation((key: string, defaultValue: unknown) =>
+          key === 'MAIL_OUTBOX_DIR' ? directory : defaultValue
+        )
+    } as unknown as ConfigService
+    const transport = new FileMailTransport(configService)
+
+    await transport.send({
+      from: { email: 'no-reply@example.com', name: 'Mariusz Sokołowski' },
+      replyTo: { email: 'kontakt@example.com' },
+      to: { email: 'anna@example.com', name: 'anna' },
+      subject: 'Potwierdzenie',
+      html: '<p>Dziękujemy</p>',
+      text: 'Dziękujemy',
+      headers: {
+        'Message-ID': '<thread-1@example.com>',
+        'List-Unsubscribe': '<https://example.com/u>'
+      },
+      attachments: [
+        { filename: 'oferta.pdf', contentType: 'application/pdf', content: Buffer.from('%PDF-1.7') }
+      ]
+    })
+
+    const [file] = await readdir(directory)
+    const eml = await readFile(join(directory, file), 'utf8')
+
+    expect(file).toMatch(/\.eml$/)
+    expect(eml).toContain('Message-ID: <thread-1@example.com>')
+    expect(eml).toContain('List-Unsubscribe: <https://example.com/u>')
+    expect(eml).toContain('To: anna <anna@example.com>')
+    expect(eml).toContain('filename=oferta.pdf')
+  })
+})
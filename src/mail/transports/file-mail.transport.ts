@@ -0,0 +1,29 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import MailComposer from 'nodemailer/lib/mail-composer';
+import { MailTransport, TransportMessage } from './mail-transport.interface';
+import { toNodemailerOptions } from './nodemailer-message';
+
+// Do pracy lokalnej: każda wiadomość trafia do pliku .eml, który można otworzyć w kliencie poczty.
+@Injectable()
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+  private readonly logger = new Logger(FileMailTransport.name);
+  private readonly directory: string;
+
+  constructor(private readonly config: ConfigService) {
+    this.directory = resolve(this.config.get<string>('MAIL_OUTBOX_DIR', './data/mail'));
+  }
+
+  async send(message: TransportMessage): Promise<void> {
+    const content = await new MailComposer(toNodemailerOptions(message)).compile().build();
+    const path = join(this.directory, `${Date.now()}-${randomUUID()}.eml`);
+
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(path, content, { flag: 'wx' });
+    this.logger.log(`Email to ${message.to.email} written to ${path}`);
+  }
+}
@@ -0,0 +1,18 @@
+import { Injectable } from '@nestjs/common';
+import { MailTransport, TransportMessage } from './mail-transport.interface';
+
+// Do testów: wiadomości zostają w pamięci procesu i można je sprawdzić przez `messages`.
+@Injectable()
+export class InMemoryMailTransport implements MailTransport {
+  readonly name = 'memory';
+  readonly messages: TransportMessage[] = [];
+
+  send(message: TransportMessage): Promise<void> {
+    this.messages.push(message);
+    return Promise.resolve();
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+  }
+}
@@ -0,0 +1,30 @@
+export const MAIL_TRANSPORT = Symbol('MAIL_TRANSPORT');
+
+export interface MailAddress {
+  email: string;
+  name?: string;
+}
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+// Wiadomość gotowa do wysyłki - nadawca i wersja tekstowa są już ustalone przez MailDeliveryService.
+export interface TransportMessage {
+  from: MailAddress;
+  replyTo: MailAddress;
+  to: MailAddress;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+  attachments?: MailAttachment[];
+}
+
+// Sposób dostarczenia poczty wybierany w konfiguracji (MAIL_TRANSPORT); błąd wysyłki to wyjątek.
+export interface MailTransport {
+  readonly name: string;
+  send(message: TransportMessage): Promise<void>;
+}
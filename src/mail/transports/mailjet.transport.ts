@@ -0,0 +1,58 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Mailjet from 'node-mailjet';
+import { MailTransport, TransportMessage } from './mail-transport.interface';
+
+@Injectable()
+export class MailjetTransport implements MailTransport {
+  readonly name = 'mailjet';
+  private readonly logger = new Logger(MailjetTransport.name);
+  private readonly mailjet: Mailjet | null;
+
+  constructor(private readonly config: ConfigService) {
+    const apiKey = this.config.get<string>('MAILJET_API_KEY');
+    const apiSecret = this.config.get<string>('MAILJET_API_SECRET');
+
+    if (!apiKey || !apiSecret) {
+      this.logger.warn('Mailjet credentials not configured. Email sending will fail.');
+      this.mailjet = null;
+      return;
+    }
+
+    this.mailjet = new Mailjet({ apiKey, apiSecret });
+  }
+
+  async send(message: TransportMessage): Promise<void> {
+    if (!this.mailjet) {
+      throw new Error('Mailjet credentials not configured');
+    }
+
+    const result = await this.mailjet.post('send', { version: 'v3.1' }).request({
+      Messages: [
+        {
+          From: { Email: message.from.email, Name: message.from.name }, // nadawca zautoryzowany w Mailjet
+          ReplyTo: { Email: message.replyTo.email, Name: message.replyTo.name },
+          To: [{ Email: message.to.email, Name: message.to.name }],
+          Subject: message.subject,
+          TextPart: message.text,
+          HTMLPart: message.html,
+          ...(message.headers ? { Headers: message.headers } : {}),
+          ...(message.attachments?.length
+            ? {
+                Attachments: message.attachments.map((attachment) => ({
+                  ContentType: attachment.contentType,
+                  Filename: attachment.filename,
+                  Base64Content: attachment.content.toString('base64'),
+                })),
+              }
+            : {}),
+        },
+      ],
+    });
+
+    const body = result.body as { Messages?: Array<{ Status?: string }> } | undefined;
+    if (body?.Messages?.[0]?.Status !== 'success') {
+      throw new Error(`Mailjet rejected the message: ${JSON.stringify(result.body)}`);
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import Mail from 'nodemailer/lib/mailer';
+import { MailAddress, TransportMessage } from './mail-transport.interface';
+
+const formatAddress = ({ email, name }: MailAddress): Mail.Address | string =>
+  name ? { address: email, name } : email;
+
+// Wspólne mapowanie dla SMTP i zapisu .eml - oba korzystają z kompozytora MIME nodemailera.
+export function toNodemailerOptions(message: TransportMessage): Mail.Options {
+  const { 'Message-ID': messageId, ...headers } = message.headers ?? {};
+
+  return {
+    from: formatAddress(message.from),
+    replyTo: formatAddress(message.replyTo),
+    to: formatAddress(message.to),
+    subject: message.subject,
+    html: message.html,
+    text: message.text,
+    messageId,
+    headers,
+    attachments: message.attachments?.map((attachment) => ({
+      filename: attachment.filename,
+      contentType: attachment.contentType,
+      content: attachment.content,
+    })),
+  };
+}
@@ -0,0 +1,27 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createTransport, Transporter } from 'nodemailer';
+import { MailTransport, TransportMessage } from './mail-transport.interface';
+import { toNodemailerOptions } from './nodemailer-message';
+
+@Injectable()
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp';
+  private readonly transporter: Transporter;
+
+  constructor(private readonly config: ConfigService) {
+    const user = this.config.get<string>('MAIL_USER');
+    const pass = this.config.get<string>('MAIL_PASS');
+
+    this.transporter = createTransport({
+      host: this.config.get<string>('MAIL_HOST', 'localhost'),
+      port: Number(this.config.get<number>('MAIL_PORT', 587)),
+      secure: this.config.get<string>('MAIL_SECURE', 'false') === 'true',
+      auth: user ? { user, pass } : undefined,
+    });
+  }
+
+  async send(message: TransportMessage): Promise<void> {
+    await this.transporter.sendMail(toNodemailerOptions(message));
+  }
+}
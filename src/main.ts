@@ -4,6 +4,9 @@ import { ConfigService } from '@nestjs/config';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import { AppModule } from './app.module';
 import { AllExceptionsFilter } from './common/filters/all-exceptions.filter';
+import { parseLanguageFallbacks } from './common/i18n/languages';
+import { createValidationException } from './common/i18n/validation-errors';
+import { LocalizedMessageInterceptor } from './common/interceptors/localized-message.interceptor';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
@@ -50,7 +53,9 @@ async function bootstrap() {
     credentials: true,
   });
 
-  app.useGlobalFilters(new AllExceptionsFilter());
+  const languageFallbacks = parseLanguageFallbacks(configService.get<string>('LANGUAGE_FALLBACKS'));
+  app.useGlobalFilters(new AllExceptionsFilter(languageFallbacks));
+  app.useGlobalInterceptors(new LocalizedMessageInterceptor(languageFallbacks));
 
   app.useGlobalPipes(
     new ValidationPipe({
@@ -58,6 +63,7 @@ async function bootstrap() {
       transform: true,
       transformOptions: { enableImplicitConversion: true },
       forbidNonWhitelisted: true,
+      exceptionFactory: createValidationException,
     }),
   );
 
@@ -0,0 +1,104 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { AuthenticatedUser } from '../auth/interfaces/authenticated-user.interface';
+import { UserRole } from '../users/enums/user-role.enum';
+import { CreateNewsletterCampaignDto } from './dto/create-newsletter-campaign.dto';
+import { ListNewsletterSubscribersQueryDto } from './dto/list-newsletter-subscribers-query.dto';
+import { NewsletterCampaign } from './entities/newsletter-campaign.entity';
+import { NewsletterSubscriber } from './entities/newsletter-subscriber.entity';
+import { NewsletterService } from './newsletter.service';
+
+const serializeSubscriber = (subscriber: NewsletterSubscriber) => ({
+  id: subscriber.id,
+  email: subscriber.email,
+  name: subscriber.name,
+  language: subscriber.language,
+  status: subscriber.status,
+  source: subscriber.source,
+  consentRequestedAt: subscriber.consentRequestedAt,
+  consentIpAddress: subscriber.consentIpAddress,
+  confirmedAt: subscriber.confirmedAt,
+  unsubscribedAt: subscriber.unsubscribedAt,
+  createdAt: subscriber.createdAt,
+});
+
+const serializeCampaign = (campaign: NewsletterCampaign) => ({
+  id: campaign.id,
+  status: campaign.status,
+  translations: campaign.translations,
+  createdById: campaign.createdById,
+  sentAt: campaign.sentAt,
+  recipientCount: campaign.recipientCount,
+  failedCount: campaign.failedCount,
+  createdAt: campaign.createdAt,
+});
+
+@ApiTags('admin / newsletter')
+@ApiBearerAuth('bearer')
+@ApiForbiddenResponse({ description: 'Wymagana rola administratora.' })
+@Controller('admin/newsletter')
+@UseGuards(AuthGuard('jwt'), RolesGuard)
+@Roles(UserRole.ADMIN)
+export class AdminNewsletterController {
+  constructor(private readonly newsletterService: NewsletterService) {}
+
+  @Get('subscribers')
+  @ApiOperation({ summary: 'Lista subskrybentów wraz z historią zgody' })
+  @ApiOkResponse({ description: 'Strona subskrybentów wraz z łączną liczbą wyników.' })
+  async listSubscribers(@Query() query: ListNewsletterSubscribersQueryDto) {
+    const result = await this.newsletterService.findSubscribers(query);
+    return {
+      ...result,
+      items: result.items.map(serializeSubscriber),
+    };
+  }
+
+  @Get('campaigns')
+  @ApiOperation({ summary: 'Lista kampanii newslettera' })
+  async listCampaigns() {
+    return (await this.newsletterService.findCampaigns()).map(serializeCampaign);
+  }
+
+  @Post('campaigns')
+  @ApiOperation({ summary: 'Utworzenie szkicu kampanii w wybranych wersjach językowych' })
+  @ApiBadRequestResponse({ description: 'Powtórzona wersja językowa.' })
+  async createCampaign(
+    @CurrentUser() admin: AuthenticatedUser,
+    @Body() dto: CreateNewsletterCampaignDto,
+  ) {
+    return serializeCampaign(await this.newsletterService.createCampaign(dto, admin.userId));
+  }
+
+  @Post('campaigns/:id/send')
+  @ApiOperation({
+    summary: 'Wysłanie kampanii do potwierdzonych subskrybentów',
+    description:
+      'Każdy subskrybent dostaje wersję w swoim języku z linkiem wypisu jednym kliknięciem.',
+  })
+  @ApiBadRequestResponse({ description: 'Kampania została już wysłana.' })
+  @ApiNotFoundResponse({ description: 'Kampania nie istnieje.' })
+  async sendCampaign(@Param('id', ParseUUIDPipe) id: string) {
+    return serializeCampaign(await this.newsletterService.sendCampaign(id));
+  }
+}
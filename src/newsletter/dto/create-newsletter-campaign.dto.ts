@@ -0,0 +1,47 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsEnum,
+  IsString,
+  MaxLength,
+  MinLength,
+  ValidateNested,
+} from 'class-validator';
+import { NewsletterLanguage } from '../enums/newsletter-language.enum';
+
+export class NewsletterCampaignTranslationDto {
+  @ApiProperty({ enum: NewsletterLanguage })
+  @IsEnum(NewsletterLanguage)
+  language!: NewsletterLanguage;
+
+  @ApiProperty()
+  @IsString()
+  @MinLength(3)
+  @MaxLength(190)
+  subject!: string;
+
+  @ApiProperty({
+    description: 'Treść wiadomości (tekst, bez HTML); pusta linia rozdziela akapity.',
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(50000)
+  body!: string;
+}
+
+export class CreateNewsletterCampaignDto {
+  @ApiProperty({
+    type: [NewsletterCampaignTranslationDto],
+    description:
+      'Wersje językowe; brakującą zastępuje wersja z LANGUAGE_FALLBACKS (lub pierwsza podana).',
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(Object.values(NewsletterLanguage).length)
+  @ValidateNested({ each: true })
+  @Type(() => NewsletterCampaignTranslationDto)
+  translations!: NewsletterCampaignTranslationDto[];
+}
@@ -0,0 +1,29 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsInt, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+import { NewsletterSubscriptionStatus } from '../enums/newsletter-subscription-status.enum';
+
+export class ListNewsletterSubscribersQueryDto {
+  @ApiPropertyOptional({ default: 1, minimum: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ default: 20, minimum: 1, maximum: 100 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @ApiPropertyOptional({ enum: NewsletterSubscriptionStatus })
+  @IsOptional()
+  @IsEnum(NewsletterSubscriptionStatus)
+  status?: NewsletterSubscriptionStatus;
+
+  @ApiPropertyOptional({ description: 'Fragment e-maila lub imienia.' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(190)
+  search?: string;
+}
@@ -0,0 +1,9 @@
+import { IsString, Matches, MaxLength } from 'class-validator';
+import { ErrorCode } from '../../common/enums/error-code.enum';
+
+export class NewsletterTokenDto {
+  @IsString()
+  @MaxLength(200)
+  @Matches(/^[\w.-]+$/, { message: ErrorCode.INVALID_TOKEN })
+  token!: string;
+}
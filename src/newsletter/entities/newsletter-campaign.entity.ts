@@ -0,0 +1,50 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { NewsletterCampaignStatus } from '../enums/newsletter-campaign-status.enum';
+import { NewsletterLanguage } from '../enums/newsletter-language.enum';
+
+export interface NewsletterCampaignTranslation {
+  language: NewsletterLanguage;
+  subject: string;
+  body: string;
+}
+
+@Entity({ name: 'newsletter_campaigns' })
+export class NewsletterCampaign {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column('simple-json')
+  translations!: NewsletterCampaignTranslation[];
+
+  @Column({ type: 'varchar', default: NewsletterCampaignStatus.DRAFT })
+  status!: NewsletterCampaignStatus;
+
+  @Column({ nullable: true })
+  createdById?: string;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  createdBy?: User;
+
+  @Column({ nullable: true })
+  sentAt?: Date;
+
+  @Column('integer', { default: 0 })
+  recipientCount!: number;
+
+  @Column('integer', { default: 0 })
+  failedCount!: number;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
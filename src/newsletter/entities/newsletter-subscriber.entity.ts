@@ -0,0 +1,62 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { NewsletterLanguage } from '../enums/newsletter-language.enum';
+import { NewsletterSubscriptionStatus } from '../enums/newsletter-subscription-status.enum';
+
+export type NewsletterSubscriptionSource = 'contact-form' | 'website';
+
+@Entity({ name: 'newsletter_subscribers' })
+export class NewsletterSubscriber {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ unique: true })
+  email!: string;
+
+  @Column({ nullable: true })
+  name?: string;
+
+  @Column({ type: 'varchar', default: NewsletterLanguage.PL })
+  language!: NewsletterLanguage;
+
+  @Column({ type: 'varchar', default: NewsletterSubscriptionStatus.PENDING })
+  @Index()
+  status!: NewsletterSubscriptionStatus;
+
+  @Column({ type: 'varchar' })
+  source!: NewsletterSubscriptionSource;
+
+  // Dowód zgody: kiedy i skąd o nią poproszono oraz kiedy ją potwierdzono linkiem z e-maila.
+  @Column()
+  consentRequestedAt!: Date;
+
+  @Column({ nullable: true })
+  consentIpAddress?: string;
+
+  @Column({ nullable: true })
+  consentUserAgent?: string;
+
+  @Column({ nullable: true })
+  confirmedAt?: Date;
+
+  @Column({ nullable: true })
+  unsubscribedAt?: Date;
+
+  @Column({ nullable: true, unique: true })
+  confirmationTokenHash?: string;
+
+  @Column({ nullable: true })
+  confirmationExpiresAt?: Date;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
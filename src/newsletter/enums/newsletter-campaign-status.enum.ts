@@ -0,0 +1,5 @@
+export enum NewsletterCampaignStatus {
+  DRAFT = 'draft',
+  SENDING = 'sending',
+  SENT = 'sent',
+}
@@ -0,0 +1,8 @@
+// Języki, w których wysyłamy newsletter; pozostałe dostają wersję z łańcucha LANGUAGE_FALLBACKS.
+export enum NewsletterLanguage {
+  PL = 'pl',
+  DE = 'de',
+  EN = 'en',
+  FR = 'fr',
+  IT = 'it',
+}
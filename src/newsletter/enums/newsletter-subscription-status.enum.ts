@@ -0,0 +1,5 @@
+export enum NewsletterSubscriptionStatus {
+  PENDING = 'pending',
+  SUBSCRIBED = 'subscribed',
+  UNSUBSCRIBED = 'unsubscribed',
+}
@@ -0,0 +1,58 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { Throttle } from '@nestjs/throttler';
+import { Request } from 'express';
+import { ProofOfWorkGuard } from '../challenge/proof-of-work.guard';
+import { SuccessCode } from '../common/enums/success-code.enum';
+import { apiMessage } from '../common/i18n/api-messages';
+import { extractClientIp, negotiateLanguage } from '../common/utils/request.utils';
+import { NewsletterTokenDto } from './dto/newsletter-token.dto';
+import { SubscribeNewsletterDto } from './dto/subscribe-newsletter.dto';
+import { NewsletterService } from './newsletter.service';
+
+@Controller('newsletter')
+export class NewsletterController {
+  constructor(private readonly newsletterService: NewsletterService) {}
+
+  // Odpowiedź jest zawsze taka sama, żeby nie zdradzać, czy adres jest już zapisany.
+  @Post('subscribe')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @Throttle({ default: { limit: 5, ttl: 60 * 1000 } })
+  @UseGuards(ProofOfWorkGuard)
+  async subscribe(@Body() dto: SubscribeNewsletterDto, @Req() req: Request) {
+    await this.newsletterService.subscribe({
+      email: dto.email,
+      name: dto.name,
+      language: dto.language ?? negotiateLanguage(req.headers['accept-language']),
+      source: 'website',
+      ipAddress: extractClientIp(req),
+      userAgent: req.headers['user-agent'],
+    });
+    return apiMessage(SuccessCode.NEWSLETTER_CONFIRMATION_SENT);
+  }
+
+  @Post('confirm')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 10, ttl: 60 * 1000 } })
+  async confirm(@Body() dto: NewsletterTokenDto) {
+    await this.newsletterService.confirm(dto.token);
+    return apiMessage(SuccessCode.NEWSLETTER_CONFIRMED);
+  }
+
+  // Adres z nagłówka List-Unsubscribe: klient poczty wysyła POST z treścią "List-Unsubscribe=One-Click" (RFC 8058).
+  @Post('unsubscribe')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 10, ttl: 60 * 1000 } })
+  async unsubscribe(@Query() query: NewsletterTokenDto) {
+    await this.newsletterService.unsubscribe(query.token);
+    return apiMessage(SuccessCode.NEWSLETTER_UNSUBSCRIBED);
+  }
+}
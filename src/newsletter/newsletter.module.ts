@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ChallengeModule } from '../challenge/challenge.module';
+import { CLOCK, systemClock } from '../common/clock/clock';
+import { ConsentModule } from '../consent/consent.module';
+import { MailModule } from '../mail/mail.module';
+import { AdminNewsletterController } from './admin-newsletter.controller';
+import { NewsletterCampaign } from './entities/newsletter-campaign.entity';
+import { NewsletterSubscriber } from './entities/newsletter-subscriber.entity';
+import { NewsletterController } from './newsletter.controller';
+import { NewsletterService } from './newsletter.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([NewsletterSubscriber, NewsletterCampaign]),
+    MailModule,
+    ChallengeModule,
+    ConsentModule,
+  ],
+  controllers: [NewsletterController, AdminNewsletterController],
+  providers: [NewsletterService, { provide: CLOCK, useValue: systemClock }],
+  exports: [NewsletterService],
+})
+export class NewsletterModule {}
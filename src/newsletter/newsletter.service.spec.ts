@@ -0,0 +1,242 @@
+import { BadRequestException } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { Repository } from 'typeorm'
+import { Clock } from '../common/clock/clock'
+import { ConsentService } from '../consent/consent.service'
+import { ConsentType } from '../consent/enums/consent-type.enum'
+import { MailService } from '../mail/mail.service'
+import { NewsletterCampaign } from './entities/newsletter-campaign.entity'
+import { NewsletterSubscriber } from './entities/newsletter-subscriber.entity'
+import { NewsletterCampaignStatus } from './enums/newsletter-campaign-status.enum'
+import { NewsletterLanguage } from './enums/newsletter-language.enum'
+import { NewsletterSubscriptionStatus } from './enums/newsletter-subscription-status.enum'
+import { NewsletterService } from './newsletter.service'
+
+describe('NewsletterService', () => {
+  const now = new Date('2025-05-01T09:00:00Z')
+
+  const createService = (
+    subscribers: NewsletterSubscriber[] = [],
+    campaign?: NewsletterCampaign
+  ) => {
+    const configService = {
+      get: jest.fn().mockImplementation((_key: string, defaultValue: unknown) => defaultValue)
+    } as unknown as ConfigService
+
+    const subscribersRepository = {
+      findOne: jest
+        .fn()
+        .mockImplementation(({ where }: { where: Partial<NewsletterSubscriber> }) =>
+          Promise.resolve(
+            subscribers.find((subscriber) =>
+              Object.entries(where).every(
+                ([key, value]) => subscriber[key as keyof NewsletterSubscriber] === value
+              )
+            ) ?? null
+          )
+        ),
+      find: jest.fn().mockResolvedValue(subscribers),
+      create: jest.fn().mockImplementation((data: Partial<NewsletterSubscriber>) => ({ ...data })),
+      save: jest.fn().mockImplementation((subscriber: NewsletterSubscriber) => {
+        const saved = { ...subscriber, id: subscriber.id ?? 'subscriber-new' }
+        subscribers.push(saved)
+        return Promise.resolve(saved)
+      }),
+      update: jest.fn().mockResolvedValue({ affected: 1 })
+    } as unknown as jest.Mocked<Repository<NewsletterSubscriber>>
+
+    const campaignsRepository = {
+      findOne: jest.fn().mockResolvedValue(campaign ?? null),
+      update: jest.fn().mockResolvedValue({ affected: 1 })
+    } as unknown as jest.Mocked<Repository<NewsletterCampaign>>
+
+    const mailService = {
+      sendNewsletterConfirmation: jest.fn().mockResolvedValue(undefined),
+      sendNewsletterCampaign: jest.fn().mockResolvedValue(undefined)
+    } as unknown as jest.Mocked<MailService>
+
+    const consentService = {
+      grant: jest.fn().mockResolvedValue([]),
+      withdraw: jest.fn().mockResolvedValue({})
+    } as unknown as jest.Mocked<ConsentService>
+
+    const clock: Clock = { now: () => now }
+
+    const service = new NewsletterService(
+      subscribersRepository,
+      campaignsRepository,
+      mailService,
+      consentService,
+      configService,
+      clock
+    )
+    return { service, subscribersRepository, campaignsRepository, mailService, consentService }
+  }
+
+  it('requires a confirmation link before the address is subscribed', async () => {
+    const { service, subscribersRepository, mailService, consentService } = createService()
+
+    await service.subscribe({
+      email: ' Anna@Example.com ',
+      language: 'de-CH',
+      source: 'website',
+      ipAddress: '10.0.0.1'
+    })
+
+    expect(subscribersRepository.save).toHaveBeenCalledWith(
+      expect.objectContaining({
+        email: 'anna@example.com',
+        language: NewsletterLanguage.DE,
+        status: NewsletterSubscriptionStatus.PENDING,
+        source: 'website',
+        consentRequestedAt: now,
+        consentIpAddress: '10.0.0.1'
+      })
+    )
+    const { confirmUrl } = mailService.sendNewsletterConfirmation.mock.calls[0][0]
+    const token = new URL(confirmUrl).searchParams.get('token') as string
+
+    const confirmed = await service.confirm(token)
+
+    expect(confirmed.status).toEqual(NewsletterSubscriptionStatus.SUBSCRIBED)
+    expect(subscribersRepository.update).toHaveBeenCalledWith(
+      'subscriber-new',
+      expect.objectContaining({ status: NewsletterSubscriptionStatus.SUBSCRIBED, confirmedAt: now })
+    )
+    expect(consentService.grant).toHaveBeenCalledWith(
+      expect.objectContaining({
+        email: 'anna@example.com',
+        source: 'newsletter',
+        ipAddress: '10.0.0.1'
+      }),
+      [ConsentType.MARKETING]
+    )
+  })
+
+  it('does not resend confirmations to addresses that are already subscribed', async () => {
+    const { service, mailService } = createService([
+      {
+        id: 'subscriber-1',
+        email: 'anna@example.com',
+        status: NewsletterSubscriptionStatus.SUBSCRIBED
+      } as NewsletterSubscriber
+    ])
+
+    await service.subscribe({ email: 'anna@example.com', source: 'contact-form' })
+
+    expect(mailService.sendNewsletterConfirmation).not.toHaveBeenCalled()
+  })
+
+  it('rejects expired confirmation links', async () => {
+    const { service, mailService } = createService()
+    await service.subscribe({ email: 'anna@example.com', source: 'website' })
+    const { confirmUrl } = mailService.sendNewsletterConfirmation.mock.calls[0][0]
+    const token = new URL(confirmUrl).searchParams.get('token') as string
+
+    const later = createService([
+      { id: 'subscriber-1', confirmationTokenHash: undefined } as NewsletterSubscriber
+    ])
+    await expect(later.service.confirm(token)).rejects.toBeInstanceOf(BadRequestException)
+  })
+
+  it('unsubscribes only with a correctly signed token', async () => {
+    const { service, subscribersRepository, consentService } = createService([
+      {
+        id: 'subscriber-1',
+        email: 'anna@example.com',
+        status: NewsletterSubscriptionStatus.SUBSCRIBED
+      } as NewsletterSubscriber
+    ])
+
+    await expect(service.unsubscribe('subscriber-1.forged')).rejects.toBeInstanceOf(
+      BadRequestException
+    )
+    await service.unsubscribe(service.signUnsubscribeToken('subscriber-1'))
+
+    expect(subscribersRepository.update).toHaveBeenCalledTimes(1)
+    expect(subscribersRepository.update).toHaveBeenCalledWith(
+      'subscriber-1',
+      expect.objectContaining({
+        status: NewsletterSubscriptionStatus.UNSUBSCRIBED,
+        unsubscribedAt: now
+      })
+    )
+    expect(consentService.withdraw).toHaveBeenCalledWith(
+      expect.objectContaining({ email: 'anna@example.com', source: 'newsletter' }),
+      ConsentType.MARKETING
+    )
+  })
+
+  it('sends each subscriber the campaign in their language with a one-click unsubscribe link', async () => {
+    const campaign = {
+      id: 'campaign-1',
+      status: NewsletterCampaignStatus.DRAFT,
+      translations: [
+        { language: NewsletterLanguage.PL, subject: 'Nowości', body: 'Treść' },
+        { language: NewsletterLanguage.DE, subject: 'Neuigkeiten', body: 'Inhalt' }
+      ]
+    } as NewsletterCampaign
+    const { service, mailService, campaignsRepository } = createService(
+      [
+        {
+          id: 'subscriber-1',
+          email: 'anna@example.com',
+          language: NewsletterLanguage.DE
+        } as NewsletterSubscriber,
+        {
+          id: 'subscriber-2',
+          email: 'jan@example.com',
+          language: NewsletterLanguage.PL
+        } as NewsletterSubscriber
+      ],
+      campaign
+    )
+
+    const result = await service.sendCampaign('campaign-1')
+
+    expect(result).toMatchObject({
+      status: NewsletterCampaignStatus.SENT,
+      recipientCount: 2,
+      failedCount: 0
+    })
+    expect(mailService.sendNewsletterCampaign).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: 'anna@example.com',
+        subject: 'Neuigkeiten',
+        oneClickUnsubscribeUrl: `https://api.mariusz-sokolowski.ch/newsletter/unsubscribe?token=${service.signUnsubscribeToken('subscriber-1')}`
+      })
+    )
+    expect(mailService.sendNewsletterCampaign).toHaveBeenCalledWith(
+      expect.objectContaining({ to: 'jan@example.com', subject: 'Nowości' })
+    )
+    expect(campaignsRepository.update).toHaveBeenCalledWith(
+      { id: 'campaign-1', status: NewsletterCampaignStatus.DRAFT },
+      { status: NewsletterCampaignStatus.SENDING }
+    )
+  })
+
+  it('returns the campaign to draft when sending fails', async () => {
+    const { service, subscribersRepository, campaignsRepository } = createService([], {
+      id: 'campaign-1',
+      status: NewsletterCampaignStatus.DRAFT,
+      translations: []
+    } as unknown as NewsletterCampaign)
+    subscribersRepository.find.mockRejectedValue(new Error('database is locked'))
+
+    await expect(service.sendCampaign('campaign-1')).rejects.toThrow('database is locked')
+    expect(campaignsRepository.update).toHaveBeenLastCalledWith(
+      { id: 'campaign-1', status: NewsletterCampaignStatus.SENDING },
+      { status: NewsletterCampaignStatus.DRAFT }
+    )
+  })
+
+  it('does not send the same campaign twice', async () => {
+    const { service, mailService } = createService([], {
+      id: 'campaign-1',
+      status: NewsletterCampaignStatus.SENT
+    } as NewsletterCampaign)
+
+    await expect(service.sendCampaign('campaign-1')).rejects.toBeInstanceOf(BadRequestException)
+    expect(mailService.sendNewsletterCampaign).not.toHaveBeenCalled()
+  })
+})
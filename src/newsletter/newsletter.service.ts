@@ -0,0 +1,377 @@
+import { BadRequestException, Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { Brackets, Repository } from 'typeorm';
+import { CLOCK, Clock } from '../common/clock/clock';
+import { ErrorCode } from '../common/enums/error-code.enum';
+import { apiError } from '../common/i18n/api-messages';
+import {
+  SupportedLanguage,
+  languageChain,
+  parseLanguageFallbacks,
+  resolveLanguage,
+} from '../common/i18n/languages';
+import { ConsentService } from '../consent/consent.service';
+import { ConsentType } from '../consent/enums/consent-type.enum';
+import { MailService } from '../mail/mail.service';
+import { CreateNewsletterCampaignDto } from './dto/create-newsletter-campaign.dto';
+import { ListNewsletterSubscribersQueryDto } from './dto/list-newsletter-subscribers-query.dto';
+import {
+  NewsletterCampaign,
+  NewsletterCampaignTranslation,
+} from './entities/newsletter-campaign.entity';
+import {
+  NewsletterSubscriber,
+  NewsletterSubscriptionSource,
+} from './entities/newsletter-subscriber.entity';
+import { NewsletterCampaignStatus } from './enums/newsletter-campaign-status.enum';
+import { NewsletterLanguage } from './enums/newsletter-language.enum';
+import { NewsletterSubscriptionStatus } from './enums/newsletter-subscription-status.enum';
+
+export interface NewsletterSubscriptionRequest {
+  email: string;
+  name?: string;
+  language?: string;
+  source: NewsletterSubscriptionSource;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface PaginatedNewsletterSubscribers {
+  items: NewsletterSubscriber[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+// Ponowny zapis w tym czasie nie wysyła kolejnego e-maila - chroni skrzynkę przed zasypaniem prośbami.
+const CONFIRMATION_RESEND_INTERVAL_MS = 10 * 60 * 1000;
+
+@Injectable()
+export class NewsletterService {
+  private readonly logger = new Logger(NewsletterService.name);
+  private readonly secret: string;
+  private readonly confirmationTtlMs: number;
+  private readonly confirmUrl: string;
+  private readonly unsubscribeUrl: string;
+  private readonly oneClickUnsubscribeUrl: string;
+  private readonly fallbacks: SupportedLanguage[];
+
+  constructor(
+    @InjectRepository(NewsletterSubscriber)
+    private readonly subscribersRepository: Repository<NewsletterSubscriber>,
+    @InjectRepository(NewsletterCampaign)
+    private readonly campaignsRepository: Repository<NewsletterCampaign>,
+    private readonly mailService: MailService,
+    private readonly consentService: ConsentService,
+    private readonly config: ConfigService,
+    @Inject(CLOCK) private readonly clock: Clock,
+  ) {
+    this.secret =
+      this.config.get<string>('NEWSLETTER_SECRET') ??
+      `${this.config.get<string>('JWT_SECRET', 'change-me')}:newsletter`;
+    this.confirmationTtlMs =
+      Number(this.config.get<number>('NEWSLETTER_CONFIRMATION_TTL_HOURS', 72)) * 60 * 60 * 1000;
+    this.confirmUrl = this.config.get<string>(
+      'NEWSLETTER_CONFIRM_URL',
+      'https://mariusz-sokolowski.ch/newsletter/confirm',
+    );
+    this.unsubscribeUrl = this.config.get<string>(
+      'NEWSLETTER_UNSUBSCRIBE_URL',
+      'https://mariusz-sokolowski.ch/newsletter/unsubscribe',
+    );
+    this.oneClickUnsubscribeUrl = this.config.get<string>(
+      'NEWSLETTER_ONE_CLICK_UNSUBSCRIBE_URL',
+      'https://api.mariusz-sokolowski.ch/newsletter/unsubscribe',
+    );
+    this.fallbacks = parseLanguageFallbacks(this.config.get<string>('LANGUAGE_FALLBACKS'));
+  }
+
+  // Zapis zawsze wymaga potwierdzenia linkiem (double opt-in), także gdy zgoda pochodzi z formularza kontaktowego.
+  async subscribe(request: NewsletterSubscriptionRequest): Promise<void> {
+    const email = request.email.trim().toLowerCase();
+    const now = this.clock.now();
+    const existing = await this.subscribersRepository.findOne({ where: { email } });
+
+    if (existing?.status === NewsletterSubscriptionStatus.SUBSCRIBED) {
+      return;
+    }
+    if (
+      existing?.status === NewsletterSubscriptionStatus.PENDING &&
+      now.getTime() - existing.consentRequestedAt.getTime() < CONFIRMATION_RESEND_INTERVAL_MS
+    ) {
+      return;
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    const subscriber = await this.subscribersRepository.save(
+      Object.assign(existing ?? this.subscribersRepository.create({ email }), {
+        name: request.name?.trim() || existing?.name,
+        language: this.normalizeLanguage(request.language),
+        status: NewsletterSubscriptionStatus.PENDING,
+        source: request.source,
+        consentRequestedAt: now,
+        consentIpAddress: request.ipAddress?.trim() || undefined,
+        consentUserAgent: request.userAgent?.trim().slice(0, 500) || undefined,
+        confirmationTokenHash: this.hashToken(token),
+        confirmationExpiresAt: new Date(now.getTime() + this.confirmationTtlMs),
+      }),
+    );
+
+    await this.mailService.sendNewsletterConfirmation({
+      to: subscriber.email,
+      name: subscriber.name,
+      language: subscriber.language,
+      confirmUrl: `${this.confirmUrl}?token=${token}`,
+      expiresAt: subscriber.confirmationExpiresAt,
+      idempotencyKey: `newsletter-confirmation:${subscriber.id}:${now.getTime()}`,
+    });
+  }
+
+  async confirm(token: string): Promise<NewsletterSubscriber> {
+    const subscriber = await this.subscribersRepository.findOne({
+      where: { confirmationTokenHash: this.hashToken(token) },
+    });
+    const now = this.clock.now();
+
+    if (
+      !subscriber?.confirmationExpiresAt ||
+      subscriber.confirmationExpiresAt.getTime() < now.getTime()
+    ) {
+      throw new BadRequestException(apiError(ErrorCode.NEWSLETTER_CONFIRMATION_INVALID));
+    }
+
+    await this.subscribersRepository.update(subscriber.id, {
+      status: NewsletterSubscriptionStatus.SUBSCRIBED,
+      confirmedAt: now,
+      unsubscribedAt: () => 'NULL',
+      confirmationTokenHash: () => 'NULL',
+      confirmationExpiresAt: () => 'NULL',
+    });
+    await this.consentService.grant(
+      {
+        email: subscriber.email,
+        language: subscriber.language,
+        source: 'newsletter',
+        referenceId: subscriber.id,
+        ipAddress: subscriber.consentIpAddress,
+        userAgent: subscriber.consentUserAgent,
+      },
+      [ConsentType.MARKETING],
+    );
+    this.logger.log(`Newsletter subscription ${subscriber.id} confirmed.`);
+    return { ...subscriber, status: NewsletterSubscriptionStatus.SUBSCRIBED, confirmedAt: now };
+  }
+
+  // Wypis działa bez logowania i bez wygasania - link z każdej wysłanej wiadomości musi pozostać ważny.
+  async unsubscribe(token: string): Promise<void> {
+    const subscriberId = this.verifyUnsubscribeToken(token);
+    const subscriber = subscriberId
+      ? await this.subscribersRepository.findOne({ where: { id: subscriberId } })
+      : null;
+
+    if (!subscriber) {
+      throw new BadRequestException(apiError(ErrorCode.NEWSLETTER_UNSUBSCRIBE_INVALID));
+    }
+    if (subscriber.status === NewsletterSubscriptionStatus.UNSUBSCRIBED) {
+      return;
+    }
+
+    await this.subscribersRepository.update(subscriber.id, {
+      status: NewsletterSubscriptionStatus.UNSUBSCRIBED,
+      unsubscribedAt: this.clock.now(),
+      confirmationTokenHash: () => 'NULL',
+      confirmationExpiresAt: () => 'NULL',
+    });
+    await this.consentService.withdraw(
+      {
+        email: subscriber.email,
+        language: subscriber.language,
+        source: 'newsletter',
+        referenceId: subscriber.id,
+      },
+      ConsentType.MARKETING,
+    );
+    this.logger.log(`Newsletter subscription ${subscriber.id} cancelled.`);
+  }
+
+  async findSubscribers(
+    query: ListNewsletterSubscribersQueryDto,
+  ): Promise<PaginatedNewsletterSubscribers> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 20;
+    const qb = this.subscribersRepository.createQueryBuilder('subscriber');
+
+    if (query.status) {
+      qb.andWhere('subscriber.status = :status', { status: query.status });
+    }
+
+    const search = query.search?.trim().toLowerCase();
+    if (search) {
+      qb.andWhere(
+        new Brackets((where) => {
+          where
+            .where('LOWER(subscriber.email) LIKE :search')
+            .orWhere('LOWER(subscriber.name) LIKE :search');
+        }),
+        { search: `%${search}%` },
+      );
+    }
+
+    const [items, total] = await qb
+      .orderBy('subscriber.createdAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return { items, total, page, limit };
+  }
+
+  async createCampaign(
+    dto: CreateNewsletterCampaignDto,
+    authorId: string,
+  ): Promise<NewsletterCampaign> {
+    const languages = dto.translations.map((translation) => translation.language);
+    if (new Set(languages).size !== languages.length) {
+      throw new BadRequestException(apiError(ErrorCode.CAMPAIGN_DUPLICATE_LANGUAGE));
+    }
+
+    return this.campaignsRepository.save(
+      this.campaignsRepository.create({
+        translations: dto.translations.map((translation) => ({
+          language: translation.language,
+          subject: translation.subject.trim(),
+          body: translation.body.trim(),
+        })),
+        createdById: authorId,
+      }),
+    );
+  }
+
+  async findCampaigns(): Promise<NewsletterCampaign[]> {
+    return this.campaignsRepository.find({ order: { createdAt: 'DESC' } });
+  }
+
+  async sendCampaign(id: string): Promise<NewsletterCampaign> {
+    const campaign = await this.campaignsRepository.findOne({ where: { id } });
+    if (!campaign) {
+      throw new NotFoundException(apiError(ErrorCode.CAMPAIGN_NOT_FOUND));
+    }
+    if (campaign.status !== NewsletterCampaignStatus.DRAFT) {
+      throw new BadRequestException(apiError(ErrorCode.CAMPAIGN_ALREADY_SENT));
+    }
+
+    // Status "sending" blokuje drugie równoległe wysłanie tej samej kampanii.
+    const claimed = await this.campaignsRepository.update(
+      { id: campaign.id, status: NewsletterCampaignStatus.DRAFT },
+      { status: NewsletterCampaignStatus.SENDING },
+    );
+    if (!claimed.affected) {
+      throw new BadRequestException(apiError(ErrorCode.CAMPAIGN_ALREADY_SENT));
+    }
+
+    let delivery: { recipients: number; failed: number };
+    try {
+      delivery = await this.queueCampaign(campaign);
+    } catch (error) {
+      // Klucze idempotencji chronią przed dublowaniem maili przy ponownej wysyłce.
+      await this.campaignsRepository.update(
+        { id: campaign.id, status: NewsletterCampaignStatus.SENDING },
+        { status: NewsletterCampaignStatus.DRAFT },
+      );
+      const reason = error instanceof Error ? error.message : String(error);
+      this.logger.error(
+        `Newsletter campaign ${campaign.id} failed and returned to draft: ${reason}`,
+      );
+      throw error;
+    }
+
+    const result = {
+      status: NewsletterCampaignStatus.SENT,
+      sentAt: this.clock.now(),
+      recipientCount: delivery.recipients - delivery.failed,
+      failedCount: delivery.failed,
+    };
+    await this.campaignsRepository.update(campaign.id, result);
+    this.logger.log(
+      `Newsletter campaign ${campaign.id} sent to ${result.recipientCount} subscriber(s), ${delivery.failed} failed.`,
+    );
+    return { ...campaign, ...result };
+  }
+
+  signUnsubscribeToken(subscriberId: string): string {
+    return `${subscriberId}.${this.sign(subscriberId)}`;
+  }
+
+  private async queueCampaign(
+    campaign: NewsletterCampaign,
+  ): Promise<{ recipients: number; failed: number }> {
+    const subscribers = await this.subscribersRepository.find({
+      where: { status: NewsletterSubscriptionStatus.SUBSCRIBED },
+      order: { createdAt: 'ASC' },
+    });
+
+    let failed = 0;
+    for (const subscriber of subscribers) {
+      const translation = this.pickTranslation(campaign.translations, subscriber.language);
+      const token = this.signUnsubscribeToken(subscriber.id);
+      try {
+        await this.mailService.sendNewsletterCampaign({
+          to: subscriber.email,
+          language: translation.language,
+          subject: translation.subject,
+          body: translation.body,
+          unsubscribeUrl: `${this.unsubscribeUrl}?token=${token}`,
+          oneClickUnsubscribeUrl: `${this.oneClickUnsubscribeUrl}?token=${token}`,
+          idempotencyKey: `newsletter-campaign:${campaign.id}:${subscriber.id}`,
+        });
+      } catch {
+        failed += 1;
+      }
+    }
+    return { recipients: subscribers.length, failed };
+  }
+
+  private verifyUnsubscribeToken(token: string): string | null {
+    const [subscriberId, signature] = token.split('.');
+    if (!subscriberId || !signature) {
+      return null;
+    }
+
+    const actual = Buffer.from(signature, 'base64url');
+    const expected = Buffer.from(this.sign(subscriberId), 'base64url');
+    return actual.length === expected.length && timingSafeEqual(actual, expected)
+      ? subscriberId
+      : null;
+  }
+
+  private pickTranslation(
+    translations: NewsletterCampaignTranslation[],
+    language: NewsletterLanguage,
+  ): NewsletterCampaignTranslation {
+    for (const candidate of languageChain(language, this.fallbacks)) {
+      const translation = translations.find((entry) => entry.language === candidate);
+      if (translation) {
+        return translation;
+      }
+    }
+    return translations[0];
+  }
+
+  private normalizeLanguage(language?: string): NewsletterLanguage {
+    const resolved = resolveLanguage(language, this.fallbacks);
+    return (
+      Object.values(NewsletterLanguage).find((candidate) => candidate === resolved) ??
+      NewsletterLanguage.PL
+    );
+  }
+
+  private sign(value: string): string {
+    return createHmac('sha256', this.secret).update(value).digest('base64url');
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,59 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { AuthenticatedUser } from '../auth/interfaces/authenticated-user.interface';
+import { ErrorCode } from '../common/enums/error-code.enum';
+import { apiError } from '../common/i18n/api-messages';
+import { UserRole } from '../users/enums/user-role.enum';
+import { PrivacyService } from './privacy.service';
+
+@ApiTags('admin / users')
+@ApiBearerAuth('bearer')
+@ApiForbiddenResponse({ description: 'Wymagana rola administratora.' })
+@Controller('admin/users')
+@UseGuards(AuthGuard('jwt'), RolesGuard)
+@Roles(UserRole.ADMIN)
+export class AdminPrivacyController {
+  constructor(private readonly privacyService: PrivacyService) {}
+
+  @Post(':id/erasure')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Usunięcie danych osobowych użytkownika na jego wniosek (RODO)' })
+  @ApiOkResponse({ description: 'Konto usunięte, powiązane wpisy zanonimizowane.' })
+  @ApiNotFoundResponse({ description: 'Użytkownik nie istnieje.' })
+  async erase(@CurrentUser() admin: AuthenticatedUser, @Param('id', ParseUUIDPipe) id: string) {
+    if (id === admin.userId) {
+      throw new BadRequestException(apiError(ErrorCode.SELF_ERASURE_REQUIRED));
+    }
+
+    await this.privacyService.eraseUser(id, `admin ${admin.userId}`);
+    return { erased: true };
+  }
+
+  @Get(':id/export')
+  @ApiOperation({ summary: 'Eksport danych osobowych użytkownika na jego wniosek (RODO)' })
+  @ApiNotFoundResponse({ description: 'Użytkownik nie istnieje.' })
+  async export(@Param('id', ParseUUIDPipe) id: string) {
+    return this.privacyService.buildExport(id);
+  }
+}
@@ -0,0 +1,8 @@
+import { IsOptional, Matches } from 'class-validator';
+import { ErrorCode } from '../../common/enums/error-code.enum';
+
+export class DeleteAccountDto {
+  @IsOptional()
+  @Matches(/^\d{6}$/, { message: ErrorCode.INVALID_CODE_FORMAT })
+  code?: string;
+}
@@ -0,0 +1,7 @@
+import { IsIn, IsOptional } from 'class-validator';
+
+export class ExportQueryDto {
+  @IsOptional()
+  @IsIn(['json', 'zip'])
+  format?: 'json' | 'zip';
+}
@@ -0,0 +1,34 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+@Entity({ name: 'account_erasure_requests' })
+export class AccountErasureRequest {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column()
+  codeHash!: string;
+
+  @Column()
+  expiresAt!: Date;
+
+  @Column({ default: 0 })
+  failedAttempts!: number;
+
+  @Column()
+  @Index()
+  userId!: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  user!: User;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
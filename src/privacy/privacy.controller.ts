@@ -0,0 +1,95 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseEnumPipe,
+  Query,
+  Req,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiBearerAuth,
+  ApiOkResponse,
+  ApiOperation,
+  ApiProduces,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { Request } from 'express';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthenticatedUser } from '../auth/interfaces/authenticated-user.interface';
+import { extractClientIp } from '../common/utils/request.utils';
+import { ConsentType } from '../consent/enums/consent-type.enum';
+import { DeleteAccountDto } from './dto/delete-account.dto';
+import { ExportQueryDto } from './dto/export-query.dto';
+import { PrivacyService } from './privacy.service';
+
+@ApiTags('me')
+@ApiBearerAuth('bearer')
+@ApiUnauthorizedResponse({ description: 'Brak ważnego tokenu dostępu.' })
+@Controller('me')
+@UseGuards(AuthGuard('jwt'))
+export class PrivacyController {
+  constructor(private readonly privacyService: PrivacyService) {}
+
+  @Get('export')
+  @ApiOperation({ summary: 'Eksport wszystkich danych osobowych (JSON lub ZIP)' })
+  @ApiProduces('application/json', 'application/zip')
+  @ApiOkResponse({ description: 'Pakiet danych użytkownika w formacie do odczytu maszynowego.' })
+  async export(@CurrentUser() principal: AuthenticatedUser, @Query() query: ExportQueryDto) {
+    if (query.format !== 'zip') {
+      return this.privacyService.buildExport(principal.userId);
+    }
+
+    const archive = await this.privacyService.buildExportArchive(principal.userId);
+    return new StreamableFile(archive, {
+      type: 'application/zip',
+      disposition: 'attachment; filename="mariusz-sokolowski-ch-export.zip"',
+      length: archive.length,
+    });
+  }
+
+  @Get('consents')
+  @ApiOperation({ summary: 'Aktualny stan udzielonych zgód' })
+  @ApiOkResponse({ description: 'Ostatni wpis z rejestru zgód dla każdego rodzaju zgody.' })
+  async consents(@CurrentUser() principal: AuthenticatedUser) {
+    return this.privacyService.getConsents(principal.userId);
+  }
+
+  @Delete('consents/:type')
+  @ApiOperation({
+    summary: 'Wycofanie zgody',
+    description: 'Wycofanie zgody marketingowej wypisuje także adres z newslettera.',
+  })
+  @ApiOkResponse({ description: 'Stan zgód po wycofaniu.' })
+  async withdrawConsent(
+    @CurrentUser() principal: AuthenticatedUser,
+    @Param('type', new ParseEnumPipe(ConsentType)) type: ConsentType,
+    @Req() req: Request,
+  ) {
+    return this.privacyService.withdrawConsent(principal.userId, type, {
+      ipAddress: extractClientIp(req),
+      userAgent: req.headers['user-agent'],
+    });
+  }
+
+  @Delete()
+  @ApiOperation({
+    summary: 'Usunięcie konta',
+    description:
+      'Bez kodu wysyła e-mail z kodem potwierdzenia. Z kodem trwale usuwa konto i powiązane dane.',
+  })
+  @ApiOkResponse({ description: 'Wysłano kod potwierdzenia lub konto zostało usunięte.' })
+  async deleteAccount(@CurrentUser() principal: AuthenticatedUser, @Body() dto: DeleteAccountDto) {
+    if (!dto.code) {
+      return this.privacyService.requestErasure(principal.userId);
+    }
+
+    await this.privacyService.confirmErasure(principal.userId, dto.code);
+    return { erased: true };
+  }
+}
@@ -0,0 +1,34 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { LoginToken } from '../auth/entities/login-token.entity';
+import { Session } from '../auth/entities/session.entity';
+import { ConsentModule } from '../consent/consent.module';
+import { ContactModule } from '../contact/contact.module';
+import { ContactSubmission } from '../contact/entities/contact-submission.entity';
+import { MailModule } from '../mail/mail.module';
+import { NewsletterSubscriber } from '../newsletter/entities/newsletter-subscriber.entity';
+import { User } from '../users/entities/user.entity';
+import { AdminPrivacyController } from './admin-privacy.controller';
+import { AccountErasureRequest } from './entities/account-erasure-request.entity';
+import { PrivacyController } from './privacy.controller';
+import { PrivacyService } from './privacy.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      User,
+      LoginToken,
+      Session,
+      ContactSubmission,
+      NewsletterSubscriber,
+      AccountErasureRequest,
+    ]),
+    MailModule,
+    ContactModule,
+    ConsentModule,
+  ],
+  controllers: [PrivacyController, AdminPrivacyController],
+  providers: [PrivacyService],
+  exports: [PrivacyService],
+})
+export class PrivacyModule {}
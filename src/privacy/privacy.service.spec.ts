@@ -0,0 +1,205 @@
+import { BadRequestException } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { DataSource, In, Repository } from 'typeorm'
+import { LoginToken } from '../auth/entities/login-token.entity'
+import { Session } from '../auth/entities/session.entity'
+import { ConsentService } from '../consent/consent.service'
+import { ConsentRecord } from '../consent/entities/consent-record.entity'
+import { ConsentType } from '../consent/enums/consent-type.enum'
+import { ContactAttachmentsService } from '../contact/attachments/contact-attachments.service'
+import { ContactAttachment } from '../contact/entities/contact-attachment.entity'
+import { ContactMessage } from '../contact/entities/contact-message.entity'
+import { ContactSubmission } from '../contact/entities/contact-submission.entity'
+import { MailService } from '../mail/mail.service'
+import { NewsletterSubscriber } from '../newsletter/entities/newsletter-subscriber.entity'
+import { NewsletterSubscriptionStatus } from '../newsletter/enums/newsletter-subscription-status.enum'
+import { User } from '../users/entities/user.entity'
+import { AccountErasureRequest } from './entities/account-erasure-request.entity'
+import { PrivacyService } from './privacy.service'
+
+describe('PrivacyService', () => {
+  const user = { id: 'user-123', email: 'user@example.com', roles: ['visitor'] } as User
+
+  const createService = () => {
+    const configService = {
+      get: jest.fn().mockImplementation((_key: string, defaultValue: unknown) => defaultValue)
+    } as unknown as ConfigService
+
+    const usersRepository = {
+      findOne: jest.fn().mockResolvedValue(user)
+    } as unknown as Repository<User>
+
+    let stored: AccountErasureRequest | null = null
+    const erasureRequestsRepository = {
+      findOne: jest.fn().mockImplementation(() => Promise.resolve(stored)),
+      create: jest.fn().mockImplementation((data: Partial<AccountErasureRequest>) => ({
+        failedAttempts: 0,
+        ...data
+      })),
+      save: jest.fn().mockImplementation((request: AccountErasureRequest) => {
+        stored = { ...request, id: 'request-1', createdAt: new Date() }
+        return Promise.resolve(stored)
+      }),
+      update: jest
+        .fn()
+        .mockImplementation((_id: string, changes: Partial<AccountErasureRequest>) => {
+          stored = stored ? { ...stored, ...changes } : null
+          return Promise.resolve({ affected: 1 })
+        }),
+      delete: jest.fn().mockImplementation(() => {
+        stored = null
+        return Promise.resolve({ affected: 1 })
+      })
+    } as unknown as Repository<AccountErasureRequest>
+
+    const manager = {
+      find: jest
+        .fn()
+        .mockImplementation((entity: unknown) =>
+          Promise.resolve(
+            entity === ContactAttachment
+              ? [{ id: 'attachment-1', storageKey: 'submission-1/attachment-1' }]
+              : [{ id: 'submission-1' }]
+          )
+        ),
+      delete: jest.fn().mockResolvedValue({ affected: 1 }),
+      update: jest.fn().mockResolvedValue({ affected: 1 })
+    }
+    const dataSource = {
+      transaction: jest
+        .fn()
+        .mockImplementation((work: (m: typeof manager) => Promise<void>) => work(manager))
+    } as unknown as DataSource
+
+    const mailService = {
+      sendAccountErasureCode: jest.fn().mockResolvedValue(undefined)
+    } as unknown as jest.Mocked<MailService>
+
+    const attachmentsService = {
+      removeFiles: jest.fn().mockResolvedValue(undefined)
+    } as unknown as jest.Mocked<ContactAttachmentsService>
+
+    const newsletterSubscribersRepository = {
+      update: jest.fn().mockResolvedValue({ affected: 1 })
+    } as unknown as jest.Mocked<Repository<NewsletterSubscriber>>
+
+    const consentService = {
+      currentState: jest.fn().mockResolvedValue([
+        {
+          type: ConsentType.MARKETING,
+          granted: true,
+          policyVersion: '2025-05',
+          recordedAt: new Date()
+        }
+      ]),
+      withdraw: jest.fn().mockResolvedValue({})
+    } as unknown as jest.Mocked<ConsentService>
+
+    const service = new PrivacyService(
+      usersRepository,
+      {} as Repository<LoginToken>,
+      {} as Repository<Session>,
+      {} as Repository<ContactSubmission>,
+      newsletterSubscribersRepository,
+      erasureRequestsRepository,
+      dataSource,
+      mailService,
+      attachmentsService,
+      consentService,
+      configService
+    )
+    return {
+      service,
+      mailService,
+      attachmentsService,
+      newsletterSubscribersRepository,
+      consentService,
+      manager,
+      getStored: () => stored
+    }
+  }
+
+  it('emails a confirmation code and erases the account once it is confirmed', async () => {
+    const { service, mailService, attachmentsService, manager } = createService()
+
+    await service.requestErasure(user.id)
+    const { code } = mailService.sendAccountErasureCode.mock.calls[0][0]
+    await service.confirmErasure(user.id, code)
+
+    expect(manager.delete).toHaveBeenCalledWith(User, { id: user.id })
+    expect(manager.delete).toHaveBeenCalledWith(NewsletterSubscriber, { email: user.email })
+    expect(manager.delete).toHaveBeenCalledWith(ContactMessage, {
+      submissionId: In(['submission-1'])
+    })
+    expect(manager.delete).toHaveBeenCalledWith(ContactAttachment, {
+      submissionId: In(['submission-1'])
+    })
+    expect(attachmentsService.removeFiles).toHaveBeenCalledWith([
+      { id: 'attachment-1', storageKey: 'submission-1/attachment-1' }
+    ])
+    expect(manager.update).toHaveBeenCalledWith(
+      expect.anything(),
+      { userId: user.id },
+      { userId: expect.any(Function) }
+    )
+    expect(manager.update).toHaveBeenCalledWith(
+      ContactSubmission,
+      { email: user.email },
+      expect.objectContaining({ email: `erased-${user.id}@invalid`, message: '[usunięto]' })
+    )
+    expect(manager.update).toHaveBeenCalledWith(
+      ConsentRecord,
+      { subjectEmail: user.email },
+      {
+        subjectEmail: expect.any(Function),
+        ipAddress: expect.any(Function),
+        userAgent: expect.any(Function)
+      }
+    )
+  })
+
+  it('records a withdrawn marketing consent and unsubscribes the newsletter', async () => {
+    const { service, consentService, newsletterSubscribersRepository } = createService()
+
+    await service.withdrawConsent(user.id, ConsentType.MARKETING, { ipAddress: '10.0.0.1' })
+
+    expect(consentService.withdraw).toHaveBeenCalledWith(
+      expect.objectContaining({
+        email: user.email,
+        userId: user.id,
+        source: 'self-service',
+        ipAddress: '10.0.0.1'
+      }),
+      ConsentType.MARKETING
+    )
+    expect(newsletterSubscribersRepository.update).toHaveBeenCalledWith(
+      expect.objectContaining({ email: user.email }),
+      expect.objectContaining({ status: NewsletterSubscriptionStatus.UNSUBSCRIBED })
+    )
+  })
+
+  it('does not append a withdrawal for a consent that is not active', async () => {
+    const { service, consentService } = createService()
+
+    await service.withdrawConsent(user.id, ConsentType.GDPR)
+
+    expect(consentService.withdraw).not.toHaveBeenCalled()
+  })
+
+  it('drops the request after too many wrong codes', async () => {
+    const { service, manager, getStored } = createService()
+
+    await service.requestErasure(user.id)
+    for (let attempt = 0; attempt < 5; attempt += 1) {
+      await expect(service.confirmErasure(user.id, 'wrong!')).rejects.toBeInstanceOf(
+        BadRequestException
+      )
+    }
+
+    expect(getStored()).toBeNull()
+    await expect(service.confirmErasure(user.id, '000000')).rejects.toBeInstanceOf(
+      BadRequestException
+    )
+    expect(manager.delete).not.toHaveBeenCalled()
+  })
+})
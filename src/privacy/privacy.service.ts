@@ -0,0 +1,483 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { createHmac, randomInt, timingSafeEqual } from 'crypto';
+import JSZip from 'jszip';
+import { DataSource, In, Repository } from 'typeorm';
+import { LoginLockout } from '../auth/entities/login-lockout.entity';
+import { LoginToken } from '../auth/entities/login-token.entity';
+import { RevokedAccessToken } from '../auth/entities/revoked-access-token.entity';
+import { Session } from '../auth/entities/session.entity';
+import { ErrorCode } from '../common/enums/error-code.enum';
+import { apiError } from '../common/i18n/api-messages';
+import { ConsentService, ConsentState } from '../consent/consent.service';
+import { ConsentRecord } from '../consent/entities/consent-record.entity';
+import { ConsentType } from '../consent/enums/consent-type.enum';
+import { ContactAttachmentsService } from '../contact/attachments/contact-attachments.service';
+import { ContactAttachment } from '../contact/entities/contact-attachment.entity';
+import { ContactMessage } from '../contact/entities/contact-message.entity';
+import { ContactSubmission } from '../contact/entities/contact-submission.entity';
+import { EmailOutboxMessage } from '../mail/entities/email-outbox-message.entity';
+import { MailService } from '../mail/mail.service';
+import { NewsletterSubscriber } from '../newsletter/entities/newsletter-subscriber.entity';
+import { NewsletterSubscriptionStatus } from '../newsletter/enums/newsletter-subscription-status.enum';
+import { User } from '../users/entities/user.entity';
+import { AccountErasureRequest } from './entities/account-erasure-request.entity';
+
+export interface PrivacyExport {
+  exportedAt: Date;
+  user: {
+    id: string;
+    email: string;
+    firstName?: string;
+    lastName?: string;
+    phone?: string;
+    company?: string;
+    preferredLanguage?: string;
+    roles: string[];
+    totpEnabledAt?: Date;
+    blockedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+  };
+  loginTokens: Array<{
+    id: string;
+    createdAt: Date;
+    expiresAt: Date;
+    consumedAt?: Date;
+    revoked: boolean;
+    failedAttempts: number;
+  }>;
+  sessions: Array<{
+    id: string;
+    createdAt: Date;
+    lastUsedAt?: Date;
+    expiresAt: Date;
+    revokedAt?: Date;
+    revokedReason?: string;
+    userAgent?: string;
+    ipAddress?: string;
+  }>;
+  contactSubmissions: Array<{
+    id: string;
+    createdAt: Date;
+    name: string;
+    email: string;
+    phone?: string;
+    company?: string;
+    subject: string;
+    message: string;
+    category: string;
+    priority: string;
+    preferredContact: string;
+    budget?: string;
+    timeline?: string;
+    gdprConsent: boolean;
+    marketingConsent: boolean;
+    ipAddress?: string;
+    userAgent?: string;
+    messages: Array<{
+      id: string;
+      createdAt: Date;
+      direction: string;
+      fromEmail: string;
+      toEmail: string;
+      subject: string;
+      body: string;
+    }>;
+    attachments: Array<{
+      id: string;
+      createdAt: Date;
+      filename: string;
+      mimeType: string;
+      size: number;
+    }>;
+  }>;
+  newsletterSubscription: {
+    email: string;
+    name?: string;
+    language: string;
+    status: string;
+    source: string;
+    consentRequestedAt: Date;
+    consentIpAddress?: string;
+    consentUserAgent?: string;
+    confirmedAt?: Date;
+    unsubscribedAt?: Date;
+  } | null;
+  consents: Array<{
+    recordedAt: Date;
+    type: string;
+    action: string;
+    policyVersion: string;
+    policyHash: string;
+    language: string;
+    source: string;
+    ipAddress?: string;
+    userAgent?: string;
+  }>;
+}
+
+export interface ConsentWithdrawalContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface ErasureChallenge {
+  confirmationRequired: true;
+  expiresAt: Date;
+}
+
+const ERASED_PLACEHOLDER = '[usunięto]';
+
+@Injectable()
+export class PrivacyService {
+  private readonly logger = new Logger(PrivacyService.name);
+  private readonly codeSecret: string;
+  private readonly codeTtlMs: number;
+  private readonly maxCodeAttempts: number;
+
+  constructor(
+    @InjectRepository(User)
+    private readonly usersRepository: Repository<User>,
+    @InjectRepository(LoginToken)
+    private readonly loginTokenRepository: Repository<LoginToken>,
+    @InjectRepository(Session)
+    private readonly sessionsRepository: Repository<Session>,
+    @InjectRepository(ContactSubmission)
+    private readonly contactSubmissionsRepository: Repository<ContactSubmission>,
+    @InjectRepository(NewsletterSubscriber)
+    private readonly newsletterSubscribersRepository: Repository<NewsletterSubscriber>,
+    @InjectRepository(AccountErasureRequest)
+    private readonly erasureRequestsRepository: Repository<AccountErasureRequest>,
+    private readonly dataSource: DataSource,
+    private readonly mailService: MailService,
+    private readonly attachmentsService: ContactAttachmentsService,
+    private readonly consentService: ConsentService,
+    private readonly config: ConfigService,
+  ) {
+    this.codeSecret = `${this.config.get<string>('JWT_SECRET', 'change-me')}:account-erasure`;
+    this.codeTtlMs =
+      Number(this.config.get<number>('ACCOUNT_ERASURE_CODE_TTL_MINUTES', 15)) * 60 * 1000;
+    this.maxCodeAttempts = Number(this.config.get<number>('ACCOUNT_ERASURE_MAX_ATTEMPTS', 5));
+  }
+
+  async buildExport(userId: string): Promise<PrivacyExport> {
+    const user = await this.loadUser(userId);
+    const [loginTokens, sessions, contactSubmissions, newsletterSubscription, consents] =
+      await Promise.all([
+        this.loginTokenRepository.find({ where: { userId }, order: { createdAt: 'DESC' } }),
+        this.sessionsRepository.find({ where: { userId }, order: { createdAt: 'DESC' } }),
+        this.contactSubmissionsRepository.find({
+          where: { email: user.email },
+          relations: { messages: true, attachments: true },
+          order: {
+            createdAt: 'DESC',
+            messages: { createdAt: 'ASC' },
+            attachments: { createdAt: 'ASC' },
+          },
+        }),
+        this.newsletterSubscribersRepository.findOne({ where: { email: user.email } }),
+        this.consentService.findForSubject(user.email),
+      ]);
+
+    return {
+      exportedAt: new Date(),
+      user: {
+        id: user.id,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        phone: user.phone,
+        company: user.company,
+        preferredLanguage: user.preferredLanguage,
+        roles: user.roles,
+        totpEnabledAt: user.totpEnabledAt,
+        blockedAt: user.blockedAt,
+        createdAt: user.createdAt,
+        updatedAt: user.updatedAt,
+      },
+      // Hashe kodów i tokenów odświeżania to nie dane osobowe, a ich ujawnienie osłabia ochronę.
+      loginTokens: loginTokens.map((token) => ({
+        id: token.id,
+        createdAt: token.createdAt,
+        expiresAt: token.expiresAt,
+        consumedAt: token.consumedAt,
+        revoked: token.revoked,
+        failedAttempts: token.failedAttempts,
+      })),
+      sessions: sessions.map((session) => ({
+        id: session.id,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt,
+        revokedAt: session.revokedAt,
+        revokedReason: session.revokedReason,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+      })),
+      contactSubmissions: contactSubmissions.map((submission) => ({
+        id: submission.id,
+        createdAt: submission.createdAt,
+        name: submission.name,
+        email: submission.email,
+        phone: submission.phone,
+        company: submission.company,
+        subject: submission.subject,
+        message: submission.message,
+        category: submission.category,
+        priority: submission.priority,
+        preferredContact: submission.preferredContact,
+        budget: submission.budget,
+        timeline: submission.timeline,
+        gdprConsent: submission.gdprConsent,
+        marketingConsent: submission.marketingConsent,
+        ipAddress: submission.ipAddress,
+        userAgent: submission.userAgent,
+        messages: (submission.messages ?? []).map((message) => ({
+          id: message.id,
+          createdAt: message.createdAt,
+          direction: message.direction,
+          fromEmail: message.fromEmail,
+          toEmail: message.toEmail,
+          subject: message.subject,
+          body: message.body,
+        })),
+        attachments: (submission.attachments ?? []).map((attachment) => ({
+          id: attachment.id,
+          createdAt: attachment.createdAt,
+          filename: attachment.filename,
+          mimeType: attachment.mimeType,
+          size: attachment.size,
+        })),
+      })),
+      newsletterSubscription: newsletterSubscription
+        ? {
+            email: newsletterSubscription.email,
+            name: newsletterSubscription.name,
+            language: newsletterSubscription.language,
+            status: newsletterSubscription.status,
+            source: newsletterSubscription.source,
+            consentRequestedAt: newsletterSubscription.consentRequestedAt,
+            consentIpAddress: newsletterSubscription.consentIpAddress,
+            consentUserAgent: newsletterSubscription.consentUserAgent,
+            confirmedAt: newsletterSubscription.confirmedAt,
+            unsubscribedAt: newsletterSubscription.unsubscribedAt,
+          }
+        : null,
+      consents: consents.map((consent) => ({
+        recordedAt: consent.recordedAt,
+        type: consent.type,
+        action: consent.action,
+        policyVersion: consent.policyVersion,
+        policyHash: consent.policyHash,
+        language: consent.language,
+        source: consent.source,
+        ipAddress: consent.ipAddress,
+        userAgent: consent.userAgent,
+      })),
+    };
+  }
+
+  async buildExportArchive(userId: string): Promise<Buffer> {
+    const data = await this.buildExport(userId);
+    const zip = new JSZip();
+
+    zip.file('export.json', JSON.stringify(data, null, 2));
+    zip.file('user.json', JSON.stringify(data.user, null, 2));
+    zip.file('login-tokens.json', JSON.stringify(data.loginTokens, null, 2));
+    zip.file('sessions.json', JSON.stringify(data.sessions, null, 2));
+    zip.file('contact-submissions.json', JSON.stringify(data.contactSubmissions, null, 2));
+    zip.file('newsletter.json', JSON.stringify(data.newsletterSubscription, null, 2));
+    zip.file('consents.json', JSON.stringify(data.consents, null, 2));
+
+    const attachments = await this.attachmentsService.findForSubmissions(
+      data.contactSubmissions.map((submission) => submission.id),
+    );
+    for (const attachment of attachments) {
+      zip.file(
+        `attachments/${attachment.submissionId}/${attachment.id}-${attachment.filename}`,
+        await this.attachmentsService.readContent(attachment),
+      );
+    }
+
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  }
+
+  async getConsents(userId: string): Promise<ConsentState[]> {
+    const user = await this.loadUser(userId);
+    return this.consentService.currentState(user.email);
+  }
+
+  async withdrawConsent(
+    userId: string,
+    type: ConsentType,
+    context: ConsentWithdrawalContext = {},
+  ): Promise<ConsentState[]> {
+    const user = await this.loadUser(userId);
+    const current = await this.consentService.currentState(user.email);
+
+    // Ponowne wycofanie niczego nie zmienia - rejestr nie dostaje zbędnych wpisów.
+    if (current.some((state) => state.type === type && state.granted)) {
+      await this.consentService.withdraw(
+        {
+          email: user.email,
+          userId: user.id,
+          language: user.preferredLanguage,
+          source: 'self-service',
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+        },
+        type,
+      );
+    }
+    if (type === ConsentType.MARKETING) {
+      await this.newsletterSubscribersRepository.update(
+        {
+          email: user.email,
+          status: In([
+            NewsletterSubscriptionStatus.PENDING,
+            NewsletterSubscriptionStatus.SUBSCRIBED,
+          ]),
+        },
+        {
+          status: NewsletterSubscriptionStatus.UNSUBSCRIBED,
+          unsubscribedAt: new Date(),
+          confirmationTokenHash: () => 'NULL',
+          confirmationExpiresAt: () => 'NULL',
+        },
+      );
+    }
+
+    this.logger.log(`User ${user.id} withdrew ${type} consent.`);
+    return this.consentService.currentState(user.email);
+  }
+
+  async requestErasure(userId: string): Promise<ErasureChallenge> {
+    const user = await this.loadUser(userId);
+    const code = this.generateCode();
+    const expiresAt = new Date(Date.now() + this.codeTtlMs);
+
+    // Obowiązuje tylko ostatnio wysłany kod.
+    await this.erasureRequestsRepository.delete({ userId: user.id });
+    const request = await this.erasureRequestsRepository.save(
+      this.erasureRequestsRepository.create({
+        userId: user.id,
+        codeHash: this.hashCode(code),
+        expiresAt,
+      }),
+    );
+
+    await this.mailService.sendAccountErasureCode({
+      to: user.email,
+      code,
+      expiresAt,
+      language: user.preferredLanguage,
+      idempotencyKey: `account-erasure:${request.id}`,
+    });
+
+    return { confirmationRequired: true, expiresAt };
+  }
+
+  async confirmErasure(userId: string, code: string): Promise<void> {
+    const request = await this.erasureRequestsRepository.findOne({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+
+    if (!request || request.expiresAt.getTime() < Date.now()) {
+      throw new BadRequestException(apiError(ErrorCode.ERASURE_CODE_EXPIRED));
+    }
+
+    if (!this.matchesCodeHash(code, request.codeHash)) {
+      const failedAttempts = request.failedAttempts + 1;
+      if (failedAttempts >= this.maxCodeAttempts) {
+        await this.erasureRequestsRepository.delete({ id: request.id });
+      } else {
+        await this.erasureRequestsRepository.update(request.id, { failedAttempts });
+      }
+      throw new BadRequestException(apiError(ErrorCode.INVALID_ERASURE_CODE));
+    }
+
+    await this.eraseUser(userId, 'self-service');
+  }
+
+  async eraseUser(userId: string, requestedBy: string): Promise<void> {
+    const user = await this.loadUser(userId);
+    let attachments: ContactAttachment[] = [];
+
+    await this.dataSource.transaction(async (manager) => {
+      await manager.delete(LoginLockout, { email: user.email });
+      await manager.delete(NewsletterSubscriber, { email: user.email });
+      await manager.delete(EmailOutboxMessage, { recipient: user.email });
+      const submissions = await manager.find(ContactSubmission, {
+        where: { email: user.email },
+        select: { id: true },
+      });
+      if (submissions.length) {
+        const submissionIds = In(submissions.map(({ id }) => id));
+        // Korespondencja w wątkach i załączniki zawierają dane osoby - usuwamy je w całości.
+        await manager.delete(ContactMessage, { submissionId: submissionIds });
+        attachments = await manager.find(ContactAttachment, {
+          where: { submissionId: submissionIds },
+        });
+        await manager.delete(ContactAttachment, { submissionId: submissionIds });
+      }
+      // Zgłoszenia kontaktowe zostają w statystykach, bez treści i danych identyfikujących osobę.
+      await manager.update(
+        ContactSubmission,
+        { email: user.email },
+        {
+          name: ERASED_PLACEHOLDER,
+          email: `erased-${user.id}@invalid`,
+          phone: () => 'NULL',
+          company: () => 'NULL',
+          subject: ERASED_PLACEHOLDER,
+          message: ERASED_PLACEHOLDER,
+          budget: () => 'NULL',
+          timeline: () => 'NULL',
+          ipAddress: () => 'NULL',
+          userAgent: () => 'NULL',
+          threadToken: () => 'NULL',
+        },
+      );
+      // Rejestr zgód zostaje jako dowód na potrzeby audytu, ale tylko z pseudonimem zamiast adresu.
+      await manager.update(
+        ConsentRecord,
+        { subjectEmail: user.email },
+        { subjectEmail: () => 'NULL', ipAddress: () => 'NULL', userAgent: () => 'NULL' },
+      );
+      // Wpisy na liście odwołanych tokenów zostają do wygaśnięcia, ale bez powiązania z osobą.
+      await manager.update(RevokedAccessToken, { userId: user.id }, { userId: () => 'NULL' });
+      // Kody logowania, sesje, kody zapasowe i prośby o usunięcie znikają kaskadowo razem z kontem.
+      await manager.delete(User, { id: user.id });
+    });
+
+    // Pliki usuwamy dopiero po zatwierdzeniu transakcji - wycofanie nie zostawi wpisów bez plików.
+    await this.attachmentsService.removeFiles(attachments);
+
+    this.logger.log(`Erased personal data of user ${user.id} (requested by ${requestedBy}).`);
+  }
+
+  private async loadUser(userId: string): Promise<User> {
+    const user = await this.usersRepository.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException(apiError(ErrorCode.USER_NOT_FOUND));
+    }
+    return user;
+  }
+
+  private hashCode(code: string): string {
+    return createHmac('sha256', this.codeSecret).update(code).digest('hex');
+  }
+
+  private matchesCodeHash(code: string, expectedHash: string): boolean {
+    const actual = Buffer.from(this.hashCode(code), 'hex');
+    const expected = Buffer.from(expectedHash, 'hex');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  private generateCode(): string {
+    return randomInt(0, 1_000_000).toString().padStart(6, '0');
+  }
+}
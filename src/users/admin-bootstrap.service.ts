@@ -0,0 +1,50 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { User } from './entities/user.entity';
+import { UserRole } from './enums/user-role.enum';
+
+@Injectable()
+export class AdminBootstrapService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(AdminBootstrapService.name);
+
+  constructor(
+    @InjectRepository(User)
+    private readonly usersRepository: Repository<User>,
+    private readonly config: ConfigService,
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    const emails = (this.config.get<string>('ADMIN_EMAILS') ?? '')
+      .split(',')
+      .map((email) => email.trim().toLowerCase())
+      .filter(Boolean);
+
+    for (const email of emails) {
+      await this.ensureAdmin(email);
+    }
+  }
+
+  private async ensureAdmin(email: string): Promise<void> {
+    const user = await this.usersRepository.findOne({ where: { email } });
+
+    if (!user) {
+      await this.usersRepository.save(
+        this.usersRepository.create({
+          email,
+          roles: [UserRole.VISITOR, UserRole.ADMIN],
+        }),
+      );
+      this.logger.log(`Created bootstrap admin account for ${email}`);
+      return;
+    }
+
+    if (!user.roles.includes(UserRole.ADMIN)) {
+      await this.usersRepository.update(user.id, {
+        roles: [...user.roles, UserRole.ADMIN],
+      });
+      this.logger.log(`Granted admin role to ${email} from ADMIN_EMAILS`);
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiNoContentResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { AuthenticatedUser } from '../auth/interfaces/authenticated-user.interface';
+import { BlockUserDto } from './dto/block-user.dto';
+import { ListUsersQueryDto } from './dto/list-users-query.dto';
+import { UpdateUserDto } from './dto/update-user.dto';
+import { User } from './entities/user.entity';
+import { UserRole } from './enums/user-role.enum';
+import { UsersService } from './users.service';
+
+const serializeUser = (user: User) => ({
+  id: user.id,
+  email: user.email,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  phone: user.phone,
+  company: user.company,
+  preferredLanguage: user.preferredLanguage,
+  roles: user.roles,
+  totpEnabled: Boolean(user.totpEnabledAt),
+  blockedAt: user.blockedAt,
+  blockedReason: user.blockedReason,
+  createdAt: user.createdAt,
+  updatedAt: user.updatedAt,
+});
+
+@ApiTags('admin / users')
+@ApiBearerAuth('bearer')
+@ApiUnauthorizedResponse({ description: 'Brak ważnego tokenu dostępu.' })
+@ApiForbiddenResponse({ description: 'Wymagana rola administratora.' })
+@Controller('admin/users')
+@UseGuards(AuthGuard('jwt'), RolesGuard)
+@Roles(UserRole.ADMIN)
+export class AdminUsersController {
+  constructor(private readonly usersService: UsersService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Lista użytkowników z wyszukiwaniem, filtrami i paginacją' })
+  @ApiOkResponse({ description: 'Strona wyników wraz z łączną liczbą użytkowników.' })
+  async list(@Query() query: ListUsersQueryDto) {
+    const result = await this.usersService.findAll(query);
+    return {
+      ...result,
+      items: result.items.map(serializeUser),
+    };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Szczegóły użytkownika wraz z historią kodów logowania' })
+  @ApiOkResponse({ description: 'Profil użytkownika i historia kodów logowania.' })
+  @ApiNotFoundResponse({ description: 'Użytkownik nie istnieje.' })
+  async findOne(@Param('id', ParseUUIDPipe) id: string) {
+    const user = await this.usersService.findOneWithLoginHistory(id);
+    return {
+      ...serializeUser(user),
+      loginTokens: (user.loginTokens ?? []).map((token) => ({
+        id: token.id,
+        createdAt: token.createdAt,
+        expiresAt: token.expiresAt,
+        consumedAt: token.consumedAt,
+        revoked: token.revoked,
+        failedAttempts: token.failedAttempts,
+      })),
+    };
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Edycja danych profilu użytkownika' })
+  @ApiOkResponse({ description: 'Zaktualizowany profil użytkownika.' })
+  @ApiNotFoundResponse({ description: 'Użytkownik nie istnieje.' })
+  async update(@Param('id', ParseUUIDPipe) id: string, @Body() dto: UpdateUserDto) {
+    return serializeUser(await this.usersService.update(id, dto));
+  }
+
+  @Post(':id/block')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Blokada konta i zakończenie wszystkich jego sesji' })
+  @ApiOkResponse({ description: 'Zablokowany profil użytkownika.' })
+  @ApiNotFoundResponse({ description: 'Użytkownik nie istnieje.' })
+  async block(
+    @CurrentUser() admin: AuthenticatedUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: BlockUserDto,
+  ) {
+    return serializeUser(await this.usersService.block(id, admin.userId, dto.reason));
+  }
+
+  @Delete(':id/block')
+  @ApiOperation({ summary: 'Odblokowanie konta' })
+  @ApiOkResponse({ description: 'Odblokowany profil użytkownika.' })
+  @ApiNotFoundResponse({ description: 'Użytkownik nie istnieje.' })
+  async unblock(@Param('id', ParseUUIDPipe) id: string) {
+    return serializeUser(await this.usersService.unblock(id));
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Trwałe usunięcie użytkownika wraz z sesjami i kodami logowania' })
+  @ApiNoContentResponse({ description: 'Użytkownik został usunięty.' })
+  @ApiNotFoundResponse({ description: 'Użytkownik nie istnieje.' })
+  async remove(@CurrentUser() admin: AuthenticatedUser, @Param('id', ParseUUIDPipe) id: string) {
+    await this.usersService.remove(id, admin.userId);
+  }
+}
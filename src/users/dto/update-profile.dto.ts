@@ -0,0 +1,36 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString, Matches, MaxLength, ValidateIf } from 'class-validator';
+import { ErrorCode } from '../../common/enums/error-code.enum';
+
+// Pusty napis lub null czyści pole.
+export class UpdateProfileDto {
+  @ApiPropertyOptional({ nullable: true })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  firstName?: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  lastName?: string | null;
+
+  @ApiPropertyOptional({ example: 'pl', nullable: true })
+  @IsOptional()
+  @IsString()
+  @MaxLength(10)
+  preferredLanguage?: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  @ValidateIf((dto: UpdateProfileDto) => dto.phone != null && dto.phone !== '')
+  @IsString()
+  @Matches(/^[\+]?[1-9][\d\s()-]{4,19}$/, { message: ErrorCode.INVALID_PHONE })
+  phone?: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  company?: string | null;
+}
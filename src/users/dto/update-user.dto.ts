@@ -0,0 +1,12 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEmail, MaxLength, ValidateIf } from 'class-validator';
+import { UpdateProfileDto } from './update-profile.dto';
+
+export class UpdateUserDto extends UpdateProfileDto {
+  // Adresu nie da się wyczyścić, więc null nie przechodzi walidacji.
+  @ApiPropertyOptional()
+  @ValidateIf((dto: UpdateUserDto) => dto.email !== undefined)
+  @IsEmail()
+  @MaxLength(190)
+  email?: string;
+}
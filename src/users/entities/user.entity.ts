@@ -2,11 +2,14 @@ import {
   Column,
   CreateDateColumn,
   Entity,
+  Index,
   OneToMany,
   PrimaryGeneratedColumn,
   UpdateDateColumn,
 } from 'typeorm';
 import { LoginToken } from '../../auth/entities/login-token.entity';
+import { Session } from '../../auth/entities/session.entity';
+import { UserRole } from '../enums/user-role.enum';
 
 @Entity({ name: 'users' })
 export class User {
@@ -25,7 +28,32 @@ export class User {
   @Column({ nullable: true })
   preferredLanguage?: string;
 
+  @Column({ nullable: true })
+  phone?: string;
+
+  @Column({ nullable: true })
+  company?: string;
+
+  @Column('simple-array', { default: UserRole.VISITOR })
+  roles!: UserRole[];
+
+  @Column({ nullable: true, select: false })
+  totpSecret?: string;
+
+  @Column({ nullable: true })
+  totpEnabledAt?: Date;
+
+  @Column({ nullable: true, select: false })
+  totpLastUsedStep?: number;
+
+  @Column({ nullable: true })
+  blockedAt?: Date;
+
+  @Column({ nullable: true })
+  blockedReason?: string;
+
   @CreateDateColumn()
+  @Index()
   createdAt!: Date;
 
   @UpdateDateColumn()
@@ -33,4 +61,7 @@ export class User {
 
   @OneToMany(() => LoginToken, (token) => token.user)
   loginTokens?: LoginToken[];
+
+  @OneToMany(() => Session, (session) => session.user)
+  sessions?: Session[];
 }
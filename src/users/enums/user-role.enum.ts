@@ -0,0 +1,5 @@
+export enum UserRole {
+  VISITOR = 'visitor',
+  TRUSTED = 'trusted',
+  ADMIN = 'admin',
+}
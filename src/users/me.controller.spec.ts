@@ -0,0 +1,74 @@
+import { BadRequestException, ValidationPipe } from '@nestjs/common'
+import { DataSource } from 'typeorm'
+import { LoginToken } from '../auth/entities/login-token.entity'
+import { Session } from '../auth/entities/session.entity'
+import { AuthenticatedUser } from '../auth/interfaces/authenticated-user.interface'
+import { SessionsService } from '../auth/sessions.service'
+import { UpdateProfileDto } from './dto/update-profile.dto'
+import { User } from './entities/user.entity'
+import { UserRole } from './enums/user-role.enum'
+import { MeController } from './me.controller'
+import { UsersService } from './users.service'
+
+describe('MeController', () => {
+  let dataSource: DataSource
+
+  beforeEach(async () => {
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      entities: [User, LoginToken, Session],
+      synchronize: true
+    })
+    await dataSource.initialize()
+  })
+
+  afterEach(async () => {
+    await dataSource.destroy()
+  })
+
+  it('returns the same profile after clearing a field as the one stored', async () => {
+    const usersRepository = dataSource.getRepository(User)
+    const sessionsService = {} as SessionsService
+    const controller = new MeController(
+      new UsersService(usersRepository, sessionsService),
+      sessionsService
+    )
+    const user = await usersRepository.save(
+      usersRepository.create({
+        email: 'user@example.com',
+        lastName: 'Kowalski',
+        company: 'ACME',
+        phone: '+41 79 123 45 67'
+      })
+    )
+    const principal: AuthenticatedUser = {
+      userId: user.id,
+      email: user.email,
+      roles: [UserRole.VISITOR]
+    }
+
+    const updated = await controller.updateProfile(principal, {
+      company: '',
+      phone: '',
+      lastName: ' Nowak '
+    })
+    const reloaded = await controller.getProfile(principal)
+
+    expect(updated).toEqual(reloaded)
+    expect(reloaded.company).toBeNull()
+    expect(reloaded.phone).toBeNull()
+    expect(reloaded.lastName).toEqual('Nowak')
+  })
+
+  it('accepts an empty or null phone number but validates a given one', async () => {
+    const pipe = new ValidationPipe({ whitelist: true, transform: true })
+    const validate = (body: object) =>
+      pipe.transform(body, { type: 'body', metatype: UpdateProfileDto })
+
+    await expect(validate({ phone: '' })).resolves.toEqual({ phone: '' })
+    await expect(validate({ phone: null })).resolves.toEqual({ phone: null })
+    await expect(validate({ phone: '+41 79 123 45 67' })).resolves.toBeDefined()
+    await expect(validate({ phone: 'abc' })).rejects.toBeInstanceOf(BadRequestException)
+  })
+})
@@ -0,0 +1,70 @@
+import { Body, Controller, Get, Patch, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiBearerAuth,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthenticatedUser } from '../auth/interfaces/authenticated-user.interface';
+import { SessionsService } from '../auth/sessions.service';
+import { UpdateProfileDto } from './dto/update-profile.dto';
+import { User } from './entities/user.entity';
+import { UsersService } from './users.service';
+
+const serializeProfile = (user: User) => ({
+  id: user.id,
+  email: user.email,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  phone: user.phone,
+  company: user.company,
+  preferredLanguage: user.preferredLanguage,
+  roles: user.roles,
+  totpEnabled: Boolean(user.totpEnabledAt),
+  createdAt: user.createdAt,
+});
+
+@ApiTags('me')
+@ApiBearerAuth('bearer')
+@ApiUnauthorizedResponse({ description: 'Brak ważnego tokenu dostępu.' })
+@Controller('me')
+@UseGuards(AuthGuard('jwt'))
+export class MeController {
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly sessionsService: SessionsService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Profil zalogowanego użytkownika' })
+  @ApiOkResponse({ description: 'Dane profilu.' })
+  async getProfile(@CurrentUser() principal: AuthenticatedUser) {
+    return serializeProfile(await this.usersService.findById(principal.userId));
+  }
+
+  @Patch()
+  @ApiOperation({ summary: 'Aktualizacja własnych danych profilu' })
+  @ApiOkResponse({ description: 'Zaktualizowane dane profilu.' })
+  async updateProfile(@CurrentUser() principal: AuthenticatedUser, @Body() dto: UpdateProfileDto) {
+    return serializeProfile(await this.usersService.update(principal.userId, dto));
+  }
+
+  @Get('sessions')
+  @ApiOperation({ summary: 'Aktywne sesje zalogowanego użytkownika' })
+  @ApiOkResponse({ description: 'Lista aktywnych sesji; bieżąca sesja ma ustawione pole current.' })
+  async listSessions(@CurrentUser() principal: AuthenticatedUser) {
+    const sessions = await this.sessionsService.findActiveForUser(principal.userId);
+    return sessions.map((session) => ({
+      id: session.id,
+      current: session.id === principal.sessionId,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+    }));
+  }
+}
@@ -0,0 +1,40 @@
+import { Request } from 'express'
+import { AuthService } from '../auth/auth.service'
+import { ConsentService } from '../consent/consent.service'
+import { ConsentType } from '../consent/enums/consent-type.enum'
+import { User } from './entities/user.entity'
+import { UsersController } from './users.controller'
+import { UsersService } from './users.service'
+
+describe('UsersController', () => {
+  it('records GDPR consent for an account created through POST /users', async () => {
+    const user = { id: 'user-id', email: 'user@example.com', preferredLanguage: 'de' } as User
+    const usersService = { create: jest.fn().mockResolvedValue(user) } as unknown as UsersService
+    const authService = {
+      generateLoginToken: jest
+        .fn()
+        .mockResolvedValue({ expiresAt: new Date(), createdAt: new Date() })
+    } as unknown as AuthService
+    const consentService = {
+      grant: jest.fn().mockResolvedValue([])
+    } as unknown as jest.Mocked<ConsentService>
+    const controller = new UsersController(usersService, authService, consentService)
+    const req = {
+      headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1', 'user-agent': 'Mozilla/5.0' }
+    } as unknown as Request
+
+    await controller.create({ email: 'user@example.com' }, req)
+
+    expect(consentService.grant).toHaveBeenCalledWith(
+      {
+        email: 'user@example.com',
+        userId: 'user-id',
+        language: 'de',
+        source: 'account',
+        ipAddress: '203.0.113.7',
+        userAgent: 'Mozilla/5.0'
+      },
+      [ConsentType.GDPR]
+    )
+  })
+})
@@ -1,5 +1,9 @@
-import { Body, Controller, Post } from '@nestjs/common';
+import { Body, Controller, Post, Req } from '@nestjs/common';
+import { Request } from 'express';
 import { AuthService } from '../auth/auth.service';
+import { extractClientIp } from '../common/utils/request.utils';
+import { ConsentService } from '../consent/consent.service';
+import { ConsentType } from '../consent/enums/consent-type.enum';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UsersService } from './users.service';
 
@@ -8,11 +12,23 @@ export class UsersController {
   constructor(
     private readonly usersService: UsersService,
     private readonly authService: AuthService,
+    private readonly consentService: ConsentService,
   ) {}
 
   @Post()
-  async create(@Body() dto: CreateUserDto) {
+  async create(@Body() dto: CreateUserDto, @Req() req: Request) {
     const user = await this.usersService.create(dto);
+    await this.consentService.grant(
+      {
+        email: user.email,
+        userId: user.id,
+        language: user.preferredLanguage,
+        source: 'account',
+        ipAddress: extractClientIp(req),
+        userAgent: req.headers['user-agent'],
+      },
+      [ConsentType.GDPR],
+    );
     const loginToken = await this.authService.generateLoginToken(user, {
       sendEmail: true,
     });
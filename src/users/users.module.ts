@@ -1,14 +1,18 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { AuthModule } from '../auth/auth.module';
+import { ConsentModule } from '../consent/consent.module';
+import { AdminBootstrapService } from './admin-bootstrap.service';
+import { AdminUsersController } from './admin-users.controller';
 import { User } from './entities/user.entity';
+import { MeController } from './me.controller';
 import { UsersController } from './users.controller';
 import { UsersService } from './users.service';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([User]), AuthModule],
-  controllers: [UsersController],
-  providers: [UsersService],
+  imports: [TypeOrmModule.forFeature([User]), AuthModule, ConsentModule],
+  controllers: [UsersController, MeController, AdminUsersController],
+  providers: [UsersService, AdminBootstrapService],
   exports: [UsersService],
 })
 export class UsersModule {}
@@ -1,7 +1,10 @@
-import { ConflictException } from '@nestjs/common'
+import { BadRequestException, ConflictException } from '@nestjs/common'
 import { Test } from '@nestjs/testing'
 import { getRepositoryToken } from '@nestjs/typeorm'
-import { Repository } from 'typeorm'
+import { DataSource, Repository } from 'typeorm'
+import { LoginToken } from '../auth/entities/login-token.entity'
+import { Session } from '../auth/entities/session.entity'
+import { SessionsService } from '../auth/sessions.service'
 import { CreateUserDto } from './dto/create-user.dto'
 import { User } from './entities/user.entity'
 import { UsersService } from './users.service'
@@ -15,6 +18,7 @@ const createDto = (email: string): CreateUserDto => ({
 describe('UsersService', () => {
   let service: UsersService
   let repository: jest.Mocked<Repository<User>>
+  let sessionsService: jest.Mocked<SessionsService>
 
   beforeEach(async () => {
     const moduleRef = await Test.createTestingModule({
@@ -25,7 +29,14 @@ describe('UsersService', () => {
           useValue: {
             findOne: jest.fn(),
             create: jest.fn(),
-            save: jest.fn()
+            save: jest.fn(),
+            update: jest.fn()
+          }
+        },
+        {
+          provide: SessionsService,
+          useValue: {
+            revokeAllForUser: jest.fn().mockResolvedValue(0)
           }
         }
       ]
@@ -33,6 +44,7 @@ describe('UsersService', () => {
 
     service = moduleRef.get(UsersService)
     repository = moduleRef.get(getRepositoryToken(User))
+    sessionsService = moduleRef.get(SessionsService)
   })
 
   afterEach(() => {
@@ -76,4 +88,98 @@ describe('UsersService', () => {
     )
     expect(repository.save).not.toHaveBeenCalled()
   })
+
+  it('blocks a user and revokes all of their sessions', async () => {
+    repository.findOne.mockResolvedValue({ id: 'user-id', email: 'user@example.com' } as User)
+
+    const result = await service.block('user-id', 'admin-id', ' spam ')
+
+    expect(result.blockedAt).toBeInstanceOf(Date)
+    expect(repository.update).toHaveBeenCalledWith('user-id', {
+      blockedAt: result.blockedAt,
+      blockedReason: 'spam'
+    })
+    expect(sessionsService.revokeAllForUser).toHaveBeenCalledWith('user-id', 'user-blocked')
+  })
+
+  it('does not let an admin block their own account', async () => {
+    repository.findOne.mockResolvedValue({ id: 'admin-id', email: 'admin@example.com' } as User)
+
+    await expect(service.block('admin-id', 'admin-id')).rejects.toBeInstanceOf(BadRequestException)
+    expect(repository.update).not.toHaveBeenCalled()
+    expect(sessionsService.revokeAllForUser).not.toHaveBeenCalled()
+  })
+
+  it('updates only the profile fields that were provided', async () => {
+    const user = { id: 'user-id', email: 'user@example.com', firstName: 'Jan' } as User
+    repository.findOne
+      .mockResolvedValueOnce(user)
+      .mockResolvedValueOnce({ ...user, company: 'ACME', preferredLanguage: 'en' } as User)
+
+    const result = await service.update('user-id', { company: ' ACME ', preferredLanguage: 'EN' })
+
+    expect(repository.update).toHaveBeenCalledWith('user-id', {
+      company: 'ACME',
+      preferredLanguage: 'en'
+    })
+    expect(result.firstName).toEqual('Jan')
+    expect(result.company).toEqual('ACME')
+  })
+
+  describe('with a database', () => {
+    let dataSource: DataSource
+
+    beforeEach(async () => {
+      dataSource = new DataSource({
+        type: 'sqlite',
+        database: ':memory:',
+        entities: [User, LoginToken, Session],
+        synchronize: true
+      })
+      await dataSource.initialize()
+    })
+
+    afterEach(async () => {
+      await dataSource.destroy()
+    })
+
+    it('stores cleared profile fields as empty', async () => {
+      const usersRepository = dataSource.getRepository(User)
+      const usersService = new UsersService(usersRepository, sessionsService)
+      const { id } = await usersRepository.save(
+        usersRepository.create({
+          email: 'user@example.com',
+          firstName: 'Jan',
+          company: 'ACME',
+          preferredLanguage: 'de'
+        })
+      )
+
+      const result = await usersService.update(id, {
+        company: ' ',
+        preferredLanguage: '',
+        firstName: 'Janek'
+      })
+      const reloaded = await usersService.findById(id)
+
+      expect(result).toEqual(reloaded)
+      expect(reloaded.firstName).toEqual('Janek')
+      expect(reloaded.company).toBeNull()
+      expect(reloaded.preferredLanguage).toBeNull()
+    })
+
+    it('clears profile fields sent as null', async () => {
+      const usersRepository = dataSource.getRepository(User)
+      const usersService = new UsersService(usersRepository, sessionsService)
+      const { id } = await usersRepository.save(
+        usersRepository.create({ email: 'user@example.com', phone: '+41 79 123 45 67' })
+      )
+
+      await usersService.update(id, { phone: null, preferredLanguage: null })
+      const reloaded = await usersService.findById(id)
+
+      expect(reloaded.phone).toBeNull()
+      expect(reloaded.preferredLanguage).toBeNull()
+    })
+  })
 })
@@ -1,18 +1,35 @@
 import {
+  BadRequestException,
   ConflictException,
   Injectable,
+  Logger,
   NotFoundException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { Brackets, Repository } from 'typeorm';
+import { SessionsService } from '../auth/sessions.service';
+import { ErrorCode } from '../common/enums/error-code.enum';
+import { apiError } from '../common/i18n/api-messages';
 import { CreateUserDto } from './dto/create-user.dto';
+import { ListUsersQueryDto } from './dto/list-users-query.dto';
+import { UpdateUserDto } from './dto/update-user.dto';
 import { User } from './entities/user.entity';
 
+export interface PaginatedUsers {
+  items: User[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
 @Injectable()
 export class UsersService {
+  private readonly logger = new Logger(UsersService.name);
+
   constructor(
     @InjectRepository(User)
     private readonly usersRepository: Repository<User>,
+    private readonly sessionsService: SessionsService,
   ) {}
 
   async create(dto: CreateUserDto): Promise<User> {
@@ -23,7 +40,7 @@ export class UsersService {
     });
 
     if (existing) {
-      throw new ConflictException('Użytkownik z takim e-mailem już istnieje.');
+      throw new ConflictException(apiError(ErrorCode.USER_EMAIL_TAKEN));
     }
 
     const user = this.usersRepository.create({
@@ -44,9 +61,160 @@ export class UsersService {
     });
 
     if (!user) {
-      throw new NotFoundException('Użytkownik nie istnieje.');
+      throw new NotFoundException(apiError(ErrorCode.USER_NOT_FOUND));
+    }
+
+    return user;
+  }
+
+  async findById(id: string): Promise<User> {
+    const user = await this.usersRepository.findOne({ where: { id } });
+
+    if (!user) {
+      throw new NotFoundException(apiError(ErrorCode.USER_NOT_FOUND));
+    }
+
+    return user;
+  }
+
+  async findAll(query: ListUsersQueryDto): Promise<PaginatedUsers> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 20;
+    const qb = this.usersRepository.createQueryBuilder('user');
+
+    const search = query.search?.trim().toLowerCase();
+    if (search) {
+      qb.andWhere(
+        new Brackets((where) => {
+          where
+            .where('LOWER(user.email) LIKE :search')
+            .orWhere('LOWER(user.firstName) LIKE :search')
+            .orWhere('LOWER(user.lastName) LIKE :search')
+            .orWhere('LOWER(user.company) LIKE :search');
+        }),
+        { search: `%${search}%` },
+      );
+    }
+
+    if (query.createdFrom) {
+      qb.andWhere('user.createdAt >= :createdFrom', { createdFrom: query.createdFrom });
+    }
+    if (query.createdTo) {
+      qb.andWhere('user.createdAt <= :createdTo', { createdTo: query.createdTo });
+    }
+    if (query.language) {
+      qb.andWhere('user.preferredLanguage = :language', {
+        language: query.language.trim().toLowerCase(),
+      });
+    }
+
+    const [items, total] = await qb
+      .orderBy('user.createdAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return { items, total, page, limit };
+  }
+
+  async findOneWithLoginHistory(id: string): Promise<User> {
+    const user = await this.usersRepository.findOne({
+      where: { id },
+      relations: { loginTokens: true },
+      order: { loginTokens: { createdAt: 'DESC' } },
+    });
+
+    if (!user) {
+      throw new NotFoundException(apiError(ErrorCode.USER_NOT_FOUND));
     }
 
     return user;
   }
+
+  async update(id: string, dto: UpdateUserDto): Promise<User> {
+    const user = await this.findById(id);
+    const updates: Partial<User> = {};
+
+    if (dto.email !== undefined) {
+      const normalizedEmail = dto.email.trim().toLowerCase();
+      if (normalizedEmail !== user.email) {
+        const existing = await this.usersRepository.findOne({
+          where: { email: normalizedEmail },
+        });
+        if (existing) {
+          throw new ConflictException(apiError(ErrorCode.USER_EMAIL_TAKEN));
+        }
+        updates.email = normalizedEmail;
+      }
+    }
+
+    for (const field of ['firstName', 'lastName', 'phone', 'company'] as const) {
+      if (dto[field] !== undefined) {
+        updates[field] = dto[field]?.trim() || undefined;
+      }
+    }
+    if (dto.preferredLanguage !== undefined) {
+      updates.preferredLanguage = dto.preferredLanguage?.trim().toLowerCase() || undefined;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return user;
+    }
+
+    // update() pomija pola undefined, więc wyczyszczone pola trzeba jawnie ustawić na NULL.
+    await this.usersRepository.update(
+      user.id,
+      Object.fromEntries(
+        Object.entries(updates).map(([field, value]) => [field, value ?? (() => 'NULL')]),
+      ),
+    );
+    return this.findById(user.id);
+  }
+
+  async block(id: string, actorId: string, reason?: string): Promise<User> {
+    const user = await this.findById(id);
+
+    if (user.id === actorId) {
+      throw new BadRequestException(apiError(ErrorCode.CANNOT_BLOCK_SELF));
+    }
+
+    if (!user.blockedAt) {
+      user.blockedAt = new Date();
+      user.blockedReason = reason?.trim() || undefined;
+      await this.usersRepository.update(user.id, {
+        blockedAt: user.blockedAt,
+        blockedReason: user.blockedReason,
+      });
+      this.logger.log(`User ${user.id} blocked by ${actorId}.`);
+    }
+
+    // Zablokowany użytkownik traci wszystkie aktywne sesje od razu, nie dopiero po wygaśnięciu tokenu.
+    await this.sessionsService.revokeAllForUser(user.id, 'user-blocked');
+    return user;
+  }
+
+  async unblock(id: string): Promise<User> {
+    const user = await this.findById(id);
+
+    if (user.blockedAt) {
+      await this.usersRepository.update(user.id, {
+        blockedAt: () => 'NULL',
+        blockedReason: () => 'NULL',
+      });
+      this.logger.log(`User ${user.id} unblocked.`);
+    }
+
+    return { ...user, blockedAt: undefined, blockedReason: undefined };
+  }
+
+  async remove(id: string, actorId: string): Promise<void> {
+    const user = await this.findById(id);
+
+    if (user.id === actorId) {
+      throw new BadRequestException(apiError(ErrorCode.CANNOT_DELETE_SELF));
+    }
+
+    await this.usersRepository.delete(user.id);
+    this.logger.log(`User ${user.id} deleted by ${actorId}.`);
+  }
 }